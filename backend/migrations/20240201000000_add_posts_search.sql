@@ -0,0 +1,29 @@
+-- Full-text index over posts. It is an external-content table, so the text
+-- lives only in `posts` and the triggers below keep the index in step.
+CREATE VIRTUAL TABLE IF NOT EXISTS posts_fts USING fts5(
+    title,
+    content,
+    author,
+    content = 'posts',
+    content_rowid = 'id',
+    tokenize = 'porter unicode61'
+);
+
+INSERT INTO posts_fts(posts_fts) VALUES ('rebuild');
+
+CREATE TRIGGER posts_fts_insert AFTER INSERT ON posts BEGIN
+    INSERT INTO posts_fts(rowid, title, content, author)
+    VALUES (new.id, new.title, new.content, new.author);
+END;
+
+CREATE TRIGGER posts_fts_delete AFTER DELETE ON posts BEGIN
+    INSERT INTO posts_fts(posts_fts, rowid, title, content, author)
+    VALUES ('delete', old.id, old.title, old.content, old.author);
+END;
+
+CREATE TRIGGER posts_fts_update AFTER UPDATE OF title, content, author ON posts BEGIN
+    INSERT INTO posts_fts(posts_fts, rowid, title, content, author)
+    VALUES ('delete', old.id, old.title, old.content, old.author);
+    INSERT INTO posts_fts(rowid, title, content, author)
+    VALUES (new.id, new.title, new.content, new.author);
+END;
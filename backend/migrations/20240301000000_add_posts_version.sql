@@ -0,0 +1,3 @@
+-- Monotonic edit counter used as the post's ETag. Every successful update
+-- bumps it, so a write carrying an older version can be rejected with 409.
+ALTER TABLE posts ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,25 @@
+-- One row per saved state of a post. `version` matches `posts.version` at the
+-- time of the write, so a revision can be addressed by the ETag clients saw.
+CREATE TABLE IF NOT EXISTS post_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    post_id INTEGER NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    content TEXT NOT NULL,
+    author TEXT NOT NULL,
+    status TEXT NOT NULL,
+    -- JSON array of the fields that differ from the previous revision.
+    changed_fields TEXT NOT NULL DEFAULT '[]',
+    edited_by TEXT NOT NULL,
+    -- Set when the write restored an older revision: that revision's version.
+    restored_from INTEGER,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (post_id, version)
+);
+
+-- Existing posts start their history at their current state.
+INSERT INTO post_revisions
+    (post_id, version, title, content, author, status, changed_fields, edited_by, created_at)
+SELECT id, version, title, content, author, status,
+       '["title","content","author","status"]', author, updated_at
+FROM posts;
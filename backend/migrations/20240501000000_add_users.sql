@@ -0,0 +1,16 @@
+-- Accounts that can sign in and own posts. Usernames are unique regardless
+-- of case; `display_name` is what gets shown as a post's author.
+CREATE TABLE IF NOT EXISTS users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    display_name TEXT NOT NULL,
+    password_hash TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'author',
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Posts written before accounts existed have no owner; only admins may change
+-- them.
+ALTER TABLE posts ADD COLUMN owner_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_posts_owner_id ON posts(owner_id);
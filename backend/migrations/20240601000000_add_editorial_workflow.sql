@@ -0,0 +1,19 @@
+-- Workflow: draft -> in_review -> scheduled -> published -> archived. The
+-- status column is free text, so only the new scheduling columns are needed.
+-- `publish_at` is when a scheduled post goes live (or a published one did).
+ALTER TABLE posts ADD COLUMN publish_at DATETIME;
+
+UPDATE posts SET publish_at = updated_at WHERE status = 'published';
+
+-- The scheduler polls for scheduled posts that are due.
+CREATE INDEX idx_posts_status_publish_at ON posts(status, publish_at);
+
+CREATE TABLE IF NOT EXISTS review_comments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    post_id INTEGER NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    author_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    body TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_review_comments_post_id ON review_comments(post_id);
@@ -0,0 +1,14 @@
+-- Human-readable URLs. Existing posts get their slug from the title when the
+-- server starts (see `slugs::backfill_slugs`), since SQLite cannot slugify.
+ALTER TABLE posts ADD COLUMN slug TEXT;
+
+CREATE UNIQUE INDEX idx_posts_slug ON posts(slug);
+
+-- Slugs a post has moved away from, answered with a 301 to the current one.
+CREATE TABLE IF NOT EXISTS post_slug_redirects (
+    slug TEXT PRIMARY KEY,
+    post_id INTEGER NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_post_slug_redirects_post_id ON post_slug_redirects(post_id);
@@ -0,0 +1,18 @@
+-- Reader comments on published posts. Replies point at their parent through
+-- `parent_id`, which may nest to any depth. Every comment waits in `pending`
+-- until a moderator approves it or marks it as spam; only approved comments
+-- are shown. Anonymous commenters have no `author_id` and give a name instead.
+CREATE TABLE IF NOT EXISTS comments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    post_id INTEGER NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    parent_id INTEGER REFERENCES comments(id) ON DELETE CASCADE,
+    author_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    author_name TEXT NOT NULL,
+    body TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_comments_post_id_status ON comments(post_id, status);
+CREATE INDEX idx_comments_status_created_at ON comments(status, created_at);
+CREATE INDEX idx_comments_parent_id ON comments(parent_id);
@@ -0,0 +1,17 @@
+-- Uploaded files. `filename` and `thumbnail` name files in the upload
+-- directory; `thumbnail` is NULL for files that are not images. `width` and
+-- `height` are the image's own size.
+CREATE TABLE IF NOT EXISTS media (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    filename TEXT NOT NULL UNIQUE,
+    thumbnail TEXT,
+    original_name TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    width INTEGER,
+    height INTEGER,
+    uploaded_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_media_created_at ON media(created_at DESC);
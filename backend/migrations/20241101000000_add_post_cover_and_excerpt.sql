@@ -0,0 +1,5 @@
+-- Optional cover image (an upload path or an absolute URL) and hand-written
+-- summary for listings and social previews. Posts without an excerpt fall
+-- back to the start of their content.
+ALTER TABLE posts ADD COLUMN cover_image TEXT;
+ALTER TABLE posts ADD COLUMN excerpt TEXT;
@@ -0,0 +1,56 @@
+//! User management for admins.
+
+use axum::{
+    extract::{Path, State},
+    Json,
+};
+use std::sync::Arc;
+
+use crate::auth::{require, AuthUser, USER_COLUMNS};
+use crate::error::AppError;
+use crate::models::{Role, UpdateUserRole, User};
+
+type AppState = Arc<crate::AppState>;
+
+const FORBIDDEN: &str = "Only admins can manage users";
+
+pub async fn list_users(
+    State(state): State<AppState>,
+    AuthUser(admin): AuthUser,
+) -> Result<Json<Vec<User>>, AppError> {
+    require(&admin, Role::can_manage_users, FORBIDDEN)?;
+
+    let users = sqlx::query_as::<_, User>(&format!(
+        "SELECT {USER_COLUMNS} FROM users ORDER BY username COLLATE NOCASE"
+    ))
+    .fetch_all(&state.db)
+    .await?;
+
+    Ok(Json(users))
+}
+
+pub async fn update_user_role(
+    State(state): State<AppState>,
+    AuthUser(admin): AuthUser,
+    Path(id): Path<i64>,
+    Json(payload): Json<UpdateUserRole>,
+) -> Result<Json<User>, AppError> {
+    require(&admin, Role::can_manage_users, FORBIDDEN)?;
+    // Otherwise the last admin could lock everyone out of this page.
+    if id == admin.id && payload.role != Role::Admin {
+        return Err(AppError::ValidationError(
+            "You cannot remove your own admin role".to_string(),
+        ));
+    }
+
+    let user = sqlx::query_as::<_, User>(&format!(
+        "UPDATE users SET role = ? WHERE id = ? RETURNING {USER_COLUMNS}"
+    ))
+    .bind(payload.role)
+    .bind(id)
+    .fetch_optional(&state.db)
+    .await?
+    .ok_or(AppError::NotFound)?;
+
+    Ok(Json(user))
+}
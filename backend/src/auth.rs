@@ -0,0 +1,161 @@
+//! Accounts and bearer tokens. Tokens are HS256 JWTs signed with `JWT_SECRET`
+//! that carry only the user id; the user row is loaded on every request, so a
+//! role change or a deleted account takes effect immediately.
+
+use argon2::{
+    password_hash::{rand_core::OsRng, PasswordHash, PasswordHasher, PasswordVerifier, SaltString},
+    Argon2,
+};
+use axum::{
+    async_trait,
+    extract::{FromRequestParts, State},
+    http::{header, request::Parts, StatusCode},
+    Json,
+};
+use jsonwebtoken::{decode, encode, DecodingKey, EncodingKey, Header, Validation};
+use serde::{Deserialize, Serialize};
+use std::sync::Arc;
+
+use crate::error::AppError;
+use crate::models::{AuthResponse, LoginUser, RegisterUser, Role, User};
+
+type AppState = Arc<crate::AppState>;
+
+const TOKEN_TTL_DAYS: i64 = 7;
+
+pub const USER_COLUMNS: &str = "id, username, display_name, password_hash, role, created_at";
+
+#[derive(Debug, Serialize, Deserialize)]
+struct Claims {
+    sub: i64,
+    exp: i64,
+}
+
+fn issue_token(secret: &str, user: &User) -> Result<String, AppError> {
+    let claims = Claims {
+        sub: user.id,
+        exp: (chrono::Utc::now() + chrono::Duration::days(TOKEN_TTL_DAYS)).timestamp(),
+    };
+    encode(
+        &Header::default(),
+        &claims,
+        &EncodingKey::from_secret(secret.as_bytes()),
+    )
+    .map_err(|_| AppError::InternalError)
+}
+
+fn hash_password(password: &str) -> Result<String, AppError> {
+    let salt = SaltString::generate(&mut OsRng);
+    Argon2::default()
+        .hash_password(password.as_bytes(), &salt)
+        .map(|hash| hash.to_string())
+        .map_err(|_| AppError::InternalError)
+}
+
+fn verify_password(password: &str, hash: &str) -> bool {
+    PasswordHash::new(hash).is_ok_and(|parsed| {
+        Argon2::default()
+            .verify_password(password.as_bytes(), &parsed)
+            .is_ok()
+    })
+}
+
+/// The signed-in user, from `Authorization: Bearer <token>`. Handlers taking
+/// it answer anonymous requests with 401; take `Option<AuthUser>` where
+/// signing in is optional.
+pub struct AuthUser(pub User);
+
+#[async_trait]
+impl FromRequestParts<AppState> for AuthUser {
+    type Rejection = AppError;
+
+    async fn from_request_parts(parts: &mut Parts, state: &AppState) -> Result<Self, AppError> {
+        let token = parts
+            .headers
+            .get(header::AUTHORIZATION)
+            .and_then(|value| value.to_str().ok())
+            .and_then(|value| value.strip_prefix("Bearer "))
+            .ok_or_else(|| AppError::Unauthorized("Sign in to continue".to_string()))?;
+
+        let claims = decode::<Claims>(
+            token,
+            &DecodingKey::from_secret(state.jwt_secret.as_bytes()),
+            &Validation::default(),
+        )
+        .map_err(|_| AppError::Unauthorized("Your session has expired, sign in again".to_string()))?
+        .claims;
+
+        let user =
+            sqlx::query_as::<_, User>(&format!("SELECT {USER_COLUMNS} FROM users WHERE id = ?"))
+                .bind(claims.sub)
+                .fetch_optional(&state.db)
+                .await?
+                .ok_or_else(|| {
+                    AppError::Unauthorized("Your account no longer exists".to_string())
+                })?;
+
+        Ok(AuthUser(user))
+    }
+}
+
+pub async fn register(
+    State(state): State<AppState>,
+    Json(payload): Json<RegisterUser>,
+) -> Result<(StatusCode, Json<AuthResponse>), AppError> {
+    let payload = payload.validate()?;
+    let password_hash = hash_password(&payload.password)?;
+
+    // Whoever registers first administers the blog; everyone after that starts
+    // as a reader until an admin gives them a role.
+    let user = sqlx::query_as::<_, User>(&format!(
+        r#"
+        INSERT INTO users (username, display_name, password_hash, role)
+        VALUES (?, ?, ?, CASE WHEN EXISTS (SELECT 1 FROM users) THEN 'reader' ELSE 'admin' END)
+        RETURNING {USER_COLUMNS}
+        "#
+    ))
+    .bind(&payload.username)
+    .bind(&payload.display_name)
+    .bind(&password_hash)
+    .fetch_one(&state.db)
+    .await
+    .map_err(|e| match e {
+        sqlx::Error::Database(db) if db.is_unique_violation() => {
+            AppError::ValidationError("Username is already taken".to_string())
+        }
+        e => AppError::DatabaseError(e),
+    })?;
+
+    let token = issue_token(&state.jwt_secret, &user)?;
+    Ok((StatusCode::CREATED, Json(AuthResponse { token, user })))
+}
+
+pub async fn login(
+    State(state): State<AppState>,
+    Json(payload): Json<LoginUser>,
+) -> Result<Json<AuthResponse>, AppError> {
+    let user = sqlx::query_as::<_, User>(&format!(
+        "SELECT {USER_COLUMNS} FROM users WHERE username = ?"
+    ))
+    .bind(payload.username.trim())
+    .fetch_optional(&state.db)
+    .await?
+    .filter(|user| verify_password(&payload.password, &user.password_hash))
+    .ok_or_else(|| AppError::Unauthorized("Incorrect username or password".to_string()))?;
+
+    let token = issue_token(&state.jwt_secret, &user)?;
+    Ok(Json(AuthResponse { token, user }))
+}
+
+/// Rejects users whose role lacks `allowed` with a 403 carrying `message`.
+pub fn require(user: &User, allowed: fn(Role) -> bool, message: &str) -> Result<(), AppError> {
+    if allowed(user.role) {
+        Ok(())
+    } else {
+        Err(AppError::Forbidden(message.to_string()))
+    }
+}
+
+pub async fn me(AuthUser(user): AuthUser) -> Json<User> {
+    Json(user)
+}
@@ -0,0 +1,249 @@
+//! Reader comments on published posts and the moderation queue behind them.
+//!
+//! New comments start out `pending` and only show up once a moderator (an
+//! editor or admin) approves them; comments by moderators are approved right
+//! away. Comments that fill in the honeypot field go straight to `spam`, and
+//! posting is rate limited per IP address.
+
+use axum::{
+    extract::{ConnectInfo, Path, Query, Request, State},
+    http::StatusCode,
+    middleware::Next,
+    response::Response,
+    Json,
+};
+use sqlx::{QueryBuilder, Sqlite};
+use std::net::SocketAddr;
+use std::sync::Arc;
+use std::time::Duration;
+
+use crate::auth::{require, AuthUser};
+use crate::error::AppError;
+use crate::models::{
+    Comment, CommentAction, CreateComment, ModerateComments, ModerateCommentsResult,
+    ModeratedComment, Role,
+};
+use crate::rate_limit::client_ip;
+use crate::schema::{CommentFilters, PaginatedResponse, PaginationParams};
+
+type AppState = Arc<crate::AppState>;
+
+pub const COMMENT_STATUSES: &[&str] = &["pending", "approved", "spam"];
+
+/// How many comments one IP address may post per `RATE_WINDOW`.
+pub const RATE_LIMIT: usize = 5;
+pub const RATE_WINDOW: Duration = Duration::from_secs(10 * 60);
+
+/// Most comments one moderation request may change.
+const MAX_BULK: usize = 100;
+
+const FORBIDDEN: &str = "Only editors and admins can moderate comments";
+
+const COMMENT_COLUMNS: &str = "id, post_id, parent_id, author_name, body, status, created_at";
+
+/// Comments belong to published posts only; for any other post there is
+/// nothing to list or reply to, as far as readers can tell.
+async fn ensure_published(db: &sqlx::SqlitePool, post_id: i64) -> Result<(), AppError> {
+    let published = sqlx::query_scalar::<_, bool>(
+        "SELECT EXISTS (SELECT 1 FROM posts WHERE id = ? AND status = 'published')",
+    )
+    .bind(post_id)
+    .fetch_one(db)
+    .await?;
+    if published {
+        Ok(())
+    } else {
+        Err(AppError::NotFound)
+    }
+}
+
+/// The approved comments on a post, oldest first. Replies come as flat rows
+/// pointing at their parent; clients assemble the threads.
+pub async fn list_comments(
+    State(state): State<AppState>,
+    Path(id): Path<i64>,
+) -> Result<Json<Vec<Comment>>, AppError> {
+    ensure_published(&state.db, id).await?;
+
+    let comments = sqlx::query_as::<_, Comment>(&format!(
+        r#"
+        SELECT {COMMENT_COLUMNS}
+        FROM comments
+        WHERE post_id = ? AND status = 'approved'
+        ORDER BY created_at ASC, id ASC
+        "#
+    ))
+    .bind(id)
+    .fetch_all(&state.db)
+    .await?;
+
+    Ok(Json(comments))
+}
+
+/// Open to anonymous visitors as well as signed-in users, who comment under
+/// their display name.
+pub async fn create_comment(
+    State(state): State<AppState>,
+    user: Option<AuthUser>,
+    Path(id): Path<i64>,
+    Json(payload): Json<CreateComment>,
+) -> Result<(StatusCode, Json<Comment>), AppError> {
+    let user = user.map(|AuthUser(user)| user);
+    let payload = payload.validate(user.is_none())?;
+    ensure_published(&state.db, id).await?;
+
+    if let Some(parent_id) = payload.parent_id {
+        let parent_shown = sqlx::query_scalar::<_, bool>(
+            r#"
+            SELECT EXISTS (
+                SELECT 1 FROM comments WHERE id = ? AND post_id = ? AND status = 'approved'
+            )
+            "#,
+        )
+        .bind(parent_id)
+        .bind(id)
+        .fetch_one(&state.db)
+        .await?;
+        if !parent_shown {
+            return Err(AppError::ValidationError(
+                "The comment you replied to no longer exists".to_string(),
+            ));
+        }
+    }
+
+    let status = if !payload.website.trim().is_empty() {
+        "spam"
+    } else if user
+        .as_ref()
+        .is_some_and(|user| user.role.can_moderate_comments())
+    {
+        "approved"
+    } else {
+        "pending"
+    };
+    let (author_id, author_name) = match user {
+        Some(user) => (Some(user.id), user.display_name),
+        None => (None, payload.author_name),
+    };
+
+    let comment = sqlx::query_as::<_, Comment>(&format!(
+        r#"
+        INSERT INTO comments (post_id, parent_id, author_id, author_name, body, status)
+        VALUES (?, ?, ?, ?, ?, ?)
+        RETURNING {COMMENT_COLUMNS}
+        "#
+    ))
+    .bind(id)
+    .bind(payload.parent_id)
+    .bind(author_id)
+    .bind(&author_name)
+    .bind(&payload.body)
+    .bind(status)
+    .fetch_one(&state.db)
+    .await?;
+
+    Ok((StatusCode::CREATED, Json(comment)))
+}
+
+/// Middleware for the comment form's route: refuses a client that has
+/// already posted `RATE_LIMIT` comments within `RATE_WINDOW`.
+pub async fn limit_by_ip(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    request: Request,
+    next: Next,
+) -> Result<Response, AppError> {
+    let ip = client_ip(request.headers(), peer, &state.trusted_proxies);
+    state
+        .comment_limiter
+        .check(ip)
+        .map_err(|wait| AppError::TooManyRequests(wait.as_secs() + 1))?;
+    Ok(next.run(request).await)
+}
+
+/// The moderation queue: comments in one status (`pending` unless asked
+/// otherwise) across all posts, oldest first so nothing waits forever.
+pub async fn list_moderation_queue(
+    State(state): State<AppState>,
+    AuthUser(user): AuthUser,
+    Query(params): Query<PaginationParams>,
+    Query(filters): Query<CommentFilters>,
+) -> Result<Json<PaginatedResponse<ModeratedComment>>, AppError> {
+    require(&user, Role::can_moderate_comments, FORBIDDEN)?;
+    let status = filters.status.as_deref().unwrap_or("pending");
+    if !COMMENT_STATUSES.contains(&status) {
+        return Err(AppError::ValidationError(format!(
+            "Status must be one of: {}",
+            COMMENT_STATUSES.join(", ")
+        )));
+    }
+    let page = params.page.max(1);
+    let per_page = params.per_page.clamp(1, 100);
+    let offset = (page - 1) * per_page;
+
+    let comments = sqlx::query_as::<_, ModeratedComment>(
+        r#"
+        SELECT c.id, c.post_id, p.title AS post_title, p.slug AS post_slug, c.parent_id,
+               c.author_name, c.body, c.status, c.created_at
+        FROM comments c
+        JOIN posts p ON p.id = c.post_id
+        WHERE c.status = ?
+        ORDER BY c.created_at ASC, c.id ASC
+        LIMIT ? OFFSET ?
+        "#,
+    )
+    .bind(status)
+    .bind(per_page)
+    .bind(offset)
+    .fetch_all(&state.db)
+    .await?;
+
+    let (total,): (i64,) = sqlx::query_as("SELECT COUNT(*) FROM comments WHERE status = ?")
+        .bind(status)
+        .fetch_one(&state.db)
+        .await?;
+
+    Ok(Json(PaginatedResponse {
+        data: comments,
+        page,
+        per_page,
+        total,
+    }))
+}
+
+/// Approves, marks as spam or deletes several comments at once. Deleting a
+/// comment deletes the replies to it as well.
+pub async fn moderate_comments(
+    State(state): State<AppState>,
+    AuthUser(user): AuthUser,
+    Json(payload): Json<ModerateComments>,
+) -> Result<Json<ModerateCommentsResult>, AppError> {
+    require(&user, Role::can_moderate_comments, FORBIDDEN)?;
+    if payload.ids.is_empty() {
+        return Err(AppError::ValidationError(
+            "Select at least one comment".to_string(),
+        ));
+    }
+    if payload.ids.len() > MAX_BULK {
+        return Err(AppError::ValidationError(format!(
+            "At most {MAX_BULK} comments can be moderated at once"
+        )));
+    }
+
+    let mut query = QueryBuilder::<Sqlite>::new(match payload.action {
+        CommentAction::Approve => "UPDATE comments SET status = 'approved'",
+        CommentAction::Spam => "UPDATE comments SET status = 'spam'",
+        CommentAction::Delete => "DELETE FROM comments",
+    });
+    query.push(" WHERE id IN (");
+    let mut ids = query.separated(", ");
+    for id in &payload.ids {
+        ids.push_bind(*id);
+    }
+    query.push(")");
+
+    let result = query.build().execute(&state.db).await?;
+    Ok(Json(ModerateCommentsResult {
+        affected: result.rows_affected(),
+    }))
+}
@@ -1,5 +1,5 @@
 use axum::{
-    http::StatusCode,
+    http::{header, StatusCode},
     response::{IntoResponse, Response},
     Json,
 };
@@ -17,12 +17,52 @@ pub enum AppError {
     #[error("Validation error: {0}")]
     ValidationError(String),
 
+    /// Missing, expired or invalid credentials.
+    #[error("Unauthorized: {0}")]
+    Unauthorized(String),
+
+    /// Signed in, but the user's role does not allow this.
+    #[error("Forbidden: {0}")]
+    Forbidden(String),
+
+    /// A write was based on an out-of-date version. Carries the current
+    /// state of the resource so the client can show what changed.
+    #[error("Conflict")]
+    Conflict(serde_json::Value),
+
+    /// A client sent more requests than a rate limit allows. Carries how
+    /// many seconds until it may try again.
+    #[error("Too many requests")]
+    TooManyRequests(u64),
+
     #[error("Internal server error")]
     InternalError,
 }
 
 impl IntoResponse for AppError {
     fn into_response(self) -> Response {
+        if let AppError::Conflict(current) = self {
+            let body = Json(json!({
+                "error": "This post was changed by someone else since you loaded it",
+                "status": StatusCode::CONFLICT.as_u16(),
+                "current": current,
+            }));
+            return (StatusCode::CONFLICT, body).into_response();
+        }
+
+        if let AppError::TooManyRequests(retry_after) = self {
+            let body = Json(json!({
+                "error": "Too many requests, please wait a few minutes and try again",
+                "status": StatusCode::TOO_MANY_REQUESTS.as_u16(),
+            }));
+            return (
+                StatusCode::TOO_MANY_REQUESTS,
+                [(header::RETRY_AFTER, retry_after.to_string())],
+                body,
+            )
+                .into_response();
+        }
+
         let (status, error_message) = match self {
             AppError::NotFound => (
                 StatusCode::NOT_FOUND,
@@ -36,7 +76,15 @@ impl IntoResponse for AppError {
                 StatusCode::BAD_REQUEST,
                 msg
             ),
-            AppError::InternalError => (
+            AppError::Unauthorized(msg) => (
+                StatusCode::UNAUTHORIZED,
+                msg
+            ),
+            AppError::Forbidden(msg) => (
+                StatusCode::FORBIDDEN,
+                msg
+            ),
+            AppError::InternalError | AppError::Conflict(_) | AppError::TooManyRequests(_) => (
                 StatusCode::INTERNAL_SERVER_ERROR,
                 "Internal server error".to_string()
             ),
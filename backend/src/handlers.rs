@@ -1,42 +1,276 @@
 use axum::{
     extract::{Path, Query, State},
-    http::StatusCode,
+    http::{header, HeaderMap, StatusCode},
+    response::IntoResponse,
     Json,
 };
-use sqlx::SqlitePool;
+use sqlx::{sqlite::SqliteExecutor, QueryBuilder, Sqlite};
 use std::sync::Arc;
 
+use crate::auth::{require, AuthUser};
 use crate::error::AppError;
-use crate::models::{Post, CreatePost, UpdatePost};
-use crate::schema::{PaginationParams, PaginatedResponse};
+use crate::models::{
+    CreatePost, Post, PostRevision, PostRevisionSummary, Role, SearchHit, UpdatePost, User,
+};
+use crate::schema::{
+    PaginationParams, PaginatedResponse, PostFilters, SearchParams, HIGHLIGHT_END,
+    HIGHLIGHT_START,
+};
+use crate::slugs::{ensure_available, record_slug_change, unique_slug};
+use crate::taxonomy::{category_id, set_post_tags};
+use crate::workflow::{check_schedule, ensure_can_set_status};
 
 type AppState = Arc<crate::AppState>;
 
+/// Selects a `Post` from `posts`; the category and tags come along as JSON.
+pub const POST_COLUMNS: &str = r#"
+    id, title, slug, content, author, status, version, owner_id, publish_at,
+    cover_image, excerpt,
+    (SELECT json_object('name', c.name, 'slug', c.slug)
+     FROM categories c WHERE c.id = posts.category_id) AS category,
+    (SELECT json_group_array(json_object('name', t.name, 'slug', t.slug))
+     FROM (SELECT t.name, t.slug FROM post_tags pt JOIN tags t ON t.id = pt.tag_id
+           WHERE pt.post_id = posts.id ORDER BY t.name COLLATE NOCASE) t) AS tags,
+    created_at, updated_at
+"#;
+
+pub async fn fetch_post<'e>(db: impl SqliteExecutor<'e>, id: i64) -> Result<Post, AppError> {
+    sqlx::query_as::<_, Post>(&format!("SELECT {POST_COLUMNS} FROM posts WHERE id = ?"))
+        .bind(id)
+        .fetch_one(db)
+        .await
+        .map_err(|e| match e {
+            sqlx::Error::RowNotFound => AppError::NotFound,
+            _ => AppError::DatabaseError(e),
+        })
+}
+
+/// Authors may change their own posts, editors and admins any post.
+pub fn ensure_can_modify(user: &User, post: &Post) -> Result<(), AppError> {
+    let owns = user.role.can_write() && post.owner_id == Some(user.id);
+    if owns || user.role.can_edit_any_post() {
+        Ok(())
+    } else {
+        Err(AppError::Forbidden(
+            "You can only change your own posts".to_string(),
+        ))
+    }
+}
+
+/// Which posts a visitor sees: published posts for everyone, plus their own
+/// for authors and every post for editors and admins.
+pub struct Visibility {
+    all: bool,
+    owner_id: Option<i64>,
+}
+
+impl Visibility {
+    pub fn of(user: Option<&User>) -> Self {
+        Self {
+            all: user.is_some_and(|user| user.role.can_edit_any_post()),
+            owner_id: user
+                .filter(|user| user.role.can_write())
+                .map(|user| user.id),
+        }
+    }
+
+    fn allows(&self, post: &Post) -> bool {
+        post.status == "published"
+            || self.all
+            || (post.owner_id.is_some() && post.owner_id == self.owner_id)
+    }
+}
+
+/// Loads a post the visitor may see. Hidden posts answer 404 rather than 403
+/// so drafts do not reveal that they exist.
+pub async fn fetch_visible_post(
+    db: &sqlx::SqlitePool,
+    user: Option<&User>,
+    id: i64,
+) -> Result<Post, AppError> {
+    let post = fetch_post(db, id).await?;
+    if Visibility::of(user).allows(&post) {
+        Ok(post)
+    } else {
+        Err(AppError::NotFound)
+    }
+}
+
+/// Reads the version out of an `If-Match` header. `None` means the client did
+/// not ask for a precondition (header missing or `*`).
+fn if_match_version(headers: &HeaderMap) -> Result<Option<i64>, AppError> {
+    let Some(value) = headers.get(header::IF_MATCH) else {
+        return Ok(None);
+    };
+    let value = value.to_str().unwrap_or_default().trim();
+    if value == "*" {
+        return Ok(None);
+    }
+    value
+        .trim_start_matches("W/")
+        .trim_matches('"')
+        .parse::<i64>()
+        .map(Some)
+        .map_err(|_| AppError::ValidationError("If-Match must be a post ETag".to_string()))
+}
+
+/// Appends the WHERE clause shared by the list query, its COUNT and the
+/// facet counts. Columns are left unqualified, so joined tables must not
+/// share the names it filters on.
+pub fn push_post_filters<'a>(
+    query: &mut QueryBuilder<'a, Sqlite>,
+    filters: &'a PostFilters,
+    visibility: &Visibility,
+) {
+    query
+        .push(" WHERE (status = 'published' OR ")
+        .push_bind(visibility.all)
+        .push(" OR owner_id = ")
+        .push_bind(visibility.owner_id)
+        .push(")");
+    if let Some(status) = filters.status.as_deref().filter(|s| !s.is_empty()) {
+        query.push(" AND status = ").push_bind(status);
+    }
+    if let Some(author) = filters.author.as_deref().map(str::trim).filter(|a| !a.is_empty()) {
+        query.push(" AND author = ").push_bind(author).push(" COLLATE NOCASE");
+    }
+    if let Some(category) = filters.category.as_deref().filter(|c| !c.is_empty()) {
+        query
+            .push(" AND category_id = (SELECT id FROM categories WHERE slug = ")
+            .push_bind(category)
+            .push(")");
+    }
+    if let Some(tag) = filters.tag.as_deref().filter(|t| !t.is_empty()) {
+        query
+            .push(
+                " AND EXISTS (SELECT 1 FROM post_tags fpt JOIN tags ft ON ft.id = fpt.tag_id \
+                 WHERE fpt.post_id = posts.id AND ft.slug = ",
+            )
+            .push_bind(tag)
+            .push(")");
+    }
+}
+
 pub async fn list_posts(
     State(state): State<AppState>,
+    user: Option<AuthUser>,
     Query(params): Query<PaginationParams>,
+    Query(filters): Query<PostFilters>,
 ) -> Result<Json<PaginatedResponse<Post>>, AppError> {
     let page = params.page.max(1);
     let per_page = params.per_page.clamp(1, 100);
     let offset = (page - 1) * per_page;
+    let visibility = Visibility::of(user.as_ref().map(|AuthUser(user)| user));
+
+    let mut query = QueryBuilder::<Sqlite>::new(format!("SELECT {POST_COLUMNS} FROM posts"));
+    push_post_filters(&mut query, &filters, &visibility);
+    query
+        .push(" ORDER BY ")
+        .push(filters.sort.order_by())
+        .push(" LIMIT ")
+        .push_bind(per_page)
+        .push(" OFFSET ")
+        .push_bind(offset);
+
+    let posts = query
+        .build_query_as::<Post>()
+        .fetch_all(&state.db)
+        .await?;
 
-    let posts = sqlx::query_as::<_, Post>(
-        "SELECT id, title, content, author, status, created_at, updated_at 
-         FROM posts 
-         ORDER BY created_at DESC 
-         LIMIT ? OFFSET ?"
+    let mut count = QueryBuilder::<Sqlite>::new("SELECT COUNT(*) FROM posts");
+    push_post_filters(&mut count, &filters, &visibility);
+    let (total,): (i64,) = count
+        .build_query_as()
+        .fetch_one(&state.db)
+        .await?;
+
+    Ok(Json(PaginatedResponse {
+        data: posts,
+        page,
+        per_page,
+        total,
+    }))
+}
+
+/// Turns free text into an FTS5 query: every word must match, the last one
+/// as a prefix so results show up while the user is still typing. Words are
+/// quoted so FTS5 operators in user input are treated as plain text.
+fn to_fts_query(input: &str) -> Option<String> {
+    let terms: Vec<String> = input
+        .split(|c: char| !c.is_alphanumeric())
+        .filter(|term| !term.is_empty())
+        .map(|term| format!("\"{}\"", term))
+        .collect();
+
+    if terms.is_empty() {
+        return None;
+    }
+    Some(format!("{}*", terms.join(" ")))
+}
+
+pub async fn search_posts(
+    State(state): State<AppState>,
+    user: Option<AuthUser>,
+    Query(params): Query<PaginationParams>,
+    Query(search): Query<SearchParams>,
+) -> Result<Json<PaginatedResponse<SearchHit>>, AppError> {
+    let page = params.page.max(1);
+    let per_page = params.per_page.clamp(1, 100);
+    let offset = (page - 1) * per_page;
+    let visibility = Visibility::of(user.as_ref().map(|AuthUser(user)| user));
+
+    let Some(fts_query) = to_fts_query(&search.q) else {
+        return Ok(Json(PaginatedResponse {
+            data: Vec::new(),
+            page,
+            per_page,
+            total: 0,
+        }));
+    };
+
+    // bm25 weights: a hit in the title counts ten times a hit in the body,
+    // the author name in between.
+    let hits = sqlx::query_as::<_, SearchHit>(
+        r#"
+        SELECT p.id, p.title, p.slug, p.author, p.status, p.created_at, p.updated_at,
+               highlight(posts_fts, 0, ?1, ?2) AS title_highlight,
+               snippet(posts_fts, 1, ?1, ?2, '…', 24) AS snippet,
+               bm25(posts_fts, 10.0, 1.0, 5.0) AS score
+        FROM posts_fts
+        JOIN posts p ON p.id = posts_fts.rowid
+        WHERE posts_fts MATCH ?3
+          AND (p.status = 'published' OR ?6 OR p.owner_id = ?7)
+        ORDER BY score
+        LIMIT ?4 OFFSET ?5
+        "#
     )
+    .bind(HIGHLIGHT_START)
+    .bind(HIGHLIGHT_END)
+    .bind(&fts_query)
     .bind(per_page)
     .bind(offset)
+    .bind(visibility.all)
+    .bind(visibility.owner_id)
     .fetch_all(&state.db)
     .await?;
 
-    let (total,): (i64,) = sqlx::query_as("SELECT COUNT(*) FROM posts")
-        .fetch_one(&state.db)
-        .await?;
+    let (total,): (i64,) = sqlx::query_as(
+        r#"
+        SELECT COUNT(*)
+        FROM posts_fts
+        JOIN posts p ON p.id = posts_fts.rowid
+        WHERE posts_fts MATCH ?1
+          AND (p.status = 'published' OR ?2 OR p.owner_id = ?3)
+        "#,
+    )
+    .bind(&fts_query)
+    .bind(visibility.all)
+    .bind(visibility.owner_id)
+    .fetch_one(&state.db)
+    .await?;
 
     Ok(Json(PaginatedResponse {
-        data: posts,
+        data: hits,
         page,
         per_page,
         total,
@@ -45,107 +279,343 @@ pub async fn list_posts(
 
 pub async fn get_post(
     State(state): State<AppState>,
+    user: Option<AuthUser>,
     Path(id): Path<i64>,
-) -> Result<Json<Post>, AppError> {
-    let post = sqlx::query_as::<_, Post>(
-        "SELECT id, title, content, author, status, created_at, updated_at 
-         FROM posts 
-         WHERE id = ?"
-    )
-    .bind(id)
-    .fetch_one(&state.db)
-    .await
-    .map_err(|e| match e {
-        sqlx::Error::RowNotFound => AppError::NotFound,
-        _ => AppError::DatabaseError(e),
-    })?;
+) -> Result<impl IntoResponse, AppError> {
+    let post = fetch_visible_post(&state.db, user.as_ref().map(|AuthUser(user)| user), id).await?;
 
-    Ok(Json(post))
+    Ok(([(header::ETAG, post.etag())], Json(post)))
 }
 
+/// Creates a post owned by the signed-in user, credited to their display name.
 pub async fn create_post(
     State(state): State<AppState>,
+    AuthUser(user): AuthUser,
     Json(payload): Json<CreatePost>,
 ) -> Result<(StatusCode, Json<Post>), AppError> {
-    if payload.title.len() < 3 {
-        return Err(AppError::ValidationError(
-            "Title must be at least 3 characters".to_string()
-        ));
+    require(&user, Role::can_write, "Your role cannot write posts")?;
+    let payload = CreatePost {
+        author: user.display_name.clone(),
+        ..payload
     }
+    .validate()?;
+    ensure_can_set_status(&user, None, &payload.status)?;
+    check_schedule(&payload.status, payload.publish_at)?;
+    // Publishing right away dates the post now.
+    let publish_at = if payload.status == "published" {
+        Some(chrono::Utc::now())
+    } else {
+        payload.publish_at
+    };
 
-    if payload.content.is_empty() {
-        return Err(AppError::ValidationError(
-            "Content cannot be empty".to_string()
-        ));
-    }
+    let mut tx = state.db.begin().await?;
+    let slug = match payload.slug {
+        Some(slug) => {
+            ensure_available(&mut *tx, &slug, None).await?;
+            slug
+        }
+        None => unique_slug(&mut *tx, &payload.title, None).await?,
+    };
 
-    if payload.author.is_empty() {
-        return Err(AppError::ValidationError(
-            "Author cannot be empty".to_string()
-        ));
-    }
+    let category = category_id(&mut *tx, payload.category.as_deref()).await?;
 
-    let post = sqlx::query_as::<_, Post>(
+    let (id,): (i64,) = sqlx::query_as(
         r#"
-        INSERT INTO posts (title, content, author, status)
-        VALUES (?, ?, ?, ?)
-        RETURNING id, title, content, author, status, created_at, updated_at
-        "#
+        INSERT INTO posts
+            (title, slug, content, author, status, publish_at, owner_id, category_id,
+             cover_image, excerpt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING id
+        "#,
     )
     .bind(&payload.title)
+    .bind(&slug)
     .bind(&payload.content)
     .bind(&payload.author)
     .bind(&payload.status)
-    .fetch_one(&state.db)
+    .bind(publish_at)
+    .bind(user.id)
+    .bind(category)
+    .bind(&payload.cover_image)
+    .bind(&payload.excerpt)
+    .fetch_one(&mut *tx)
     .await?;
+    set_post_tags(&mut *tx, id, &payload.tags).await?;
+    let post = fetch_post(&mut *tx, id).await?;
+
+    record_revision(&mut *tx, &post, &REVISION_FIELDS, &user.display_name, None).await?;
+    tx.commit().await?;
 
     Ok((StatusCode::CREATED, Json(post)))
 }
 
-pub async fn update_post(
-    State(state): State<AppState>,
-    Path(id): Path<i64>,
-    Json(payload): Json<UpdatePost>,
-) -> Result<Json<Post>, AppError> {
-    if let Some(ref title) = payload.title {
-        if title.len() < 3 {
-            return Err(AppError::ValidationError(
-                "Title must be at least 3 characters".to_string()
-            ));
+const REVISION_FIELDS: [&str; 4] = ["title", "content", "author", "status"];
+
+/// Names of the fields that differ between two states of a post.
+fn changed_fields(before: &Post, after: &Post) -> Vec<&'static str> {
+    REVISION_FIELDS
+        .into_iter()
+        .filter(|field| match *field {
+            "title" => before.title != after.title,
+            "content" => before.content != after.content,
+            "author" => before.author != after.author,
+            _ => before.status != after.status,
+        })
+        .collect()
+}
+
+/// Stores `post` as it is now in its history, credited to `edited_by`.
+pub async fn record_revision<'e>(
+    db: impl SqliteExecutor<'e>,
+    post: &Post,
+    changed_fields: &[&str],
+    edited_by: &str,
+    restored_from: Option<i64>,
+) -> Result<(), AppError> {
+    sqlx::query(
+        r#"
+        INSERT INTO post_revisions
+            (post_id, version, title, content, author, status, changed_fields, edited_by, restored_from)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        "#,
+    )
+    .bind(post.id)
+    .bind(post.version)
+    .bind(&post.title)
+    .bind(&post.content)
+    .bind(&post.author)
+    .bind(&post.status)
+    .bind(sqlx::types::Json(changed_fields))
+    .bind(edited_by)
+    .bind(restored_from)
+    .execute(db)
+    .await?;
+    Ok(())
+}
+
+/// Writes `payload` over the post on behalf of `user` and records the result
+/// as a new revision. With `expected_version` set, the write only goes through
+/// if the post is still at that version; otherwise it fails with a 409
+/// carrying the current post.
+async fn apply_update(
+    state: &AppState,
+    user: &User,
+    id: i64,
+    expected_version: Option<i64>,
+    payload: UpdatePost,
+    restored_from: Option<i64>,
+) -> Result<Post, AppError> {
+    let mut tx = state.db.begin().await?;
+    let before = fetch_post(&mut *tx, id).await?;
+    ensure_can_modify(user, &before)?;
+    let status = payload.status.as_deref().unwrap_or(&before.status);
+    ensure_can_set_status(user, Some(&before.status), status)?;
+    if expected_version.is_some_and(|version| version != before.version) {
+        return Err(conflict(before));
+    }
+
+    let publish_at = if status == "published" && before.status != "published" {
+        // Publishing right away dates the post now.
+        Some(chrono::Utc::now())
+    } else {
+        if status != before.status || payload.publish_at.is_some() {
+            check_schedule(status, payload.publish_at.or(before.publish_at))?;
+        }
+        payload.publish_at
+    };
+
+    let title = payload.title.as_deref().unwrap_or(&before.title);
+    let slug = match payload.slug.as_deref() {
+        Some("") => Some(unique_slug(&mut *tx, title, Some(id)).await?),
+        Some(slug) => {
+            ensure_available(&mut *tx, slug, Some(id)).await?;
+            Some(slug.to_string())
         }
+        None if title != before.title => Some(unique_slug(&mut *tx, title, Some(id)).await?),
+        None => None,
+    };
+    // Unlike the other fields, the category can be cleared, so whether it was
+    // given at all is bound separately from the new value.
+    let category = match payload.category.as_deref() {
+        Some(name) => Some(category_id(&mut *tx, Some(name)).await?),
+        None => None,
+    };
+    if let Some(tags) = &payload.tags {
+        set_post_tags(&mut *tx, id, tags).await?;
     }
 
-    let post = sqlx::query_as::<_, Post>(
+    let post = sqlx::query_as::<_, Post>(&format!(
         r#"
         UPDATE posts 
         SET title = COALESCE(?, title),
+            slug = COALESCE(?, slug),
             content = COALESCE(?, content),
             author = COALESCE(?, author),
             status = COALESCE(?, status),
+            publish_at = COALESCE(?, publish_at),
+            category_id = CASE WHEN ? THEN ? ELSE category_id END,
+            cover_image = CASE WHEN ? THEN NULLIF(?, '') ELSE cover_image END,
+            excerpt = CASE WHEN ? THEN NULLIF(?, '') ELSE excerpt END,
+            version = version + 1,
             updated_at = CURRENT_TIMESTAMP
-        WHERE id = ?
-        RETURNING id, title, content, author, status, created_at, updated_at
+        WHERE id = ? AND version = ?
+        RETURNING {POST_COLUMNS}
         "#
-    )
-    .bind(payload.title)
+    ))
+    .bind(&payload.title)
+    .bind(slug)
     .bind(payload.content)
     .bind(payload.author)
     .bind(payload.status)
+    .bind(publish_at)
+    .bind(category.is_some())
+    .bind(category.flatten())
+    .bind(payload.cover_image.is_some())
+    .bind(payload.cover_image)
+    .bind(payload.excerpt.is_some())
+    .bind(payload.excerpt)
     .bind(id)
-    .fetch_one(&state.db)
-    .await
-    .map_err(|e| match e {
-        sqlx::Error::RowNotFound => AppError::NotFound,
-        _ => AppError::DatabaseError(e),
-    })?;
+    .bind(before.version)
+    .fetch_optional(&mut *tx)
+    .await?;
+
+    // Another write got in between our read and the update.
+    let Some(post) = post else {
+        drop(tx);
+        return Err(conflict(fetch_post(&state.db, id).await?));
+    };
+    if post.slug != before.slug {
+        record_slug_change(&mut *tx, id, &before.slug, &post.slug).await?;
+    }
+
+    record_revision(
+        &mut *tx,
+        &post,
+        &changed_fields(&before, &post),
+        &user.display_name,
+        restored_from,
+    )
+    .await?;
+    tx.commit().await?;
+    Ok(post)
+}
+
+fn conflict(current: Post) -> AppError {
+    match serde_json::to_value(current) {
+        Ok(current) => AppError::Conflict(current),
+        Err(_) => AppError::InternalError,
+    }
+}
+
+/// Applies a partial update. When the request carries `If-Match`, the write
+/// only goes through if the post is still at that version; otherwise the
+/// response is 409 with the current post in the body. The author always stays
+/// the owner's name, so an `author` in the payload is ignored.
+pub async fn update_post(
+    State(state): State<AppState>,
+    AuthUser(user): AuthUser,
+    Path(id): Path<i64>,
+    headers: HeaderMap,
+    Json(payload): Json<UpdatePost>,
+) -> Result<impl IntoResponse, AppError> {
+    let payload = UpdatePost {
+        author: None,
+        ..payload.validate()?
+    };
+    let expected_version = if_match_version(&headers)?;
+
+    let post = apply_update(&state, &user, id, expected_version, payload, None).await?;
 
-    Ok(Json(post))
+    Ok(([(header::ETAG, post.etag())], Json(post)))
+}
+
+pub async fn list_revisions(
+    State(state): State<AppState>,
+    user: Option<AuthUser>,
+    Path(id): Path<i64>,
+) -> Result<Json<Vec<PostRevisionSummary>>, AppError> {
+    fetch_visible_post(&state.db, user.as_ref().map(|AuthUser(user)| user), id).await?;
+
+    let revisions = sqlx::query_as::<_, PostRevisionSummary>(
+        r#"
+        SELECT id, version, title, status, changed_fields, edited_by, restored_from, created_at
+        FROM post_revisions
+        WHERE post_id = ?
+        ORDER BY version DESC
+        "#,
+    )
+    .bind(id)
+    .fetch_all(&state.db)
+    .await?;
+
+    Ok(Json(revisions))
+}
+
+async fn fetch_revision(
+    db: &sqlx::SqlitePool,
+    id: i64,
+    version: i64,
+) -> Result<PostRevision, AppError> {
+    sqlx::query_as::<_, PostRevision>(
+        r#"
+        SELECT id, post_id, version, title, content, author, status,
+               changed_fields, edited_by, restored_from, created_at
+        FROM post_revisions
+        WHERE post_id = ? AND version = ?
+        "#,
+    )
+    .bind(id)
+    .bind(version)
+    .fetch_optional(db)
+    .await?
+    .ok_or(AppError::NotFound)
+}
+
+pub async fn get_revision(
+    State(state): State<AppState>,
+    user: Option<AuthUser>,
+    Path((id, version)): Path<(i64, i64)>,
+) -> Result<Json<PostRevision>, AppError> {
+    fetch_visible_post(&state.db, user.as_ref().map(|AuthUser(user)| user), id).await?;
+    Ok(Json(fetch_revision(&state.db, id, version).await?))
+}
+
+/// Saves an old revision's fields as a new update. Honours `If-Match` the same
+/// way `update_post` does, so a restore cannot silently undo a newer edit.
+pub async fn restore_revision(
+    State(state): State<AppState>,
+    AuthUser(user): AuthUser,
+    Path((id, version)): Path<(i64, i64)>,
+    headers: HeaderMap,
+) -> Result<impl IntoResponse, AppError> {
+    let expected_version = if_match_version(&headers)?;
+    let revision = fetch_revision(&state.db, id, version).await?;
+
+    let payload = UpdatePost {
+        title: Some(revision.title),
+        slug: None,
+        category: None,
+        tags: None,
+        cover_image: None,
+        excerpt: None,
+        content: Some(revision.content),
+        author: None,
+        status: Some(revision.status),
+        publish_at: None,
+    };
+    let post = apply_update(&state, &user, id, expected_version, payload, Some(version)).await?;
+
+    Ok(([(header::ETAG, post.etag())], Json(post)))
 }
 
 pub async fn delete_post(
     State(state): State<AppState>,
+    AuthUser(user): AuthUser,
     Path(id): Path<i64>,
 ) -> Result<StatusCode, AppError> {
+    let post = fetch_post(&state.db, id).await?;
+    ensure_can_modify(&user, &post)?;
+
     let result = sqlx::query("DELETE FROM posts WHERE id = ?")
         .bind(id)
         .execute(&state.db)
@@ -157,3 +627,32 @@ pub async fn delete_post(
 
     Ok(StatusCode::NO_CONTENT)
 }
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn fts_query_quotes_words_and_prefixes_the_last() {
+        assert_eq!(to_fts_query("rust web").as_deref(), Some(r#""rust" "web"*"#));
+    }
+
+    #[test]
+    fn fts_query_treats_operators_as_text() {
+        assert_eq!(
+            to_fts_query(r#"title:"x" OR NOT y*"#).as_deref(),
+            Some(r#""title" "x" "OR" "NOT" "y"*"#)
+        );
+    }
+
+    #[test]
+    fn fts_query_keeps_non_ascii_words() {
+        assert_eq!(to_fts_query("café").as_deref(), Some(r#""café"*"#));
+    }
+
+    #[test]
+    fn fts_query_of_nothing_searchable_is_none() {
+        assert_eq!(to_fts_query(""), None);
+        assert_eq!(to_fts_query("  -- !? "), None);
+    }
+}
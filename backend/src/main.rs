@@ -1,18 +1,52 @@
 use axum::{
-    extract::{Path, State},
-    http::{HeaderValue, Method, StatusCode, header},
-    routing::{get, post},
-    Json, Router,
+    body::Body,
+    extract::DefaultBodyLimit,
+    http::{HeaderName, HeaderValue, Method, Request, StatusCode, header},
+    middleware,
+    routing::{delete, get, post, put},
+    Router,
 };
-use serde::{Deserialize, Serialize};
 use sqlx::sqlite::{SqlitePool, SqlitePoolOptions};
+use std::net::SocketAddr;
+use std::path::PathBuf;
+use std::sync::Arc;
 use std::time::Duration;
-use tower_http::cors::{Any, CorsLayer};
-use tower_http::trace::TraceLayer;
+use tower_http::cors::CorsLayer;
+use tower_http::request_id::{MakeRequestUuid, PropagateRequestIdLayer, SetRequestIdLayer};
+use tower_http::services::ServeDir;
+use tower_http::trace::{DefaultOnResponse, TraceLayer};
+use tower_http::LatencyUnit;
+use tracing::{Level, Span};
+
+mod admin;
+mod auth;
+mod comments;
+mod error;
+mod handlers;
+mod media;
+mod models;
+mod rate_limit;
+mod schema;
+mod sitemap;
+mod slugs;
+mod taxonomy;
+mod validation;
+mod workflow;
+
+/// Correlates a request with the frontend page render that made it.
+const REQUEST_ID_HEADER: HeaderName = HeaderName::from_static("x-request-id");
 
 #[derive(Clone)]
 struct AppState {
     db: SqlitePool,
+    /// Signs and verifies the bearer tokens issued by `auth`.
+    jwt_secret: String,
+    /// Per-IP limit on posting comments.
+    comment_limiter: rate_limit::RateLimiter,
+    /// Frontend servers whose word is taken for which visitor they call for.
+    trusted_proxies: Vec<std::net::IpAddr>,
+    /// Where uploaded files and their thumbnails are stored.
+    upload_dir: PathBuf,
 }
 
 #[tokio::main]
@@ -92,7 +126,41 @@ async fn main() -> Result<(), Box<dyn std::error::Error>> {
 
     tracing::info!("Migrations applied successfully");
 
-    let state = AppState { db };
+    let jwt_secret = std::env::var("JWT_SECRET").unwrap_or_else(|_| {
+        tracing::warn!("JWT_SECRET is not set; using an insecure development secret");
+        "dev-only-insecure-jwt-secret".to_string()
+    });
+
+    let upload_dir = PathBuf::from(
+        std::env::var("UPLOAD_DIR").unwrap_or_else(|_| "/app/data/uploads".to_string()),
+    );
+    std::fs::create_dir_all(&upload_dir).map_err(|e| {
+        tracing::error!("Failed to create upload directory {}: {}", upload_dir.display(), e);
+        e
+    })?;
+
+    let trusted_proxies = rate_limit::trusted_proxies(
+        std::env::var("TRUSTED_PROXIES").ok().as_deref(),
+    )
+    .map_err(|e| {
+        tracing::error!("Invalid TRUSTED_PROXIES: {}", e);
+        e
+    })?;
+
+    let state = Arc::new(AppState {
+        db,
+        jwt_secret,
+        comment_limiter: rate_limit::RateLimiter::new(comments::RATE_LIMIT, comments::RATE_WINDOW),
+        trusted_proxies,
+        upload_dir: upload_dir.clone(),
+    });
+
+    slugs::backfill_slugs(&state.db).await.map_err(|e| {
+        tracing::error!("Failed to generate post slugs: {}", e);
+        e
+    })?;
+
+    workflow::spawn_scheduler(state.clone());
 
     // CORS configuration - adjust origins for your needs
     let cors = CorsLayer::new()
@@ -104,16 +172,85 @@ async fn main() -> Result<(), Box<dyn std::error::Error>> {
         .allow_headers([
             header::CONTENT_TYPE,
             header::AUTHORIZATION,
-            ]);
+            header::IF_MATCH,
+            REQUEST_ID_HEADER,
+            ])
+        .expose_headers([header::ETAG, REQUEST_ID_HEADER]);
 
     // Build router
     let app = Router::new()
         .route("/", get(root))
         .route("/health", get(health_check))
-        .route("/api/posts", get(list_posts).post(create_post))
-        .route("/api/posts/:id", get(get_post))
+        .route(
+            "/api/posts",
+            get(handlers::list_posts).post(handlers::create_post),
+        )
+        .route("/api/auth/register", post(auth::register))
+        .route("/api/auth/login", post(auth::login))
+        .route("/api/auth/me", get(auth::me))
+        .route("/api/admin/users", get(admin::list_users))
+        .route("/api/admin/users/:id/role", put(admin::update_user_role))
+        .route(
+            "/api/media",
+            get(media::list_media)
+                .post(media::upload_media)
+                // Room for the multipart framing around the largest file.
+                .layer(DefaultBodyLimit::max(media::MAX_UPLOAD_BYTES + 64 * 1024)),
+        )
+        .route("/api/media/:id", delete(media::delete_media))
+        .route("/api/categories", get(taxonomy::list_categories))
+        .route("/api/categories/:slug", get(taxonomy::get_category))
+        .route("/api/tags", get(taxonomy::list_tags))
+        .route("/api/tags/:slug", get(taxonomy::get_tag))
+        .route("/api/posts/facets", get(taxonomy::post_facets))
+        .route("/api/sitemap", get(sitemap::sitemap_entries))
+        .route("/api/posts/search", get(handlers::search_posts))
+        .route("/api/posts/slug/:slug", get(slugs::get_post_by_slug))
+        .route(
+            "/api/posts/:id",
+            get(handlers::get_post)
+                .put(handlers::update_post)
+                .delete(handlers::delete_post),
+        )
+        .route(
+            "/api/posts/:id/reviews",
+            get(workflow::list_review_comments).post(workflow::create_review_comment),
+        )
+        .route(
+            "/api/posts/:id/comments",
+            get(comments::list_comments).merge(
+                post(comments::create_comment).route_layer(middleware::from_fn_with_state(
+                    state.clone(),
+                    comments::limit_by_ip,
+                )),
+            ),
+        )
+        .route("/api/admin/comments", get(comments::list_moderation_queue))
+        .route("/api/admin/comments/moderate", post(comments::moderate_comments))
+        .route("/api/posts/:id/revisions", get(handlers::list_revisions))
+        .route(
+            "/api/posts/:id/revisions/:version",
+            get(handlers::get_revision),
+        )
+        .route(
+            "/api/posts/:id/revisions/:version/restore",
+            post(handlers::restore_revision),
+        )
+        .nest_service("/uploads", ServeDir::new(upload_dir))
         .layer(cors)
-        .layer(TraceLayer::new_for_http())
+        // Outermost last: give the request an ID unless the frontend sent
+        // one, log it under that ID, and echo the ID in the response.
+        .layer(PropagateRequestIdLayer::new(REQUEST_ID_HEADER))
+        .layer(
+            TraceLayer::new_for_http()
+                .make_span_with(request_span)
+                .on_response(
+                    DefaultOnResponse::new()
+                        .level(Level::INFO)
+                        .latency_unit(LatencyUnit::Millis),
+                ),
+        )
+        .layer(SetRequestIdLayer::new(REQUEST_ID_HEADER, MakeRequestUuid))
         .with_state(state);
 
     // CRITICAL: Bind to 0.0.0.0, not 127.0.0.1 for Docker!
@@ -130,11 +267,32 @@ async fn main() -> Result<(), Box<dyn std::error::Error>> {
             e
         })?;
 
-    axum::serve(listener, app).await?;
+    // Peer addresses feed the comment rate limit.
+    axum::serve(
+        listener,
+        app.into_make_service_with_connect_info::<SocketAddr>(),
+    )
+    .await?;
 
     Ok(())
 }
 
+/// Every log line of a request carries its ID and route, so a slow page's
+/// API calls can be found from the ID in the frontend's logs.
+fn request_span(request: &Request<Body>) -> Span {
+    let request_id = request
+        .headers()
+        .get(&REQUEST_ID_HEADER)
+        .and_then(|value| value.to_str().ok())
+        .unwrap_or("-");
+    tracing::info_span!(
+        "request",
+        request_id,
+        method = %request.method(),
+        uri = %request.uri(),
+    )
+}
+
 async fn root() -> &'static str {
     "Blog API Server"
 }
@@ -142,87 +300,3 @@ async fn root() -> &'static str {
 async fn health_check() -> StatusCode {
     StatusCode::OK
 }
-
-#[derive(Debug, Serialize, Deserialize, sqlx::FromRow)]
-struct Post {
-    id: i64,
-    title: String,
-    content: String,
-    author: String,
-    created_at: String,
-}
-
-#[derive(Debug, Deserialize)]
-struct CreatePost {
-    title: String,
-    content: String,
-    author: String,
-}
-
-async fn list_posts(
-    State(state): State<AppState>,
-) -> Result<Json<Vec<Post>>, (StatusCode, String)> {
-    let posts = sqlx::query_as::<_, Post>(
-        "SELECT id, title, content, author, created_at FROM posts ORDER BY created_at DESC"
-    )
-    .fetch_all(&state.db)
-    .await
-    .map_err(|e| {
-        tracing::error!("Database error: {}", e);
-        (StatusCode::INTERNAL_SERVER_ERROR, e.to_string())
-    })?;
-
-    Ok(Json(posts))
-}
-
-async fn create_post(
-    State(state): State<AppState>,
-    Json(payload): Json<CreatePost>,
-) -> Result<(StatusCode, Json<Post>), (StatusCode, String)> {
-    let result = sqlx::query(
-        "INSERT INTO posts (title, content, author) VALUES (?1, ?2, ?3)"
-    )
-    .bind(&payload.title)
-    .bind(&payload.content)
-    .bind(&payload.author)
-    .execute(&state.db)
-    .await
-    .map_err(|e| {
-        tracing::error!("Database error: {}", e);
-        (StatusCode::INTERNAL_SERVER_ERROR, e.to_string())
-    })?;
-
-    let id = result.last_insert_rowid();
-
-    let post = sqlx::query_as::<_, Post>(
-        "SELECT id, title, content, author, created_at FROM posts WHERE id = ?1"
-    )
-    .bind(id)
-    .fetch_one(&state.db)
-    .await
-    .map_err(|e| {
-        tracing::error!("Database error: {}", e);
-        (StatusCode::INTERNAL_SERVER_ERROR, e.to_string())
-    })?;
-
-    Ok((StatusCode::CREATED, Json(post)))
-}
-
-async fn get_post(
-    State(state): State<AppState>,
-    Path(id): Path<i64>,
-) -> Result<Json<Post>, (StatusCode, String)> {
-    let post = sqlx::query_as::<_, Post>(
-        "SELECT id, title, content, author, created_at FROM posts WHERE id = ?1"
-    )
-    .bind(id)
-    .fetch_optional(&state.db)
-    .await
-    .map_err(|e| {
-        tracing::error!("Database error: {}", e);
-        (StatusCode::INTERNAL_SERVER_ERROR, e.to_string())
-    })?
-    .ok_or_else(|| (StatusCode::NOT_FOUND, "Post not found".to_string()))?;
-
-    Ok(Json(post))
-}
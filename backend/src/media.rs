@@ -0,0 +1,340 @@
+//! Uploaded images and files. Uploads are stored in the upload directory (on
+//! the data volume unless `UPLOAD_DIR` says otherwise) under random names and
+//! served from `/uploads/`. Images also get a thumbnail for the media library.
+
+use axum::{
+    extract::{multipart::MultipartError, Multipart, Path, Query, State},
+    http::StatusCode,
+    Json,
+};
+use image::{io::Limits, ImageFormat};
+use sqlx::sqlite::SqliteExecutor;
+use std::io::Cursor;
+use std::path::Path as FsPath;
+use std::sync::Arc;
+
+use crate::auth::{require, AuthUser};
+use crate::error::AppError;
+use crate::models::{Media, Role};
+use crate::schema::{PaginatedResponse, PaginationParams};
+
+type AppState = Arc<crate::AppState>;
+
+/// Largest file that may be uploaded.
+pub const MAX_UPLOAD_BYTES: usize = 10 * 1024 * 1024;
+
+/// Thumbnails fit in a square this many pixels wide.
+const THUMBNAIL_SIZE: u32 = 400;
+
+/// Images larger than this on either side are refused before decoding, so a
+/// small file cannot claim a huge canvas and exhaust memory.
+const MAX_IMAGE_DIMENSION: u32 = 10_000;
+
+struct FileType {
+    extension: &'static str,
+    content_type: &'static str,
+    /// Set for images, which get a thumbnail.
+    image: Option<ImageFormat>,
+}
+
+const FILE_TYPES: &[FileType] = &[
+    FileType {
+        extension: "jpg",
+        content_type: "image/jpeg",
+        image: Some(ImageFormat::Jpeg),
+    },
+    FileType {
+        extension: "png",
+        content_type: "image/png",
+        image: Some(ImageFormat::Png),
+    },
+    FileType {
+        extension: "gif",
+        content_type: "image/gif",
+        image: Some(ImageFormat::Gif),
+    },
+    FileType {
+        extension: "webp",
+        content_type: "image/webp",
+        image: Some(ImageFormat::WebP),
+    },
+    FileType {
+        extension: "pdf",
+        content_type: "application/pdf",
+        image: None,
+    },
+];
+
+const UNSUPPORTED: &str = "Only JPEG, PNG, GIF and WebP images and PDF files can be uploaded";
+
+/// Tells the type from the file's first bytes. The name and the declared
+/// content type come from the client and are not trusted.
+fn detect(bytes: &[u8]) -> Option<&'static FileType> {
+    let image = image::guess_format(bytes).ok();
+    FILE_TYPES.iter().find(|file_type| match file_type.image {
+        Some(format) => image == Some(format),
+        None => bytes.starts_with(b"%PDF-"),
+    })
+}
+
+fn multipart_error(error: MultipartError) -> AppError {
+    if error.status() == StatusCode::PAYLOAD_TOO_LARGE {
+        AppError::ValidationError(too_large())
+    } else {
+        AppError::ValidationError(format!("Invalid upload: {}", error.body_text()))
+    }
+}
+
+fn too_large() -> String {
+    format!(
+        "Files must be at most {} MB",
+        MAX_UPLOAD_BYTES / (1024 * 1024)
+    )
+}
+
+fn io_error(error: std::io::Error) -> AppError {
+    tracing::error!("Failed to write upload: {}", error);
+    AppError::InternalError
+}
+
+/// Decodes the image to learn its size and writes a thumbnail next to it,
+/// named after `stem`. Images that already fit the thumbnail are their own
+/// thumbnail. Returns the width, height and thumbnail file name.
+fn make_thumbnail(
+    bytes: &[u8],
+    format: ImageFormat,
+    dir: &FsPath,
+    stem: &str,
+    filename: &str,
+) -> Result<(u32, u32, String), AppError> {
+    let unreadable = || AppError::ValidationError("The image could not be read".to_string());
+
+    let mut limits = Limits::default();
+    limits.max_image_width = Some(MAX_IMAGE_DIMENSION);
+    limits.max_image_height = Some(MAX_IMAGE_DIMENSION);
+    let mut reader = image::io::Reader::with_format(Cursor::new(bytes), format);
+    reader.limits(limits);
+    let image = reader.decode().map_err(|_| unreadable())?;
+    let (width, height) = (image.width(), image.height());
+
+    if width <= THUMBNAIL_SIZE && height <= THUMBNAIL_SIZE {
+        return Ok((width, height, filename.to_string()));
+    }
+
+    // JPEG stays JPEG; everything else may be transparent, which PNG keeps.
+    let (thumb_format, extension) = match format {
+        ImageFormat::Jpeg => (ImageFormat::Jpeg, "jpg"),
+        _ => (ImageFormat::Png, "png"),
+    };
+    let thumbnail = format!("{stem}-thumb.{extension}");
+    let path = dir.join(&thumbnail);
+    image
+        .thumbnail(THUMBNAIL_SIZE, THUMBNAIL_SIZE)
+        .save_with_format(&path, thumb_format)
+        .map_err(|e| {
+            tracing::error!("Failed to write thumbnail: {}", e);
+            // Don't leave a partly written file behind.
+            let _ = std::fs::remove_file(&path);
+            AppError::InternalError
+        })?;
+    Ok((width, height, thumbnail))
+}
+
+const MEDIA_COLUMNS: &str = r#"
+    m.id, '/uploads/' || m.filename AS url, '/uploads/' || m.thumbnail AS thumbnail_url,
+    m.original_name, m.content_type, m.size, m.width, m.height, m.uploaded_by,
+    u.display_name AS uploader_name, m.created_at
+"#;
+
+async fn fetch_media<'e>(db: impl SqliteExecutor<'e>, id: i64) -> Result<Media, AppError> {
+    sqlx::query_as::<_, Media>(&format!(
+        "SELECT {MEDIA_COLUMNS} FROM media m LEFT JOIN users u ON u.id = m.uploaded_by WHERE m.id = ?"
+    ))
+    .bind(id)
+    .fetch_optional(db)
+    .await?
+    .ok_or(AppError::NotFound)
+}
+
+/// Takes a multipart form with the upload in its `file` field.
+pub async fn upload_media(
+    State(state): State<AppState>,
+    AuthUser(user): AuthUser,
+    mut multipart: Multipart,
+) -> Result<(StatusCode, Json<Media>), AppError> {
+    require(&user, Role::can_write, "Your role cannot upload files")?;
+
+    let mut upload = None;
+    while let Some(field) = multipart.next_field().await.map_err(multipart_error)? {
+        if field.name() == Some("file") {
+            let original_name: String = field
+                .file_name()
+                .map(str::trim)
+                .filter(|name| !name.is_empty())
+                .unwrap_or("upload")
+                .chars()
+                .take(255)
+                .collect();
+            let bytes = field.bytes().await.map_err(multipart_error)?;
+            upload = Some((original_name, bytes));
+            break;
+        }
+    }
+    let (original_name, bytes) = upload
+        .filter(|(_, bytes)| !bytes.is_empty())
+        .ok_or_else(|| AppError::ValidationError("Choose a file to upload".to_string()))?;
+    if bytes.len() > MAX_UPLOAD_BYTES {
+        return Err(AppError::ValidationError(too_large()));
+    }
+    let file_type =
+        detect(&bytes).ok_or_else(|| AppError::ValidationError(UNSUPPORTED.to_string()))?;
+
+    let stem = uuid::Uuid::new_v4().simple().to_string();
+    let filename = format!("{stem}.{}", file_type.extension);
+    let dimensions = match file_type.image {
+        Some(format) => {
+            let bytes = bytes.clone();
+            let dir = state.upload_dir.clone();
+            let filename = filename.clone();
+            // Decoding and resizing are CPU-bound; keep them off the runtime.
+            let made = tokio::task::spawn_blocking(move || {
+                make_thumbnail(&bytes, format, &dir, &stem, &filename)
+            })
+            .await
+            .map_err(|_| AppError::InternalError)??;
+            Some(made)
+        }
+        None => None,
+    };
+    let thumbnail = dimensions
+        .as_ref()
+        .map(|(_, _, thumbnail)| thumbnail.clone());
+    let written = std::iter::once(filename.clone()).chain(thumbnail.clone());
+
+    // The row is committed only once the files are in place, and the files
+    // are removed again if it isn't, so a failed upload leaves no orphans.
+    let recorded = async {
+        tokio::fs::write(state.upload_dir.join(&filename), &bytes)
+            .await
+            .map_err(io_error)?;
+
+        let mut tx = state.db.begin().await?;
+        let (id,): (i64,) = sqlx::query_as(
+            r#"
+            INSERT INTO media
+                (filename, thumbnail, original_name, content_type, size, width, height, uploaded_by)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            RETURNING id
+            "#,
+        )
+        .bind(&filename)
+        .bind(&thumbnail)
+        .bind(&original_name)
+        .bind(file_type.content_type)
+        .bind(bytes.len() as i64)
+        .bind(dimensions.as_ref().map(|(width, _, _)| *width))
+        .bind(dimensions.as_ref().map(|(_, height, _)| *height))
+        .bind(user.id)
+        .fetch_one(&mut *tx)
+        .await?;
+        let media = fetch_media(&mut *tx, id).await?;
+        tx.commit().await?;
+        Ok::<_, AppError>(media)
+    }
+    .await;
+
+    match recorded {
+        Ok(media) => Ok((StatusCode::CREATED, Json(media))),
+        Err(error) => {
+            remove_uploads(&state.upload_dir, written).await;
+            Err(error)
+        }
+    }
+}
+
+/// Deletes uploaded files, logging rather than failing when one can't be.
+async fn remove_uploads(dir: &FsPath, names: impl IntoIterator<Item = String>) {
+    for name in names {
+        match tokio::fs::remove_file(dir.join(&name)).await {
+            Ok(()) => {}
+            // Small images are their own thumbnail, so it may be gone already.
+            Err(e) if e.kind() == std::io::ErrorKind::NotFound => {}
+            Err(e) => tracing::warn!("Failed to remove upload {}: {}", name, e),
+        }
+    }
+}
+
+/// Every upload, newest first. The library is shared: anyone who can write
+/// posts may reuse anyone's uploads.
+pub async fn list_media(
+    State(state): State<AppState>,
+    AuthUser(user): AuthUser,
+    Query(params): Query<PaginationParams>,
+) -> Result<Json<PaginatedResponse<Media>>, AppError> {
+    require(
+        &user,
+        Role::can_write,
+        "Your role cannot use the media library",
+    )?;
+    let page = params.page.max(1);
+    let per_page = params.per_page.clamp(1, 100);
+    let offset = (page - 1) * per_page;
+
+    let media = sqlx::query_as::<_, Media>(&format!(
+        r#"
+        SELECT {MEDIA_COLUMNS}
+        FROM media m
+        LEFT JOIN users u ON u.id = m.uploaded_by
+        ORDER BY m.created_at DESC, m.id DESC
+        LIMIT ? OFFSET ?
+        "#
+    ))
+    .bind(per_page)
+    .bind(offset)
+    .fetch_all(&state.db)
+    .await?;
+
+    let (total,): (i64,) = sqlx::query_as("SELECT COUNT(*) FROM media")
+        .fetch_one(&state.db)
+        .await?;
+
+    Ok(Json(PaginatedResponse {
+        data: media,
+        page,
+        per_page,
+        total,
+    }))
+}
+
+/// Uploaders may delete their own files, editors and admins any. Posts that
+/// still embed the file are left with a broken image.
+pub async fn delete_media(
+    State(state): State<AppState>,
+    AuthUser(user): AuthUser,
+    Path(id): Path<i64>,
+) -> Result<StatusCode, AppError> {
+    let (filename, thumbnail, uploaded_by): (String, Option<String>, Option<i64>) =
+        sqlx::query_as("SELECT filename, thumbnail, uploaded_by FROM media WHERE id = ?")
+            .bind(id)
+            .fetch_optional(&state.db)
+            .await?
+            .ok_or(AppError::NotFound)?;
+    if uploaded_by != Some(user.id) && !user.role.can_edit_any_post() {
+        return Err(AppError::Forbidden(
+            "You can only delete files you uploaded".to_string(),
+        ));
+    }
+
+    sqlx::query("DELETE FROM media WHERE id = ?")
+        .bind(id)
+        .execute(&state.db)
+        .await?;
+
+    remove_uploads(
+        &state.upload_dir,
+        std::iter::once(filename).chain(thumbnail),
+    )
+    .await;
+
+    Ok(StatusCode::NO_CONTENT)
+}
@@ -5,30 +5,334 @@ use sqlx::FromRow;
 pub struct Post {
     pub id: i64,
     pub title: String,
+    pub slug: String,
     pub content: String,
     pub author: String,
     pub status: String,
+    pub version: i64,
+    pub owner_id: Option<i64>,
+    /// When a scheduled post goes live; for published posts, when they did.
+    pub publish_at: Option<chrono::DateTime<chrono::Utc>>,
+    pub category: Option<sqlx::types::Json<Term>>,
+    /// Sorted by name.
+    pub tags: sqlx::types::Json<Vec<Term>>,
+    /// Upload path (`/uploads/…`) or absolute URL of the cover image.
+    pub cover_image: Option<String>,
+    /// Hand-written summary for listings and link previews.
+    pub excerpt: Option<String>,
     pub created_at: chrono::DateTime<chrono::Utc>,
     pub updated_at: chrono::DateTime<chrono::Utc>,
 }
 
+impl Post {
+    /// Strong ETag for this revision of the post.
+    pub fn etag(&self) -> String {
+        format!("\"{}\"", self.version)
+    }
+}
+
+/// A tag or category as it appears on a post.
+#[derive(Debug, Serialize, Deserialize, FromRow)]
+pub struct Term {
+    pub name: String,
+    pub slug: String,
+}
+
+/// A tag or category with the number of posts it would narrow a listing to.
+#[derive(Debug, Serialize, FromRow)]
+pub struct FacetCount {
+    pub name: String,
+    pub slug: String,
+    pub count: i64,
+}
+
+#[derive(Debug, Serialize)]
+pub struct PostFacets {
+    pub categories: Vec<FacetCount>,
+    pub tags: Vec<FacetCount>,
+}
+
+/// A public page for search engines: a post, tag or category by `slug`, or an
+/// author by name, with when its content last changed.
+#[derive(Debug, Serialize, FromRow)]
+pub struct SitemapEntry {
+    pub key: String,
+    pub updated_at: chrono::DateTime<chrono::Utc>,
+}
+
+/// Every public page of the blog, for the sitemap.
+#[derive(Debug, Serialize)]
+pub struct SitemapEntries {
+    pub posts: Vec<SitemapEntry>,
+    pub tags: Vec<SitemapEntry>,
+    pub categories: Vec<SitemapEntry>,
+    pub authors: Vec<SitemapEntry>,
+}
+
+/// `author` is filled in from the signed-in user, so clients may leave it out.
+/// Without a `slug`, one is made from the title. `category` and `tags` are
+/// names; ones that do not exist yet are created.
 #[derive(Debug, Deserialize)]
 pub struct CreatePost {
     pub title: String,
+    #[serde(default)]
+    pub slug: Option<String>,
     pub content: String,
+    #[serde(default)]
     pub author: String,
     #[serde(default = "default_status")]
     pub status: String,
+    #[serde(default)]
+    pub publish_at: Option<chrono::DateTime<chrono::Utc>>,
+    #[serde(default)]
+    pub category: Option<String>,
+    #[serde(default)]
+    pub tags: Vec<String>,
+    #[serde(default)]
+    pub cover_image: Option<String>,
+    #[serde(default)]
+    pub excerpt: Option<String>,
 }
 
 fn default_status() -> String {
     "draft".to_string()
 }
 
+/// An empty `slug` asks for a new one made from the title. Left out, the slug
+/// follows the title: it is made again whenever the title changes. An empty
+/// `category`, `cover_image` or `excerpt` removes it from the post; `tags`
+/// replaces all tags.
 #[derive(Debug, Deserialize)]
 pub struct UpdatePost {
     pub title: Option<String>,
+    pub slug: Option<String>,
     pub content: Option<String>,
     pub author: Option<String>,
     pub status: Option<String>,
+    pub publish_at: Option<chrono::DateTime<chrono::Utc>>,
+    pub category: Option<String>,
+    pub tags: Option<Vec<String>>,
+    pub cover_image: Option<String>,
+    pub excerpt: Option<String>,
+}
+
+/// A post matched by full-text search. `title_highlight` and `snippet` wrap
+/// matched terms in the `HIGHLIGHT_START`/`HIGHLIGHT_END` control characters
+/// rather than HTML, so clients can mark them up without trusting post text.
+#[derive(Debug, Serialize, FromRow)]
+pub struct SearchHit {
+    pub id: i64,
+    pub title: String,
+    pub slug: String,
+    pub author: String,
+    pub status: String,
+    pub created_at: chrono::DateTime<chrono::Utc>,
+    pub updated_at: chrono::DateTime<chrono::Utc>,
+    pub title_highlight: String,
+    pub snippet: String,
+    pub score: f64,
+}
+
+/// A post as it was after one write. `changed_fields` lists the fields that
+/// differ from the revision before it.
+#[derive(Debug, Serialize, FromRow)]
+pub struct PostRevision {
+    pub id: i64,
+    pub post_id: i64,
+    pub version: i64,
+    pub title: String,
+    pub content: String,
+    pub author: String,
+    pub status: String,
+    pub changed_fields: sqlx::types::Json<Vec<String>>,
+    pub edited_by: String,
+    pub restored_from: Option<i64>,
+    pub created_at: chrono::DateTime<chrono::Utc>,
+}
+
+/// Revision list entry; the same as `PostRevision` without the content.
+#[derive(Debug, Serialize, FromRow)]
+pub struct PostRevisionSummary {
+    pub id: i64,
+    pub version: i64,
+    pub title: String,
+    pub status: String,
+    pub changed_fields: sqlx::types::Json<Vec<String>>,
+    pub edited_by: String,
+    pub restored_from: Option<i64>,
+    pub created_at: chrono::DateTime<chrono::Utc>,
+}
+
+/// Editorial roles, from least to most privileged. Each role can do
+/// everything the ones before it can.
+#[derive(
+    Debug, Clone, Copy, PartialEq, Eq, PartialOrd, Ord, Serialize, Deserialize, sqlx::Type,
+)]
+#[serde(rename_all = "lowercase")]
+#[sqlx(rename_all = "lowercase")]
+pub enum Role {
+    /// Signed in, but can only read.
+    Reader,
+    /// Writes and edits their own posts, as drafts.
+    Author,
+    /// Edits, publishes and unpublishes anyone's posts.
+    Editor,
+    /// Everything, including assigning roles.
+    Admin,
+}
+
+impl Role {
+    pub fn can_write(self) -> bool {
+        self >= Role::Author
+    }
+
+    pub fn can_publish(self) -> bool {
+        self >= Role::Editor
+    }
+
+    pub fn can_edit_any_post(self) -> bool {
+        self >= Role::Editor
+    }
+
+    pub fn can_moderate_comments(self) -> bool {
+        self >= Role::Editor
+    }
+
+    pub fn can_manage_users(self) -> bool {
+        self == Role::Admin
+    }
+}
+
+#[derive(Debug, Clone, Serialize, FromRow)]
+pub struct User {
+    pub id: i64,
+    pub username: String,
+    pub display_name: String,
+    #[serde(skip_serializing)]
+    pub password_hash: String,
+    pub role: Role,
+    pub created_at: chrono::DateTime<chrono::Utc>,
+}
+
+#[derive(Debug, Deserialize)]
+pub struct UpdateUserRole {
+    pub role: Role,
+}
+
+#[derive(Debug, Deserialize)]
+pub struct RegisterUser {
+    pub username: String,
+    /// Defaults to the username when left empty.
+    #[serde(default)]
+    pub display_name: String,
+    pub password: String,
+}
+
+#[derive(Debug, Deserialize)]
+pub struct LoginUser {
+    pub username: String,
+    pub password: String,
+}
+
+/// Returned by register and login: a bearer token for `Authorization` plus
+/// the account it belongs to.
+#[derive(Debug, Serialize)]
+pub struct AuthResponse {
+    pub token: String,
+    pub user: User,
+}
+
+/// A reviewer's note on a post, visible to its author and the editors.
+#[derive(Debug, Serialize, FromRow)]
+pub struct ReviewComment {
+    pub id: i64,
+    pub post_id: i64,
+    pub author_id: i64,
+    pub author_name: String,
+    pub body: String,
+    pub created_at: chrono::DateTime<chrono::Utc>,
+}
+
+#[derive(Debug, Deserialize)]
+pub struct CreateReviewComment {
+    pub body: String,
+}
+
+/// A reader's comment on a published post. `parent_id` is the comment it
+/// replies to, if any.
+#[derive(Debug, Serialize, FromRow)]
+pub struct Comment {
+    pub id: i64,
+    pub post_id: i64,
+    pub parent_id: Option<i64>,
+    pub author_name: String,
+    pub body: String,
+    pub status: String,
+    pub created_at: chrono::DateTime<chrono::Utc>,
+}
+
+/// `author_name` is only read from anonymous commenters; signed-in users
+/// comment under their display name. `website` is a honeypot: the comment
+/// form hides it from people, so anything in it was filled in by a bot.
+#[derive(Debug, Deserialize)]
+pub struct CreateComment {
+    pub body: String,
+    #[serde(default)]
+    pub author_name: String,
+    #[serde(default)]
+    pub parent_id: Option<i64>,
+    #[serde(default)]
+    pub website: String,
+}
+
+/// A comment in the moderation queue, with the post it was left on.
+#[derive(Debug, Serialize, FromRow)]
+pub struct ModeratedComment {
+    pub id: i64,
+    pub post_id: i64,
+    pub post_title: String,
+    pub post_slug: String,
+    pub parent_id: Option<i64>,
+    pub author_name: String,
+    pub body: String,
+    pub status: String,
+    pub created_at: chrono::DateTime<chrono::Utc>,
+}
+
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "snake_case")]
+pub enum CommentAction {
+    Approve,
+    Spam,
+    Delete,
+}
+
+/// Applies `action` to every comment in `ids` at once.
+#[derive(Debug, Deserialize)]
+pub struct ModerateComments {
+    pub ids: Vec<i64>,
+    pub action: CommentAction,
+}
+
+#[derive(Debug, Serialize)]
+pub struct ModerateCommentsResult {
+    /// How many of the comments existed and were changed.
+    pub affected: u64,
+}
+
+/// An uploaded file. `url` and `thumbnail_url` are paths under `/uploads/`;
+/// only images have a thumbnail and a size in pixels.
+#[derive(Debug, Serialize, FromRow)]
+pub struct Media {
+    pub id: i64,
+    pub url: String,
+    pub thumbnail_url: Option<String>,
+    pub original_name: String,
+    pub content_type: String,
+    pub size: i64,
+    pub width: Option<i64>,
+    pub height: Option<i64>,
+    pub uploaded_by: Option<i64>,
+    pub uploader_name: Option<String>,
+    pub created_at: chrono::DateTime<chrono::Utc>,
 }
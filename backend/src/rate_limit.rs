@@ -0,0 +1,179 @@
+//! In-memory, per-IP rate limiting for routes anonymous visitors can write to.
+//! Counts live in the process, so they reset on restart and are not shared
+//! between instances; that is enough to slow down a single noisy client.
+
+use axum::http::HeaderMap;
+use std::collections::{HashMap, VecDeque};
+use std::net::{AddrParseError, IpAddr, Ipv4Addr, Ipv6Addr, SocketAddr};
+use std::sync::{Arc, Mutex};
+use std::time::{Duration, Instant};
+
+/// Past this many tracked clients, ones that have gone quiet are forgotten.
+const PRUNE_THRESHOLD: usize = 10_000;
+
+/// Allows each client at most `max` requests in any `window` (a sliding
+/// window, so there is no burst allowance at the edge of a fixed one).
+#[derive(Clone)]
+pub struct RateLimiter {
+    max: usize,
+    window: Duration,
+    hits: Arc<Mutex<HashMap<IpAddr, VecDeque<Instant>>>>,
+}
+
+impl RateLimiter {
+    pub fn new(max: usize, window: Duration) -> Self {
+        Self {
+            max,
+            window,
+            hits: Arc::default(),
+        }
+    }
+
+    /// Counts a request from `ip`, or returns how long it has to wait before
+    /// another one is allowed. Refused requests do not count.
+    pub fn check(&self, ip: IpAddr) -> Result<(), Duration> {
+        let now = Instant::now();
+        // A panic while holding the lock cannot leave the counts inconsistent
+        // in a way that matters, so a poisoned lock is still used.
+        let mut hits = self.hits.lock().unwrap_or_else(|e| e.into_inner());
+
+        if hits.len() > PRUNE_THRESHOLD {
+            hits.retain(|_, times| {
+                times
+                    .back()
+                    .is_some_and(|last| now.duration_since(*last) < self.window)
+            });
+        }
+
+        let times = hits.entry(ip).or_default();
+        while times
+            .front()
+            .is_some_and(|first| now.duration_since(*first) >= self.window)
+        {
+            times.pop_front();
+        }
+        if times.len() >= self.max {
+            let first = times.front().copied().unwrap_or(now);
+            return Err(self.window.saturating_sub(now.duration_since(first)));
+        }
+        times.push_back(now);
+        Ok(())
+    }
+}
+
+/// Header in which the frontend server names the visitor it is calling the
+/// API for. The frontend works the address out itself, from the connection
+/// or a proxy it is configured to trust; it never passes on what the visitor
+/// sent.
+pub const CLIENT_IP_HEADER: &str = "x-client-ip";
+
+/// Reads `TRUSTED_PROXIES`: the comma-separated addresses of the frontend
+/// servers allowed to name visitors in `CLIENT_IP_HEADER`. Unset, only a
+/// frontend on the same host is trusted.
+pub fn trusted_proxies(value: Option<&str>) -> Result<Vec<IpAddr>, AddrParseError> {
+    match value {
+        Some(value) => value
+            .split(',')
+            .map(str::trim)
+            .filter(|entry| !entry.is_empty())
+            .map(|entry| entry.parse::<IpAddr>().map(|ip| ip.to_canonical()))
+            .collect(),
+        None => Ok(vec![Ipv4Addr::LOCALHOST.into(), Ipv6Addr::LOCALHOST.into()]),
+    }
+}
+
+/// The address a request came from. A trusted frontend's `CLIENT_IP_HEADER`
+/// names the visitor it is acting for; anyone else gets the address of the
+/// connection, whatever headers they send.
+pub fn client_ip(headers: &HeaderMap, peer: SocketAddr, trusted_proxies: &[IpAddr]) -> IpAddr {
+    let peer = peer.ip().to_canonical();
+    if !trusted_proxies.contains(&peer) {
+        return peer;
+    }
+    headers
+        .get(CLIENT_IP_HEADER)
+        .and_then(|value| value.to_str().ok())
+        .and_then(|value| value.trim().parse::<IpAddr>().ok())
+        .map(|ip| ip.to_canonical())
+        .unwrap_or(peer)
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    const VISITOR: IpAddr = IpAddr::V4(Ipv4Addr::new(203, 0, 113, 7));
+    const OTHER: IpAddr = IpAddr::V4(Ipv4Addr::new(203, 0, 113, 8));
+
+    #[test]
+    fn rate_limiter_allows_max_requests_per_window() {
+        let limiter = RateLimiter::new(2, Duration::from_secs(60));
+        assert!(limiter.check(VISITOR).is_ok());
+        assert!(limiter.check(VISITOR).is_ok());
+        let wait = limiter.check(VISITOR).unwrap_err();
+        assert!(wait > Duration::from_secs(59) && wait <= Duration::from_secs(60));
+    }
+
+    #[test]
+    fn rate_limiter_counts_each_client_separately() {
+        let limiter = RateLimiter::new(1, Duration::from_secs(60));
+        assert!(limiter.check(VISITOR).is_ok());
+        assert!(limiter.check(VISITOR).is_err());
+        assert!(limiter.check(OTHER).is_ok());
+    }
+
+    #[test]
+    fn rate_limiter_forgets_requests_older_than_the_window() {
+        let limiter = RateLimiter::new(1, Duration::from_millis(20));
+        assert!(limiter.check(VISITOR).is_ok());
+        assert!(limiter.check(VISITOR).is_err());
+        std::thread::sleep(Duration::from_millis(30));
+        assert!(limiter.check(VISITOR).is_ok());
+    }
+
+    #[test]
+    fn trusted_proxies_default_to_localhost() {
+        assert_eq!(
+            trusted_proxies(None).unwrap(),
+            [
+                IpAddr::from(Ipv4Addr::LOCALHOST),
+                IpAddr::from(Ipv6Addr::LOCALHOST)
+            ]
+        );
+    }
+
+    #[test]
+    fn trusted_proxies_parse_a_list() {
+        assert_eq!(
+            trusted_proxies(Some(" 10.0.0.1, ::ffff:10.0.0.2 ,")).unwrap(),
+            [
+                "10.0.0.1".parse::<IpAddr>().unwrap(),
+                "10.0.0.2".parse().unwrap()
+            ]
+        );
+        assert!(trusted_proxies(Some("10.0.0.0/8")).is_err());
+    }
+
+    fn headers(client_ip: &str) -> HeaderMap {
+        let mut headers = HeaderMap::new();
+        headers.insert(CLIENT_IP_HEADER, client_ip.parse().unwrap());
+        headers
+    }
+
+    #[test]
+    fn client_ip_believes_trusted_proxies() {
+        let proxy: SocketAddr = "[::ffff:10.0.0.1]:4000".parse().unwrap();
+        let trusted = ["10.0.0.1".parse().unwrap()];
+        assert_eq!(client_ip(&headers("203.0.113.7"), proxy, &trusted), VISITOR);
+        // Without a usable header, the proxy's own address is used.
+        let expected: IpAddr = "10.0.0.1".parse().unwrap();
+        assert_eq!(client_ip(&headers("nonsense"), proxy, &trusted), expected);
+    }
+
+    #[test]
+    fn client_ip_ignores_the_header_from_anyone_else() {
+        let peer: SocketAddr = "203.0.113.8:4000".parse().unwrap();
+        let trusted = ["10.0.0.1".parse().unwrap()];
+        assert_eq!(client_ip(&headers("203.0.113.7"), peer, &trusted), OTHER);
+    }
+}
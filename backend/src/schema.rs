@@ -11,6 +11,54 @@ pub struct PaginationParams {
 fn default_page() -> i64 { 1 }
 fn default_per_page() -> i64 { 10 }
 
+#[derive(Debug, Default, Deserialize)]
+#[serde(rename_all = "snake_case")]
+pub enum PostSort {
+    #[default]
+    Newest,
+    Oldest,
+    Updated,
+    Title,
+}
+
+impl PostSort {
+    pub fn order_by(&self) -> &'static str {
+        match self {
+            PostSort::Newest => "created_at DESC, id DESC",
+            PostSort::Oldest => "created_at ASC, id ASC",
+            PostSort::Updated => "updated_at DESC, id DESC",
+            PostSort::Title => "title COLLATE NOCASE ASC, id ASC",
+        }
+    }
+}
+
+#[derive(Debug, Default, Deserialize)]
+pub struct PostFilters {
+    pub status: Option<String>,
+    pub author: Option<String>,
+    /// Category slug.
+    pub category: Option<String>,
+    /// Tag slug.
+    pub tag: Option<String>,
+    #[serde(default)]
+    pub sort: PostSort,
+}
+
+/// Moderation queue filter; `status` defaults to `pending`.
+#[derive(Debug, Default, Deserialize)]
+pub struct CommentFilters {
+    pub status: Option<String>,
+}
+
+#[derive(Debug, Deserialize)]
+pub struct SearchParams {
+    #[serde(default)]
+    pub q: String,
+}
+
+pub const HIGHLIGHT_START: &str = "\u{2}";
+pub const HIGHLIGHT_END: &str = "\u{3}";
+
 #[derive(Debug, Serialize)]
 pub struct PaginatedResponse<T> {
     pub data: Vec<T>,
@@ -0,0 +1,78 @@
+//! What search engines should index: every published post, and the tag,
+//! category and author pages that list them.
+
+use axum::{extract::State, Json};
+use std::sync::Arc;
+
+use crate::error::AppError;
+use crate::models::{SitemapEntries, SitemapEntry};
+
+type AppState = Arc<crate::AppState>;
+
+async fn fetch_entries(db: &sqlx::SqlitePool, sql: &str) -> Result<Vec<SitemapEntry>, AppError> {
+    Ok(sqlx::query_as::<_, SitemapEntry>(sql).fetch_all(db).await?)
+}
+
+/// Published posts, most recently changed first, and the tags, categories
+/// and authors that have any. A listing page counts as changed whenever one
+/// of its posts did. Open to everyone: it holds nothing the blog does not
+/// show anyway.
+pub async fn sitemap_entries(
+    State(state): State<AppState>,
+) -> Result<Json<SitemapEntries>, AppError> {
+    let posts = fetch_entries(
+        &state.db,
+        r#"
+        SELECT slug AS key, updated_at
+        FROM posts
+        WHERE status = 'published'
+        ORDER BY updated_at DESC, id DESC
+        "#,
+    )
+    .await?;
+
+    let tags = fetch_entries(
+        &state.db,
+        r#"
+        SELECT t.slug AS key, MAX(p.updated_at) AS updated_at
+        FROM tags t
+        JOIN post_tags pt ON pt.tag_id = t.id
+        JOIN posts p ON p.id = pt.post_id AND p.status = 'published'
+        GROUP BY t.id
+        ORDER BY t.slug
+        "#,
+    )
+    .await?;
+
+    let categories = fetch_entries(
+        &state.db,
+        r#"
+        SELECT c.slug AS key, MAX(p.updated_at) AS updated_at
+        FROM categories c
+        JOIN posts p ON p.category_id = c.id AND p.status = 'published'
+        GROUP BY c.id
+        ORDER BY c.slug
+        "#,
+    )
+    .await?;
+
+    // Listings match authors case-insensitively; so does the grouping.
+    let authors = fetch_entries(
+        &state.db,
+        r#"
+        SELECT MIN(author) AS key, MAX(updated_at) AS updated_at
+        FROM posts
+        WHERE status = 'published'
+        GROUP BY author COLLATE NOCASE
+        ORDER BY key COLLATE NOCASE
+        "#,
+    )
+    .await?;
+
+    Ok(Json(SitemapEntries {
+        posts,
+        tags,
+        categories,
+        authors,
+    }))
+}
@@ -0,0 +1,206 @@
+//! Post slugs: derived from the title unless an author picks one, unique
+//! across posts, and remembered after they change so that old links answer
+//! with a permanent redirect instead of a 404.
+
+use axum::{
+    extract::{Path, State},
+    http::{header, StatusCode},
+    response::{IntoResponse, Response},
+    Json,
+};
+use sqlx::SqliteConnection;
+use std::sync::Arc;
+
+use crate::auth::AuthUser;
+use crate::error::AppError;
+use crate::handlers::fetch_visible_post;
+
+type AppState = Arc<crate::AppState>;
+
+/// Longest slug `slugify` produces; picked slugs may use the full 100.
+const MAX_GENERATED_LENGTH: usize = 80;
+
+/// Lowercase ASCII letters and digits separated by single hyphens, e.g.
+/// "Hello, World!" becomes `hello-world`. Titles without any such characters
+/// fall back to `post`.
+pub fn slugify(title: &str) -> String {
+    let mut slug = String::new();
+    for c in title.chars() {
+        if c.is_ascii_alphanumeric() {
+            slug.push(c.to_ascii_lowercase());
+        } else if !slug.is_empty() && !slug.ends_with('-') {
+            slug.push('-');
+        }
+    }
+    slug.truncate(MAX_GENERATED_LENGTH);
+    let slug = slug.trim_end_matches('-');
+    if slug.is_empty() {
+        "post".to_string()
+    } else {
+        slug.to_string()
+    }
+}
+
+/// Whether `slug` points at any post other than `post_id`, now or in the past.
+async fn is_taken(
+    conn: &mut SqliteConnection,
+    slug: &str,
+    post_id: Option<i64>,
+) -> Result<bool, AppError> {
+    let taken = sqlx::query_scalar::<_, bool>(
+        r#"
+        SELECT EXISTS (SELECT 1 FROM posts WHERE slug = ?1 AND id IS NOT ?2)
+            OR EXISTS (SELECT 1 FROM post_slug_redirects WHERE slug = ?1 AND post_id IS NOT ?2)
+        "#,
+    )
+    .bind(slug)
+    .bind(post_id)
+    .fetch_one(conn)
+    .await?;
+    Ok(taken)
+}
+
+/// A free slug for `title`, numbered (`-2`, `-3`, …) if the plain one is taken.
+pub async fn unique_slug(
+    conn: &mut SqliteConnection,
+    title: &str,
+    post_id: Option<i64>,
+) -> Result<String, AppError> {
+    let base = slugify(title);
+    let mut slug = base.clone();
+    let mut n = 2;
+    while is_taken(conn, &slug, post_id).await? {
+        slug = format!("{base}-{n}");
+        n += 1;
+    }
+    Ok(slug)
+}
+
+/// Rejects a slug picked by an author that another post uses or used to use.
+pub async fn ensure_available(
+    conn: &mut SqliteConnection,
+    slug: &str,
+    post_id: Option<i64>,
+) -> Result<(), AppError> {
+    if is_taken(conn, slug, post_id).await? {
+        return Err(AppError::ValidationError(
+            "Slug is already in use".to_string(),
+        ));
+    }
+    Ok(())
+}
+
+/// Keeps `old` pointing at the post after it moved to `new`. A post may move
+/// back to one of its own earlier slugs, which then stops being a redirect.
+pub async fn record_slug_change(
+    conn: &mut SqliteConnection,
+    post_id: i64,
+    old: &str,
+    new: &str,
+) -> Result<(), AppError> {
+    sqlx::query("DELETE FROM post_slug_redirects WHERE slug = ?")
+        .bind(new)
+        .execute(&mut *conn)
+        .await?;
+    sqlx::query(
+        r#"
+        INSERT INTO post_slug_redirects (slug, post_id) VALUES (?, ?)
+        ON CONFLICT (slug) DO UPDATE SET post_id = excluded.post_id
+        "#,
+    )
+    .bind(old)
+    .bind(post_id)
+    .execute(&mut *conn)
+    .await?;
+    Ok(())
+}
+
+/// Gives every post created before slugs existed one made from its title.
+pub async fn backfill_slugs(db: &sqlx::SqlitePool) -> Result<(), AppError> {
+    let posts: Vec<(i64, String)> =
+        sqlx::query_as("SELECT id, title FROM posts WHERE slug IS NULL ORDER BY id")
+            .fetch_all(db)
+            .await?;
+    if posts.is_empty() {
+        return Ok(());
+    }
+
+    let mut tx = db.begin().await?;
+    for (id, title) in &posts {
+        let slug = unique_slug(&mut *tx, title, Some(*id)).await?;
+        sqlx::query("UPDATE posts SET slug = ? WHERE id = ?")
+            .bind(&slug)
+            .bind(id)
+            .execute(&mut *tx)
+            .await?;
+    }
+    tx.commit().await?;
+
+    tracing::info!("Generated slugs for {} post(s)", posts.len());
+    Ok(())
+}
+
+/// Looks a post up by its current slug. A slug the post has since moved away
+/// from answers with a 301 to the current one.
+pub async fn get_post_by_slug(
+    State(state): State<AppState>,
+    user: Option<AuthUser>,
+    Path(slug): Path<String>,
+) -> Result<Response, AppError> {
+    let user = user.as_ref().map(|AuthUser(user)| user);
+
+    let current = sqlx::query_scalar::<_, i64>("SELECT id FROM posts WHERE slug = ?")
+        .bind(&slug)
+        .fetch_optional(&state.db)
+        .await?;
+    if let Some(id) = current {
+        let post = fetch_visible_post(&state.db, user, id).await?;
+        return Ok(([(header::ETAG, post.etag())], Json(post)).into_response());
+    }
+
+    let moved =
+        sqlx::query_scalar::<_, i64>("SELECT post_id FROM post_slug_redirects WHERE slug = ?")
+            .bind(&slug)
+            .fetch_optional(&state.db)
+            .await?
+            .ok_or(AppError::NotFound)?;
+    // Checked so a redirect cannot reveal the new slug of a hidden post.
+    let post = fetch_visible_post(&state.db, user, moved).await?;
+    let location = format!("/api/posts/slug/{}", post.slug);
+    Ok((
+        StatusCode::MOVED_PERMANENTLY,
+        [(header::LOCATION, location)],
+    )
+        .into_response())
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn slugify_joins_words_with_single_hyphens() {
+        assert_eq!(slugify("Hello, World!"), "hello-world");
+        assert_eq!(slugify("  Rust -- 2024 edition  "), "rust-2024-edition");
+    }
+
+    #[test]
+    fn slugify_drops_non_ascii_characters() {
+        assert_eq!(slugify("Café au lait"), "caf-au-lait");
+    }
+
+    #[test]
+    fn slugify_falls_back_to_post() {
+        assert_eq!(slugify(""), "post");
+        assert_eq!(slugify("!!! ???"), "post");
+        assert_eq!(slugify("日本語"), "post");
+    }
+
+    #[test]
+    fn slugify_caps_the_length_without_a_trailing_hyphen() {
+        let slug = slugify(&"abcd ".repeat(40));
+        assert!(slug.len() <= MAX_GENERATED_LENGTH);
+        assert!(!slug.ends_with('-'));
+        assert!(slug.starts_with("abcd-abcd"));
+    }
+}
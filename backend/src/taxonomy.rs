@@ -0,0 +1,182 @@
+//! Categories and tags. Posts name them in their payloads; names that do not
+//! exist yet are created on the spot with a slug made from the name, and the
+//! slugs address them in listings (`?category=`, `?tag=`) and URLs.
+
+use axum::{
+    extract::{Path, Query, State},
+    Json,
+};
+use sqlx::{QueryBuilder, Sqlite, SqliteConnection};
+use std::sync::Arc;
+
+use crate::auth::AuthUser;
+use crate::error::AppError;
+use crate::handlers::{push_post_filters, Visibility};
+use crate::models::{FacetCount, PostFacets, Term};
+use crate::schema::PostFilters;
+use crate::slugs::slugify;
+
+type AppState = Arc<crate::AppState>;
+
+/// How many of the most used tags a facet listing shows.
+const TAG_FACET_LIMIT: i64 = 30;
+
+/// The two taxonomy tables share a shape, so the helpers below take the table
+/// name. Only ever one of these two constants, never user input.
+const CATEGORIES: &str = "categories";
+const TAGS: &str = "tags";
+
+/// Id of the term called `name` (case-insensitively), creating it if needed.
+/// A new term gets its name's slug, numbered if another term has it already.
+async fn find_or_create(
+    conn: &mut SqliteConnection,
+    table: &str,
+    name: &str,
+) -> Result<i64, AppError> {
+    let existing = sqlx::query_scalar::<_, i64>(&format!("SELECT id FROM {table} WHERE name = ?"))
+        .bind(name)
+        .fetch_optional(&mut *conn)
+        .await?;
+    if let Some(id) = existing {
+        return Ok(id);
+    }
+
+    let base = slugify(name);
+    let mut slug = base.clone();
+    let mut n = 2;
+    loop {
+        let taken = sqlx::query_scalar::<_, bool>(&format!(
+            "SELECT EXISTS (SELECT 1 FROM {table} WHERE slug = ?)"
+        ))
+        .bind(&slug)
+        .fetch_one(&mut *conn)
+        .await?;
+        if !taken {
+            break;
+        }
+        slug = format!("{base}-{n}");
+        n += 1;
+    }
+
+    let id = sqlx::query_scalar::<_, i64>(&format!(
+        "INSERT INTO {table} (name, slug) VALUES (?, ?) RETURNING id"
+    ))
+    .bind(name)
+    .bind(&slug)
+    .fetch_one(&mut *conn)
+    .await?;
+    Ok(id)
+}
+
+/// Id of the category called `name`, created if needed; `None` for no name.
+pub async fn category_id(
+    conn: &mut SqliteConnection,
+    name: Option<&str>,
+) -> Result<Option<i64>, AppError> {
+    match name.filter(|name| !name.is_empty()) {
+        Some(name) => Ok(Some(find_or_create(conn, CATEGORIES, name).await?)),
+        None => Ok(None),
+    }
+}
+
+/// Replaces the post's tags with `names`, creating tags that do not exist.
+pub async fn set_post_tags(
+    conn: &mut SqliteConnection,
+    post_id: i64,
+    names: &[String],
+) -> Result<(), AppError> {
+    sqlx::query("DELETE FROM post_tags WHERE post_id = ?")
+        .bind(post_id)
+        .execute(&mut *conn)
+        .await?;
+    for name in names {
+        let tag_id = find_or_create(conn, TAGS, name).await?;
+        sqlx::query("INSERT OR IGNORE INTO post_tags (post_id, tag_id) VALUES (?, ?)")
+            .bind(post_id)
+            .bind(tag_id)
+            .execute(&mut *conn)
+            .await?;
+    }
+    // Tags nobody uses any more would only clutter the suggestions.
+    sqlx::query("DELETE FROM tags WHERE id NOT IN (SELECT tag_id FROM post_tags)")
+        .execute(&mut *conn)
+        .await?;
+    Ok(())
+}
+
+async fn list_terms(db: &sqlx::SqlitePool, table: &str) -> Result<Vec<Term>, AppError> {
+    let terms = sqlx::query_as::<_, Term>(&format!(
+        "SELECT name, slug FROM {table} ORDER BY name COLLATE NOCASE"
+    ))
+    .fetch_all(db)
+    .await?;
+    Ok(terms)
+}
+
+async fn fetch_term(db: &sqlx::SqlitePool, table: &str, slug: &str) -> Result<Term, AppError> {
+    sqlx::query_as::<_, Term>(&format!("SELECT name, slug FROM {table} WHERE slug = ?"))
+        .bind(slug)
+        .fetch_optional(db)
+        .await?
+        .ok_or(AppError::NotFound)
+}
+
+/// Every category, for the post forms to suggest.
+pub async fn list_categories(State(state): State<AppState>) -> Result<Json<Vec<Term>>, AppError> {
+    Ok(Json(list_terms(&state.db, CATEGORIES).await?))
+}
+
+pub async fn get_category(
+    State(state): State<AppState>,
+    Path(slug): Path<String>,
+) -> Result<Json<Term>, AppError> {
+    Ok(Json(fetch_term(&state.db, CATEGORIES, &slug).await?))
+}
+
+/// Every tag in use, for the post forms to suggest.
+pub async fn list_tags(State(state): State<AppState>) -> Result<Json<Vec<Term>>, AppError> {
+    Ok(Json(list_terms(&state.db, TAGS).await?))
+}
+
+pub async fn get_tag(
+    State(state): State<AppState>,
+    Path(slug): Path<String>,
+) -> Result<Json<Term>, AppError> {
+    Ok(Json(fetch_term(&state.db, TAGS, &slug).await?))
+}
+
+/// Categories and tags of the posts a listing with `filters` would show, with
+/// how many of those posts each one has. Takes the same filters as
+/// `list_posts` so picking a facet narrows the counts along with the list.
+pub async fn post_facets(
+    State(state): State<AppState>,
+    user: Option<AuthUser>,
+    Query(filters): Query<PostFilters>,
+) -> Result<Json<PostFacets>, AppError> {
+    let visibility = Visibility::of(user.as_ref().map(|AuthUser(user)| user));
+
+    let mut categories = QueryBuilder::<Sqlite>::new(
+        "SELECT c.name, c.slug, COUNT(*) AS count \
+         FROM posts JOIN categories c ON c.id = posts.category_id",
+    );
+    push_post_filters(&mut categories, &filters, &visibility);
+    categories.push(" GROUP BY c.id ORDER BY count DESC, c.name COLLATE NOCASE");
+    let categories = categories
+        .build_query_as::<FacetCount>()
+        .fetch_all(&state.db)
+        .await?;
+
+    let mut tags = QueryBuilder::<Sqlite>::new(
+        "SELECT t.name, t.slug, COUNT(*) AS count \
+         FROM posts JOIN post_tags pt ON pt.post_id = posts.id JOIN tags t ON t.id = pt.tag_id",
+    );
+    push_post_filters(&mut tags, &filters, &visibility);
+    tags.push(" GROUP BY t.id ORDER BY count DESC, t.name COLLATE NOCASE LIMIT ")
+        .push_bind(TAG_FACET_LIMIT);
+    let tags = tags
+        .build_query_as::<FacetCount>()
+        .fetch_all(&state.db)
+        .await?;
+
+    Ok(Json(PostFacets { categories, tags }))
+}
@@ -0,0 +1,353 @@
+//! Post and account field rules. These mirror `frontend/app/utils/postSchema.ts`
+//! and `frontend/app/utils/accountSchema.ts`, including the error messages, so
+//! the frontend can map a 400 back onto the field it names. Change them together.
+
+use crate::error::AppError;
+use crate::models::{CreateComment, CreatePost, CreateReviewComment, RegisterUser, UpdatePost};
+
+pub const POST_STATUSES: &[&str] = &["draft", "in_review", "scheduled", "published", "archived"];
+
+enum Trim {
+    Both,
+    End,
+    None,
+}
+
+struct FieldRule {
+    label: &'static str,
+    trim: Trim,
+    min_length: Option<usize>,
+    max_length: Option<usize>,
+    one_of: Option<&'static [&'static str]>,
+}
+
+const TITLE: FieldRule = FieldRule {
+    label: "Title",
+    trim: Trim::Both,
+    min_length: Some(3),
+    max_length: Some(200),
+    one_of: None,
+};
+
+const AUTHOR: FieldRule = FieldRule {
+    label: "Author",
+    trim: Trim::Both,
+    min_length: None,
+    max_length: Some(100),
+    one_of: None,
+};
+
+const CONTENT: FieldRule = FieldRule {
+    label: "Content",
+    trim: Trim::End,
+    min_length: None,
+    max_length: Some(100_000),
+    one_of: None,
+};
+
+const STATUS: FieldRule = FieldRule {
+    label: "Status",
+    trim: Trim::Both,
+    min_length: None,
+    max_length: None,
+    one_of: Some(POST_STATUSES),
+};
+
+const SLUG: FieldRule = FieldRule {
+    label: "Slug",
+    trim: Trim::Both,
+    min_length: None,
+    max_length: Some(100),
+    one_of: None,
+};
+
+const CATEGORY: FieldRule = FieldRule {
+    label: "Category",
+    trim: Trim::Both,
+    min_length: None,
+    max_length: Some(50),
+    one_of: None,
+};
+
+const COVER_IMAGE: FieldRule = FieldRule {
+    label: "Cover image",
+    trim: Trim::Both,
+    min_length: None,
+    max_length: Some(500),
+    one_of: None,
+};
+
+const EXCERPT: FieldRule = FieldRule {
+    label: "Excerpt",
+    trim: Trim::Both,
+    min_length: None,
+    max_length: Some(300),
+    one_of: None,
+};
+
+const MAX_TAGS: usize = 10;
+const MAX_TAG_LENGTH: usize = 40;
+
+const REVIEW_BODY: FieldRule = FieldRule {
+    label: "Comment",
+    trim: Trim::Both,
+    min_length: None,
+    max_length: Some(5_000),
+    one_of: None,
+};
+
+const COMMENT_BODY: FieldRule = FieldRule {
+    label: "Comment",
+    trim: Trim::Both,
+    min_length: None,
+    max_length: Some(5_000),
+    one_of: None,
+};
+
+const COMMENT_AUTHOR: FieldRule = FieldRule {
+    label: "Name",
+    trim: Trim::Both,
+    min_length: None,
+    max_length: Some(100),
+    one_of: None,
+};
+
+const USERNAME: FieldRule = FieldRule {
+    label: "Username",
+    trim: Trim::Both,
+    min_length: Some(3),
+    max_length: Some(32),
+    one_of: None,
+};
+
+const DISPLAY_NAME: FieldRule = FieldRule {
+    label: "Display name",
+    trim: Trim::Both,
+    min_length: None,
+    max_length: Some(100),
+    one_of: None,
+};
+
+const PASSWORD: FieldRule = FieldRule {
+    label: "Password",
+    trim: Trim::None,
+    min_length: Some(8),
+    max_length: Some(128),
+    one_of: None,
+};
+
+/// Normalizes a required field and checks it against its rule.
+fn check(rule: &FieldRule, value: String) -> Result<String, AppError> {
+    let value = match rule.trim {
+        Trim::Both => value.trim().to_string(),
+        Trim::End => value.trim_end().to_string(),
+        Trim::None => value,
+    };
+    let length = value.chars().count();
+
+    if value.is_empty() {
+        return Err(AppError::ValidationError(format!(
+            "{} is required",
+            rule.label
+        )));
+    }
+    if let Some(min) = rule.min_length {
+        if length < min {
+            return Err(AppError::ValidationError(format!(
+                "{} must be at least {} characters",
+                rule.label, min
+            )));
+        }
+    }
+    if let Some(max) = rule.max_length {
+        if length > max {
+            return Err(AppError::ValidationError(format!(
+                "{} must be at most {} characters",
+                rule.label, max
+            )));
+        }
+    }
+    if let Some(allowed) = rule.one_of {
+        if !allowed.contains(&value.as_str()) {
+            return Err(AppError::ValidationError(format!(
+                "{} must be one of: {}",
+                rule.label,
+                allowed.join(", ")
+            )));
+        }
+    }
+
+    Ok(value)
+}
+
+fn check_optional(rule: &FieldRule, value: Option<String>) -> Result<Option<String>, AppError> {
+    value.map(|v| check(rule, v)).transpose()
+}
+
+/// Checks a slug picked by an author. An empty slug stays empty: it stands for
+/// "make one from the title".
+fn check_slug(value: Option<String>) -> Result<Option<String>, AppError> {
+    let Some(value) = value else {
+        return Ok(None);
+    };
+    if value.trim().is_empty() {
+        return Ok(Some(String::new()));
+    }
+    let slug = check(&SLUG, value)?;
+    let well_formed = slug.split('-').all(|part| {
+        !part.is_empty()
+            && part
+                .chars()
+                .all(|c| c.is_ascii_lowercase() || c.is_ascii_digit())
+    });
+    if !well_formed {
+        return Err(AppError::ValidationError(
+            "Slug may only contain lowercase letters and numbers separated by single hyphens"
+                .to_string(),
+        ));
+    }
+    Ok(Some(slug))
+}
+
+/// Checks an optional field that an empty value clears on update. As with
+/// slugs, an empty value stays empty so the update can tell it from a
+/// missing one.
+fn check_clearable(rule: &FieldRule, value: Option<String>) -> Result<Option<String>, AppError> {
+    match value {
+        Some(value) if value.trim().is_empty() => Ok(Some(String::new())),
+        value => check_optional(rule, value),
+    }
+}
+
+/// Cover images are uploads (`/uploads/…`) or absolute http(s) URLs, so that
+/// link previews can always turn them into a full URL.
+fn check_cover_image(value: Option<String>) -> Result<Option<String>, AppError> {
+    let value = check_clearable(&COVER_IMAGE, value)?;
+    if let Some(url) = value.as_deref().filter(|url| !url.is_empty()) {
+        let well_formed = ["/uploads/", "https://", "http://"]
+            .iter()
+            .any(|prefix| url.starts_with(prefix))
+            && !url.chars().any(char::is_whitespace);
+        if !well_formed {
+            return Err(AppError::ValidationError(
+                "Cover image must be an uploaded image or an http(s) URL".to_string(),
+            ));
+        }
+    }
+    Ok(value)
+}
+
+/// Trims tag names and drops blanks and case-insensitive duplicates. Commas
+/// are rejected because the post form joins tags with them.
+fn check_tags(tags: Vec<String>) -> Result<Vec<String>, AppError> {
+    let mut checked: Vec<String> = Vec::new();
+    for tag in tags {
+        let tag = tag.trim();
+        if tag.is_empty() || checked.iter().any(|t| t.eq_ignore_ascii_case(tag)) {
+            continue;
+        }
+        if tag.contains(',') {
+            return Err(AppError::ValidationError(
+                "Tags may not contain commas".to_string(),
+            ));
+        }
+        if tag.chars().count() > MAX_TAG_LENGTH {
+            return Err(AppError::ValidationError(format!(
+                "Tags must be at most {MAX_TAG_LENGTH} characters each"
+            )));
+        }
+        checked.push(tag.to_string());
+    }
+    if checked.len() > MAX_TAGS {
+        return Err(AppError::ValidationError(format!(
+            "Tags must be at most {MAX_TAGS} per post"
+        )));
+    }
+    Ok(checked)
+}
+
+impl CreatePost {
+    pub fn validate(self) -> Result<Self, AppError> {
+        Ok(CreatePost {
+            title: check(&TITLE, self.title)?,
+            slug: check_slug(self.slug)?.filter(|slug| !slug.is_empty()),
+            content: check(&CONTENT, self.content)?,
+            author: check(&AUTHOR, self.author)?,
+            status: check(&STATUS, self.status)?,
+            publish_at: self.publish_at,
+            category: check_clearable(&CATEGORY, self.category)?.filter(|name| !name.is_empty()),
+            tags: check_tags(self.tags)?,
+            cover_image: check_cover_image(self.cover_image)?.filter(|url| !url.is_empty()),
+            excerpt: check_clearable(&EXCERPT, self.excerpt)?.filter(|text| !text.is_empty()),
+        })
+    }
+}
+
+impl UpdatePost {
+    /// Fields left out of the payload are kept as they are; fields that are
+    /// present must satisfy the same rules as on create.
+    pub fn validate(self) -> Result<Self, AppError> {
+        Ok(UpdatePost {
+            title: check_optional(&TITLE, self.title)?,
+            slug: check_slug(self.slug)?,
+            content: check_optional(&CONTENT, self.content)?,
+            author: check_optional(&AUTHOR, self.author)?,
+            status: check_optional(&STATUS, self.status)?,
+            publish_at: self.publish_at,
+            category: check_clearable(&CATEGORY, self.category)?,
+            tags: self.tags.map(check_tags).transpose()?,
+            cover_image: check_cover_image(self.cover_image)?,
+            excerpt: check_clearable(&EXCERPT, self.excerpt)?,
+        })
+    }
+}
+
+impl RegisterUser {
+    pub fn validate(self) -> Result<Self, AppError> {
+        let username = check(&USERNAME, self.username)?;
+        if !username
+            .chars()
+            .all(|c| c.is_ascii_alphanumeric() || c == '-' || c == '_')
+        {
+            return Err(AppError::ValidationError(
+                "Username may only contain letters, numbers, - and _".to_string(),
+            ));
+        }
+        let display_name = if self.display_name.trim().is_empty() {
+            username.clone()
+        } else {
+            check(&DISPLAY_NAME, self.display_name)?
+        };
+
+        Ok(RegisterUser {
+            username,
+            display_name,
+            password: check(&PASSWORD, self.password)?,
+        })
+    }
+}
+
+impl CreateReviewComment {
+    pub fn validate(self) -> Result<Self, AppError> {
+        Ok(CreateReviewComment {
+            body: check(&REVIEW_BODY, self.body)?,
+        })
+    }
+}
+
+impl CreateComment {
+    /// Anonymous commenters must give a name; signed-in ones have theirs
+    /// filled in afterwards, so pass `anonymous: false` to skip that check.
+    pub fn validate(self, anonymous: bool) -> Result<Self, AppError> {
+        Ok(CreateComment {
+            body: check(&COMMENT_BODY, self.body)?,
+            author_name: if anonymous {
+                check(&COMMENT_AUTHOR, self.author_name)?
+            } else {
+                self.author_name
+            },
+            parent_id: self.parent_id,
+            website: self.website,
+        })
+    }
+}
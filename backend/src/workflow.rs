@@ -0,0 +1,220 @@
+//! Editorial workflow: which status changes are allowed and for whom, review
+//! comments, and the background task that publishes scheduled posts.
+//!
+//! draft → in_review → scheduled → published → archived, with the way back to
+//! draft open from every state. Authors move their posts between `draft` and
+//! `in_review`; every other change is for editors and admins.
+
+use axum::{
+    extract::{Path, State},
+    http::StatusCode,
+    Json,
+};
+use chrono::{DateTime, Utc};
+use std::sync::Arc;
+use std::time::Duration;
+
+use crate::auth::AuthUser;
+use crate::error::AppError;
+use crate::handlers::{ensure_can_modify, fetch_post, record_revision, POST_COLUMNS};
+use crate::models::{CreateReviewComment, Post, ReviewComment, User};
+
+type AppState = Arc<crate::AppState>;
+
+/// Statuses authors may move their own posts between.
+const AUTHOR_STATUSES: &[&str] = &["draft", "in_review"];
+
+/// How often the scheduler looks for posts that are due.
+const SCHEDULER_INTERVAL: Duration = Duration::from_secs(30);
+
+fn is_allowed_transition(from: &str, to: &str) -> bool {
+    match (from, to) {
+        _ if from == to => true,
+        (_, "draft") => true,
+        ("draft", _) => true,
+        ("in_review", _) => true,
+        ("scheduled", "in_review" | "published" | "archived") => true,
+        ("published", "archived") => true,
+        _ => false,
+    }
+}
+
+/// Checks that `user` may move a post from `from` (`None` for a new post) to
+/// `to`.
+pub fn ensure_can_set_status(user: &User, from: Option<&str>, to: &str) -> Result<(), AppError> {
+    if let Some(from) = from {
+        if !is_allowed_transition(from, to) {
+            return Err(AppError::ValidationError(format!(
+                "Status cannot change from {from} to {to}"
+            )));
+        }
+    }
+    let stays_with_authors =
+        AUTHOR_STATUSES.contains(&to) && from.map_or(true, |from| AUTHOR_STATUSES.contains(&from));
+    if from != Some(to) && !stays_with_authors && !user.role.can_publish() {
+        return Err(AppError::Forbidden(
+            "Only editors and admins can schedule, publish or archive posts".to_string(),
+        ));
+    }
+    Ok(())
+}
+
+/// A scheduled post needs a `publish_at` that has not passed yet.
+pub fn check_schedule(status: &str, publish_at: Option<DateTime<Utc>>) -> Result<(), AppError> {
+    if status != "scheduled" {
+        return Ok(());
+    }
+    match publish_at {
+        None => Err(AppError::ValidationError(
+            "Publish at is required for scheduled posts".to_string(),
+        )),
+        Some(at) if at <= Utc::now() => Err(AppError::ValidationError(
+            "Publish at must be in the future".to_string(),
+        )),
+        Some(_) => Ok(()),
+    }
+}
+
+/// Publishes every scheduled post whose `publish_at` has passed, recording
+/// each as a revision by the scheduler. Returns how many were published.
+pub async fn publish_due_posts(db: &sqlx::SqlitePool) -> Result<usize, AppError> {
+    let mut tx = db.begin().await?;
+
+    // `datetime()` normalizes the stored RFC 3339 text so it compares with now.
+    let posts = sqlx::query_as::<_, Post>(&format!(
+        r#"
+        UPDATE posts
+        SET status = 'published',
+            version = version + 1,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE status = 'scheduled' AND datetime(publish_at) <= datetime('now')
+        RETURNING {POST_COLUMNS}
+        "#
+    ))
+    .fetch_all(&mut *tx)
+    .await?;
+
+    for post in &posts {
+        record_revision(&mut *tx, post, &["status"], "Scheduler", None).await?;
+    }
+    tx.commit().await?;
+
+    Ok(posts.len())
+}
+
+/// Runs `publish_due_posts` in the background for as long as the server is up.
+pub fn spawn_scheduler(state: AppState) {
+    tokio::spawn(async move {
+        let mut interval = tokio::time::interval(SCHEDULER_INTERVAL);
+        loop {
+            interval.tick().await;
+            match publish_due_posts(&state.db).await {
+                Ok(0) => {}
+                Ok(count) => tracing::info!("Published {} scheduled post(s)", count),
+                Err(e) => tracing::error!("Failed to publish scheduled posts: {}", e),
+            }
+        }
+    });
+}
+
+const REVIEW_COLUMNS: &str = r#"
+    r.id, r.post_id, r.author_id, u.display_name AS author_name, r.body, r.created_at
+"#;
+
+/// Review comments are visible to, and may be left by, anyone who may change
+/// the post: its author and the editors.
+pub async fn list_review_comments(
+    State(state): State<AppState>,
+    AuthUser(user): AuthUser,
+    Path(id): Path<i64>,
+) -> Result<Json<Vec<ReviewComment>>, AppError> {
+    let post = fetch_post(&state.db, id).await?;
+    ensure_can_modify(&user, &post)?;
+
+    let comments = sqlx::query_as::<_, ReviewComment>(&format!(
+        r#"
+        SELECT {REVIEW_COLUMNS}
+        FROM review_comments r
+        JOIN users u ON u.id = r.author_id
+        WHERE r.post_id = ?
+        ORDER BY r.created_at ASC, r.id ASC
+        "#
+    ))
+    .bind(id)
+    .fetch_all(&state.db)
+    .await?;
+
+    Ok(Json(comments))
+}
+
+pub async fn create_review_comment(
+    State(state): State<AppState>,
+    AuthUser(user): AuthUser,
+    Path(id): Path<i64>,
+    Json(payload): Json<CreateReviewComment>,
+) -> Result<(StatusCode, Json<ReviewComment>), AppError> {
+    let payload = payload.validate()?;
+    let post = fetch_post(&state.db, id).await?;
+    ensure_can_modify(&user, &post)?;
+
+    let (comment_id,): (i64,) = sqlx::query_as(
+        "INSERT INTO review_comments (post_id, author_id, body) VALUES (?, ?, ?) RETURNING id",
+    )
+    .bind(id)
+    .bind(user.id)
+    .bind(&payload.body)
+    .fetch_one(&state.db)
+    .await?;
+
+    let comment = sqlx::query_as::<_, ReviewComment>(&format!(
+        r#"
+        SELECT {REVIEW_COLUMNS}
+        FROM review_comments r
+        JOIN users u ON u.id = r.author_id
+        WHERE r.id = ?
+        "#
+    ))
+    .bind(comment_id)
+    .fetch_one(&state.db)
+    .await?;
+
+    Ok((StatusCode::CREATED, Json(comment)))
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    const STATUSES: [&str; 5] = ["draft", "in_review", "scheduled", "published", "archived"];
+
+    fn allowed_from(from: &str) -> Vec<&'static str> {
+        STATUSES
+            .into_iter()
+            .filter(|to| is_allowed_transition(from, to))
+            .collect()
+    }
+
+    #[test]
+    fn drafts_and_posts_in_review_may_move_anywhere() {
+        assert_eq!(allowed_from("draft"), STATUSES);
+        assert_eq!(allowed_from("in_review"), STATUSES);
+    }
+
+    #[test]
+    fn scheduled_posts_may_move_anywhere() {
+        assert_eq!(allowed_from("scheduled"), STATUSES);
+    }
+
+    #[test]
+    fn published_posts_may_only_be_archived_or_withdrawn() {
+        assert_eq!(
+            allowed_from("published"),
+            ["draft", "published", "archived"]
+        );
+    }
+
+    #[test]
+    fn archived_posts_may_only_return_to_draft() {
+        assert_eq!(allowed_from("archived"), ["draft", "archived"]);
+    }
+}
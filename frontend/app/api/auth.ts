@@ -0,0 +1,20 @@
+import { request, type RequestOptions } from "./client";
+import type { AuthResponse, LoginInput, RegisterInput, User } from "./types";
+
+export function register(input: RegisterInput, options?: RequestOptions) {
+  return request<AuthResponse>("POST", "/auth/register", {
+    ...options,
+    body: input,
+  });
+}
+
+export function login(input: LoginInput, options?: RequestOptions) {
+  return request<AuthResponse>("POST", "/auth/login", {
+    ...options,
+    body: input,
+  });
+}
+
+export function getCurrentUser(options?: RequestOptions) {
+  return request<User>("GET", "/auth/me", options);
+}
@@ -0,0 +1,178 @@
+import type { ApiErrorBody } from "./types";
+
+export const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  headers?: HeadersInit;
+  /** Bearer token of the signed-in user, sent as `Authorization`. */
+  token?: string;
+}
+
+/**
+ * Error raised for any non-2xx response from the backend. `status` is 0 when
+ * the backend could not be reached at all.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body: Partial<ApiErrorBody> | null;
+
+  constructor(
+    message: string,
+    status: number,
+    body: Partial<ApiErrorBody> | null = null
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+
+  get isNotFound() {
+    return this.status === 404;
+  }
+
+  get isValidation() {
+    return this.status === 400;
+  }
+
+  get isUnauthorized() {
+    return this.status === 401;
+  }
+
+  get isForbidden() {
+    return this.status === 403;
+  }
+
+  get isConflict() {
+    return this.status === 409;
+  }
+}
+
+/** Options for writes guarded by optimistic concurrency. */
+export interface VersionedRequestOptions extends RequestOptions {
+  /** Version the write is based on; sent as `If-Match`. */
+  version?: number;
+}
+
+export function withIfMatch({ version, ...options }: VersionedRequestOptions) {
+  const headers = new Headers(options.headers);
+  if (version !== undefined) {
+    headers.set("If-Match", `"${version}"`);
+  }
+  return { ...options, headers };
+}
+
+/** A finished API call, as reported to the observer. */
+export interface ApiCall {
+  method: string;
+  path: string;
+  /** 0 when the backend could not be reached. */
+  status: number;
+  /** Milliseconds until the response headers arrived. */
+  duration: number;
+}
+
+/**
+ * Lets the server tag API calls with the page request they serve and time
+ * them (see requestContext.server.ts). Nothing observes them in the browser.
+ */
+export interface ApiObserver {
+  /** Extra headers for every call. */
+  headers(): Record<string, string>;
+  done(call: ApiCall): void;
+}
+
+let observer: ApiObserver | undefined;
+
+export function observeApiCalls(next: ApiObserver) {
+  observer = next;
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+type Query = Record<string, string | number | undefined | null>;
+
+function buildUrl(path: string, query?: Query) {
+  const url = new URL(`/api${path}`, API_URL);
+  if (query) {
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== null && value !== "") {
+        url.searchParams.set(key, String(value));
+      }
+    }
+  }
+  return url;
+}
+
+async function toApiError(response: Response) {
+  let body: Partial<ApiErrorBody> | null = null;
+  try {
+    body = await response.json();
+  } catch {
+    // Non-JSON error bodies (proxies, crashes) fall through to statusText.
+  }
+  return new ApiError(
+    body?.error || response.statusText || "Request failed",
+    body?.status ?? response.status,
+    body
+  );
+}
+
+export async function request<T>(
+  method: string,
+  path: string,
+  {
+    query,
+    body,
+    ...options
+  }: RequestOptions & { query?: Query; body?: unknown } = {}
+): Promise<T> {
+  const headers = new Headers(options.headers);
+  for (const [name, value] of Object.entries(observer?.headers() ?? {})) {
+    headers.set(name, value);
+  }
+  headers.set("Accept", "application/json");
+  if (options.token) {
+    headers.set("Authorization", `Bearer ${options.token}`);
+  }
+  // FormData sets its own multipart Content-Type, boundary included.
+  const isFormData = body instanceof FormData;
+  if (body !== undefined && !isFormData) {
+    headers.set("Content-Type", "application/json");
+  }
+
+  let response: Response;
+  const start = performance.now();
+  const report = (status: number) =>
+    observer?.done({
+      method,
+      path,
+      status,
+      duration: performance.now() - start,
+    });
+  try {
+    response = await fetch(buildUrl(path, query), {
+      method,
+      headers,
+      signal: options.signal,
+      body: body === undefined || isFormData ? body : JSON.stringify(body),
+    });
+  } catch (error) {
+    report(0);
+    if (options.signal?.aborted) throw error;
+    throw new ApiError("Unable to reach the blog API", 0);
+  }
+  report(response.status);
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  return (await response.json()) as T;
+}
@@ -0,0 +1,51 @@
+import { request, type RequestOptions } from "./client";
+import type {
+  Comment,
+  CommentStatus,
+  CreateComment,
+  ModerateComments,
+  ModerateCommentsResult,
+  ModeratedComment,
+  PaginatedResponse,
+  PaginationParams,
+} from "./types";
+
+/** The approved comments on a published post, oldest first, unthreaded. */
+export function listComments(
+  postId: number | string,
+  options?: RequestOptions
+) {
+  return request<Comment[]>("GET", `/posts/${postId}/comments`, options);
+}
+
+export function createComment(
+  postId: number | string,
+  input: CreateComment,
+  options?: RequestOptions
+) {
+  return request<Comment>("POST", `/posts/${postId}/comments`, {
+    ...options,
+    body: input,
+  });
+}
+
+export function listModerationQueue(
+  params: PaginationParams & { status?: CommentStatus } = {},
+  options?: RequestOptions
+) {
+  return request<PaginatedResponse<ModeratedComment>>(
+    "GET",
+    "/admin/comments",
+    { ...options, query: { ...params } }
+  );
+}
+
+export function moderateComments(
+  input: ModerateComments,
+  options?: RequestOptions
+) {
+  return request<ModerateCommentsResult>("POST", "/admin/comments/moderate", {
+    ...options,
+    body: input,
+  });
+}
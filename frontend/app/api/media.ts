@@ -0,0 +1,21 @@
+import { request, type RequestOptions } from "./client";
+import type { Media, PaginatedResponse, PaginationParams } from "./types";
+
+/** Uploads the `file` field of `form`, a multipart form. */
+export function uploadMedia(form: FormData, options?: RequestOptions) {
+  return request<Media>("POST", "/media", { ...options, body: form });
+}
+
+export function listMedia(
+  params: PaginationParams = {},
+  options?: RequestOptions
+) {
+  return request<PaginatedResponse<Media>>("GET", "/media", {
+    ...options,
+    query: { ...params },
+  });
+}
+
+export function deleteMedia(id: number | string, options?: RequestOptions) {
+  return request<void>("DELETE", `/media/${id}`, options);
+}
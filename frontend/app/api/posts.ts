@@ -0,0 +1,71 @@
+import {
+  request,
+  withIfMatch,
+  type ApiError,
+  type RequestOptions,
+  type VersionedRequestOptions,
+} from "./client";
+import type {
+  CreatePost,
+  PaginatedResponse,
+  PaginationParams,
+  Post,
+  PostFilters,
+  UpdatePost,
+} from "./types";
+
+export function listPosts(
+  params: PaginationParams & PostFilters = {},
+  options?: RequestOptions
+) {
+  return request<PaginatedResponse<Post>>("GET", "/posts", {
+    ...options,
+    query: { ...params },
+  });
+}
+
+export function getPost(id: number | string, options?: RequestOptions) {
+  return request<Post>("GET", `/posts/${id}`, options);
+}
+
+/**
+ * Looks a post up by slug. The backend answers a slug the post has moved away
+ * from with a 301, which `fetch` follows, so compare the returned `slug` with
+ * the one asked for to spot a renamed post.
+ */
+export function getPostBySlug(slug: string, options?: RequestOptions) {
+  return request<Post>(
+    "GET",
+    `/posts/slug/${encodeURIComponent(slug)}`,
+    options
+  );
+}
+
+export function createPost(input: CreatePost, options?: RequestOptions) {
+  return request<Post>("POST", "/posts", { ...options, body: input });
+}
+
+/**
+ * Updates a post. Pass the `version` the edit started from to have the backend
+ * reject the write with a 409 `ApiError` (carrying the current post in
+ * `body.current`) if someone else saved in the meantime.
+ */
+export function updatePost(
+  id: number | string,
+  input: UpdatePost,
+  options: VersionedRequestOptions = {}
+) {
+  return request<Post>("PUT", `/posts/${id}`, {
+    ...withIfMatch(options),
+    body: input,
+  });
+}
+
+/** The server's copy of a post from a 409 raised by `updatePost`. */
+export function conflictingPost(error: ApiError) {
+  return error.isConflict ? ((error.body?.current as Post) ?? null) : null;
+}
+
+export function deletePost(id: number | string, options?: RequestOptions) {
+  return request<void>("DELETE", `/posts/${id}`, options);
+}
@@ -0,0 +1,20 @@
+import { request, type RequestOptions } from "./client";
+import type { CreateReviewComment, ReviewComment } from "./types";
+
+export function listReviewComments(
+  postId: number | string,
+  options?: RequestOptions
+) {
+  return request<ReviewComment[]>("GET", `/posts/${postId}/reviews`, options);
+}
+
+export function createReviewComment(
+  postId: number | string,
+  input: CreateReviewComment,
+  options?: RequestOptions
+) {
+  return request<ReviewComment>("POST", `/posts/${postId}/reviews`, {
+    ...options,
+    body: input,
+  });
+}
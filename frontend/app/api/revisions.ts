@@ -0,0 +1,46 @@
+import {
+  request,
+  withIfMatch,
+  type RequestOptions,
+  type VersionedRequestOptions,
+} from "./client";
+import type { Post, PostRevision, PostRevisionSummary } from "./types";
+
+export function listRevisions(
+  postId: number | string,
+  options?: RequestOptions
+) {
+  return request<PostRevisionSummary[]>(
+    "GET",
+    `/posts/${postId}/revisions`,
+    options
+  );
+}
+
+export function getRevision(
+  postId: number | string,
+  version: number | string,
+  options?: RequestOptions
+) {
+  return request<PostRevision>(
+    "GET",
+    `/posts/${postId}/revisions/${version}`,
+    options
+  );
+}
+
+/**
+ * Saves an old revision as a new update. Pass the post's current `version` to
+ * get a 409 instead of overwriting an edit made since it was loaded.
+ */
+export function restoreRevision(
+  postId: number | string,
+  version: number | string,
+  options: VersionedRequestOptions = {}
+) {
+  return request<Post>(
+    "POST",
+    `/posts/${postId}/revisions/${version}/restore`,
+    withIfMatch(options)
+  );
+}
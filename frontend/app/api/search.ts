@@ -0,0 +1,13 @@
+import { request, type RequestOptions } from "./client";
+import type { PaginatedResponse, SearchHit, SearchParams } from "./types";
+
+// Must match HIGHLIGHT_START/HIGHLIGHT_END in backend/src/schema.rs.
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+export function searchPosts(params: SearchParams, options?: RequestOptions) {
+  return request<PaginatedResponse<SearchHit>>("GET", "/posts/search", {
+    ...options,
+    query: { ...params },
+  });
+}
@@ -0,0 +1,47 @@
+import { request, type RequestOptions } from "./client";
+import type { PostFacets, PostFilters, SitemapEntries, Term } from "./types";
+
+export function listCategories(options?: RequestOptions) {
+  return request<Term[]>("GET", "/categories", options);
+}
+
+export function getCategory(slug: string, options?: RequestOptions) {
+  return request<Term>(
+    "GET",
+    `/categories/${encodeURIComponent(slug)}`,
+    options
+  );
+}
+
+export function listTags(options?: RequestOptions) {
+  return request<Term[]>("GET", "/tags", options);
+}
+
+export function getTag(slug: string, options?: RequestOptions) {
+  return request<Term>("GET", `/tags/${encodeURIComponent(slug)}`, options);
+}
+
+/** Category and tag counts for the posts `listPosts(filters)` would return. */
+export function getPostFacets(filters: PostFilters, options?: RequestOptions) {
+  return request<PostFacets>("GET", "/posts/facets", {
+    ...options,
+    query: { ...filters },
+  });
+}
+
+/** Names of the existing categories and tags, for the post forms to suggest. */
+export async function listTermNames(options?: RequestOptions) {
+  const [categories, tags] = await Promise.all([
+    listCategories(options),
+    listTags(options),
+  ]);
+  return {
+    categoryOptions: categories.map((category) => category.name),
+    tagOptions: tags.map((tag) => tag.name),
+  };
+}
+
+/** Every published post and the listing pages that have any, for sitemaps. */
+export function getSitemapEntries(options?: RequestOptions) {
+  return request<SitemapEntries>("GET", "/sitemap", options);
+}
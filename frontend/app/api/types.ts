@@ -0,0 +1,279 @@
+// Mirrors backend/src/models.rs and backend/src/schema.rs. Keep the two in
+// sync when a column or query parameter changes.
+
+export type PostStatus =
+  | "draft"
+  | "in_review"
+  | "scheduled"
+  | "published"
+  | "archived";
+
+export interface Post {
+  id: number;
+  title: string;
+  /** Unique; the post lives at `/blog/:slug`. */
+  slug: string;
+  content: string;
+  author: string;
+  status: PostStatus;
+  /** Bumped on every update; sent back as `If-Match` to detect conflicts. */
+  version: number;
+  /** Account that owns the post; null for posts written before accounts. */
+  owner_id: number | null;
+  /** When a scheduled post goes live; for published posts, when they did. */
+  publish_at: string | null;
+  category: Term | null;
+  /** Sorted by name. */
+  tags: Term[];
+  /** Shown on cards and in link previews; an `/uploads/` path or a URL. */
+  cover_image: string | null;
+  /** Summary for cards, feeds and link previews; null to use the content. */
+  excerpt: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A tag or category; `slug` addresses it in URLs and filters. */
+export interface Term {
+  name: string;
+  slug: string;
+}
+
+/**
+ * `author` is set by the backend from the signed-in user. `category` and
+ * `tags` are names; the backend creates any that do not exist yet.
+ */
+export interface CreatePost {
+  title: string;
+  /** Made from the title when left out or empty. */
+  slug?: string;
+  content: string;
+  author?: string;
+  status?: PostStatus;
+  /** Required when `status` is "scheduled". */
+  publish_at?: string;
+  category?: string;
+  tags?: string[];
+  cover_image?: string;
+  excerpt?: string;
+}
+
+/**
+ * An empty `slug` asks for a new one made from the title; left out, the slug
+ * is made again whenever the title changes. An empty `category`,
+ * `cover_image` or `excerpt` clears it; `tags` replaces all of the post's
+ * tags.
+ */
+export interface UpdatePost {
+  title?: string;
+  slug?: string;
+  content?: string;
+  author?: string;
+  status?: PostStatus;
+  publish_at?: string;
+  category?: string;
+  tags?: string[];
+}
+
+/** A reviewer's note on a post, visible to its author and the editors. */
+export interface ReviewComment {
+  id: number;
+  post_id: number;
+  author_id: number;
+  author_name: string;
+  body: string;
+  created_at: string;
+}
+
+export interface CreateReviewComment {
+  body: string;
+}
+
+export type CommentStatus = "pending" | "approved" | "spam";
+
+/** A reader's comment; `parent_id` is the comment it replies to. */
+export interface Comment {
+  id: number;
+  post_id: number;
+  parent_id: number | null;
+  author_name: string;
+  body: string;
+  status: CommentStatus;
+  created_at: string;
+}
+
+export interface CreateComment {
+  body: string;
+  /** Only read for anonymous commenters. */
+  author_name?: string;
+  parent_id?: number | null;
+  /** Honeypot; left empty by people. */
+  website?: string;
+}
+
+/** A comment in the moderation queue, with the post it was left on. */
+export interface ModeratedComment extends Comment {
+  post_title: string;
+  post_slug: string;
+}
+
+export type CommentAction = "approve" | "spam" | "delete";
+
+export interface ModerateComments {
+  ids: number[];
+  action: CommentAction;
+}
+
+export interface ModerateCommentsResult {
+  affected: number;
+}
+
+/**
+ * An uploaded file. `url` and `thumbnail_url` are paths under `/uploads/`;
+ * only images have a thumbnail and a size in pixels.
+ */
+export interface Media {
+  id: number;
+  url: string;
+  thumbnail_url: string | null;
+  original_name: string;
+  content_type: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  uploaded_by: number | null;
+  uploader_name: string | null;
+  created_at: string;
+}
+
+export type UserRole = "reader" | "author" | "editor" | "admin";
+
+export interface User {
+  id: number;
+  username: string;
+  display_name: string;
+  role: UserRole;
+  created_at: string;
+}
+
+export interface UpdateUserRole {
+  role: UserRole;
+}
+
+export interface RegisterInput {
+  username: string;
+  display_name?: string;
+  password: string;
+}
+
+export interface LoginInput {
+  username: string;
+  password: string;
+}
+
+export interface AuthResponse {
+  token: string;
+  user: User;
+}
+
+export type RevisionField = "title" | "content" | "author" | "status";
+
+/** Revision list entry, as returned by `GET /posts/:id/revisions`. */
+export interface PostRevisionSummary {
+  id: number;
+  /** The post's `version` right after this write. */
+  version: number;
+  title: string;
+  status: PostStatus;
+  /** Fields that differ from the previous revision. */
+  changed_fields: RevisionField[];
+  edited_by: string;
+  /** Set when this revision restored an older one: that one's version. */
+  restored_from: number | null;
+  created_at: string;
+}
+
+export interface PostRevision extends PostRevisionSummary {
+  post_id: number;
+  content: string;
+  author: string;
+}
+
+export interface PaginationParams {
+  page?: number;
+  per_page?: number;
+}
+
+export type PostSort = "newest" | "oldest" | "updated" | "title";
+
+export interface PostFilters {
+  status?: PostStatus;
+  author?: string;
+  /** Category slug. */
+  category?: string;
+  /** Tag slug. */
+  tag?: string;
+  sort?: PostSort;
+}
+
+/** A tag or category with how many posts in the current listing have it. */
+export interface FacetCount extends Term {
+  count: number;
+}
+
+export interface PostFacets {
+  categories: FacetCount[];
+  tags: FacetCount[];
+}
+
+/**
+ * A public page: a post, tag or category by slug, or an author by name, with
+ * when its content last changed.
+ */
+export interface SitemapEntry {
+  key: string;
+  updated_at: string;
+}
+
+/** Every public page of the blog; posts come most recently changed first. */
+export interface SitemapEntries {
+  posts: SitemapEntry[];
+  tags: SitemapEntry[];
+  categories: SitemapEntry[];
+  authors: SitemapEntry[];
+}
+
+export interface SearchParams extends PaginationParams {
+  q: string;
+}
+
+/**
+ * A full-text search match. `title_highlight` and `snippet` mark matched terms
+ * with the control characters in api/search.ts, never with HTML.
+ */
+export interface SearchHit {
+  id: number;
+  title: string;
+  slug: string;
+  author: string;
+  status: PostStatus;
+  created_at: string;
+  updated_at: string;
+  title_highlight: string;
+  snippet: string;
+  score: number;
+}
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  page: number;
+  per_page: number;
+  total: number;
+}
+
+export interface ApiErrorBody {
+  error: string;
+  status: number;
+  /** Present on 409 responses: the resource as it is now on the server. */
+  current?: unknown;
+}
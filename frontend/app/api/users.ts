@@ -0,0 +1,17 @@
+import { request, type RequestOptions } from "./client";
+import type { UpdateUserRole, User } from "./types";
+
+export function listUsers(options?: RequestOptions) {
+  return request<User[]>("GET", "/admin/users", options);
+}
+
+export function updateUserRole(
+  id: number | string,
+  input: UpdateUserRole,
+  options?: RequestOptions
+) {
+  return request<User>("PUT", `/admin/users/${id}/role`, {
+    ...options,
+    body: input,
+  });
+}
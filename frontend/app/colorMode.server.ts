@@ -0,0 +1,22 @@
+import { createCookie } from "react-router";
+import { isColorMode, type ColorMode } from "./theme";
+
+// Not a secret and not tied to the session: the choice survives signing out
+// and applies to visitors too.
+const colorModeCookie = createCookie("color-mode", {
+  path: "/",
+  sameSite: "lax",
+  secure: process.env.NODE_ENV === "production",
+  maxAge: 60 * 60 * 24 * 365,
+});
+
+/** The reader's chosen color mode; "system" until they pick one. */
+export async function getColorMode(request: Request): Promise<ColorMode> {
+  const value = await colorModeCookie.parse(request.headers.get("Cookie"));
+  return isColorMode(value) ? value : "system";
+}
+
+/** `Set-Cookie` header value that remembers `mode`. */
+export function serializeColorMode(mode: ColorMode) {
+  return colorModeCookie.serialize(mode);
+}
@@ -0,0 +1,68 @@
+import { Box, CircularProgress, Typography } from "@mui/material";
+import CloudDoneIcon from "@mui/icons-material/CloudDone";
+import CloudOffIcon from "@mui/icons-material/CloudOff";
+import ErrorOutlineIcon from "@mui/icons-material/ErrorOutline";
+import SaveAsIcon from "@mui/icons-material/SaveAs";
+import type { AutosaveStatus } from "../hooks/useAutosave";
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+interface AutosaveIndicatorProps {
+  status: AutosaveStatus;
+  lastSavedAt?: string | null;
+  error?: string;
+}
+
+export default function AutosaveIndicator({
+  status,
+  lastSavedAt,
+  error,
+}: AutosaveIndicatorProps) {
+  let icon: React.ReactNode = null;
+  let label = "";
+
+  switch (status) {
+    case "saving":
+      icon = <CircularProgress size={14} />;
+      label = "Saving…";
+      break;
+    case "saved":
+      icon = <CloudDoneIcon fontSize="small" color="success" />;
+      label = lastSavedAt ? `Saved at ${formatTime(lastSavedAt)}` : "Saved";
+      break;
+    case "local":
+      icon = <SaveAsIcon fontSize="small" />;
+      label = "Saved on this device";
+      break;
+    case "offline":
+      icon = <CloudOffIcon fontSize="small" color="warning" />;
+      label = "Offline — changes kept on this device";
+      break;
+    case "error":
+      icon = <ErrorOutlineIcon fontSize="small" color="error" />;
+      label = error ? `Autosave failed: ${error}` : "Autosave failed";
+      break;
+    case "unsaved":
+      label = "Unsaved changes";
+      break;
+    case "idle":
+      return null;
+  }
+
+  return (
+    <Box
+      role="status"
+      aria-live="polite"
+      sx={{ display: "flex", alignItems: "center", gap: 1 }}
+    >
+      {icon}
+      <Typography variant="body2" color="text.secondary">
+        {label}
+      </Typography>
+    </Box>
+  );
+}
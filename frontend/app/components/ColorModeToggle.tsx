@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { useFetcher, useRouteLoaderData } from "react-router";
+import {
+  IconButton,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Tooltip,
+} from "@mui/material";
+import { useColorScheme } from "@mui/material/styles";
+import DarkModeIcon from "@mui/icons-material/DarkMode";
+import LightModeIcon from "@mui/icons-material/LightMode";
+import SettingsBrightnessIcon from "@mui/icons-material/SettingsBrightness";
+import type { loader as rootLoader } from "../root";
+import {
+  COLOR_MODES,
+  colorModeLabels,
+  isColorMode,
+  type ColorMode,
+} from "../theme";
+
+const icons: Record<ColorMode, React.ReactElement> = {
+  system: <SettingsBrightnessIcon fontSize="small" />,
+  light: <LightModeIcon fontSize="small" />,
+  dark: <DarkModeIcon fontSize="small" />,
+};
+
+/**
+ * App bar menu for choosing light, dark or the system's color scheme. The
+ * page switches at once; the choice is saved in a cookie so the next page
+ * arrives from the server in the same scheme.
+ */
+export default function ColorModeToggle() {
+  const { setMode } = useColorScheme();
+  const fetcher = useFetcher();
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+
+  // The root loader's mode matches what the server rendered; while a change
+  // is being saved, show the one just picked.
+  const saved = useRouteLoaderData<typeof rootLoader>("root")?.colorMode;
+  const pending = fetcher.formData?.get("mode");
+  const current = isColorMode(pending) ? pending : (saved ?? "system");
+
+  const choose = (mode: ColorMode) => {
+    setAnchor(null);
+    setMode(mode);
+    fetcher.submit({ mode }, { method: "post", action: "/color-mode" });
+  };
+
+  return (
+    <>
+      <Tooltip title={`Theme: ${colorModeLabels[current]}`}>
+        <IconButton
+          color="inherit"
+          aria-label="Change theme"
+          aria-haspopup="menu"
+          onClick={(event) => setAnchor(event.currentTarget)}
+        >
+          {icons[current]}
+        </IconButton>
+      </Tooltip>
+      <Menu
+        anchorEl={anchor}
+        open={anchor !== null}
+        onClose={() => setAnchor(null)}
+      >
+        {COLOR_MODES.map((mode) => (
+          <MenuItem
+            key={mode}
+            selected={mode === current}
+            onClick={() => choose(mode)}
+          >
+            <ListItemIcon>{icons[mode]}</ListItemIcon>
+            <ListItemText>{colorModeLabels[mode]}</ListItemText>
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useFetcher } from "react-router";
+import { Alert, Box, Button, TextField, Typography } from "@mui/material";
+import ReplyIcon from "@mui/icons-material/Reply";
+import type { Comment, CommentStatus } from "../api/types";
+import { useOptionalUser } from "../hooks/useUser";
+
+export interface CommentActionData {
+  error: string | null;
+  /** Status the new comment was given; `pending` until a moderator looks. */
+  status: CommentStatus | null;
+}
+
+/** Replies nest deeper than this without being indented any further. */
+const MAX_INDENT = 4;
+
+interface CommentNode {
+  comment: Comment;
+  replies: CommentNode[];
+}
+
+/**
+ * Builds the threads out of the flat, oldest-first list. Replies to comments
+ * that are no longer shown (marked as spam after the reply was approved) are
+ * left out along with their parent.
+ */
+function buildThreads(comments: Comment[]) {
+  const nodes = new Map<number, CommentNode>();
+  for (const comment of comments) {
+    nodes.set(comment.id, { comment, replies: [] });
+  }
+  const roots: CommentNode[] = [];
+  for (const node of nodes.values()) {
+    const { parent_id } = node.comment;
+    if (parent_id === null) {
+      roots.push(node);
+    } else {
+      nodes.get(parent_id)?.replies.push(node);
+    }
+  }
+  return roots;
+}
+
+interface CommentFormProps {
+  /** The route whose action creates comments for `intent=comment`. */
+  action: string;
+  parentId?: number;
+  onCancel?: () => void;
+}
+
+function CommentForm({ action, parentId, onCancel }: CommentFormProps) {
+  const user = useOptionalUser();
+  const fetcher = useFetcher<CommentActionData>();
+  const formRef = useRef<HTMLFormElement>(null);
+  const submitting = fetcher.state !== "idle";
+  const posted = fetcher.state === "idle" ? fetcher.data?.status : null;
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.error === null) {
+      formRef.current?.reset();
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  return (
+    <fetcher.Form method="post" action={action} ref={formRef}>
+      <input type="hidden" name="intent" value="comment" />
+      {parentId !== undefined && (
+        <input type="hidden" name="parent_id" value={parentId} />
+      )}
+      {/* Honeypot: hidden from people (and screen readers), so anything
+          typed into it came from a bot and the comment is filed as spam. */}
+      <Box
+        aria-hidden="true"
+        sx={{ position: "absolute", left: -10000, width: 1, height: 1 }}
+      >
+        <label>
+          Website
+          <input type="text" name="website" tabIndex={-1} autoComplete="off" />
+        </label>
+      </Box>
+
+      {fetcher.data?.error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {fetcher.data.error}
+        </Alert>
+      )}
+      {posted && (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          {posted === "approved"
+            ? "Your comment has been posted."
+            : "Thanks! Your comment will appear once a moderator approves it."}
+        </Alert>
+      )}
+
+      {!user && (
+        <TextField
+          name="author_name"
+          label="Name"
+          size="small"
+          required
+          inputProps={{ maxLength: 100 }}
+          sx={{ mb: 2, width: { xs: "100%", sm: 320 } }}
+        />
+      )}
+      <TextField
+        name="body"
+        label={parentId === undefined ? "Leave a comment" : "Reply"}
+        fullWidth
+        multiline
+        minRows={parentId === undefined ? 3 : 2}
+        required
+        inputProps={{ maxLength: 5000 }}
+      />
+      <Box sx={{ display: "flex", justifyContent: "flex-end", gap: 1, mt: 1 }}>
+        {onCancel && (
+          <Button onClick={onCancel} disabled={submitting}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" variant="contained" disabled={submitting}>
+          {submitting
+            ? "Posting..."
+            : parentId === undefined
+              ? "Comment"
+              : "Reply"}
+        </Button>
+      </Box>
+    </fetcher.Form>
+  );
+}
+
+function CommentItem({
+  node,
+  depth,
+  action,
+}: {
+  node: CommentNode;
+  depth: number;
+  action: string;
+}) {
+  const [replying, setReplying] = useState(false);
+  const { comment, replies } = node;
+
+  return (
+    <Box component="li" sx={{ listStyle: "none" }}>
+      <Box
+        component="article"
+        id={`comment-${comment.id}`}
+        sx={{ py: 1.5, borderTop: 1, borderColor: "divider" }}
+      >
+        <Typography variant="subtitle2" component="p">
+          {comment.author_name}{" "}
+          <Typography
+            component="time"
+            variant="caption"
+            color="text.secondary"
+            dateTime={comment.created_at}
+          >
+            {new Date(comment.created_at).toLocaleString("en-US")}
+          </Typography>
+        </Typography>
+        <Typography variant="body2" sx={{ whiteSpace: "pre-wrap", my: 0.5 }}>
+          {comment.body}
+        </Typography>
+        {!replying && (
+          <Button
+            size="small"
+            startIcon={<ReplyIcon />}
+            onClick={() => setReplying(true)}
+            sx={{ px: 0 }}
+          >
+            Reply
+          </Button>
+        )}
+        {replying && (
+          <Box sx={{ mt: 1 }}>
+            <CommentForm
+              action={action}
+              parentId={comment.id}
+              onCancel={() => setReplying(false)}
+            />
+          </Box>
+        )}
+      </Box>
+
+      {replies.length > 0 && (
+        <Box
+          component="ol"
+          sx={{
+            m: 0,
+            p: 0,
+            pl: depth < MAX_INDENT ? { xs: 2, sm: 3 } : 0,
+            borderLeft: depth < MAX_INDENT ? 2 : 0,
+            borderColor: "divider",
+          }}
+        >
+          {replies.map((reply) => (
+            <CommentItem
+              key={reply.comment.id}
+              node={reply}
+              depth={depth + 1}
+              action={action}
+            />
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+interface CommentsProps {
+  comments: Comment[];
+  /** The route whose action creates comments for `intent=comment`. */
+  action: string;
+}
+
+/** Readers' comments on a published post, threaded, with the comment form. */
+export default function Comments({ comments, action }: CommentsProps) {
+  const threads = useMemo(() => buildThreads(comments), [comments]);
+
+  return (
+    <Box component="section" aria-labelledby="comments-heading">
+      <Typography
+        id="comments-heading"
+        variant="h5"
+        component="h2"
+        gutterBottom
+      >
+        {comments.length === 1 ? "1 comment" : `${comments.length} comments`}
+      </Typography>
+
+      {threads.length > 0 ? (
+        <Box component="ol" sx={{ m: 0, p: 0, mb: 3 }}>
+          {threads.map((node) => (
+            <CommentItem
+              key={node.comment.id}
+              node={node}
+              depth={0}
+              action={action}
+            />
+          ))}
+        </Box>
+      ) : (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          No comments yet. Start the conversation.
+        </Typography>
+      )}
+
+      <Box sx={{ position: "relative" }}>
+        <CommentForm action={action} />
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,89 @@
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from "@mui/material";
+import { diffLines, hasChanges } from "../utils/diff";
+import type { PostField, PostValues } from "../utils/postSchema";
+import DiffView from "./DiffView";
+
+export type ConflictResolution = "mine" | "theirs" | "merge";
+
+const fieldLabels: Record<PostField, string> = {
+  title: "Title",
+  slug: "Slug",
+  author: "Author",
+  status: "Status",
+  publish_at: "Publish at",
+  category: "Category",
+  tags: "Tags",
+  cover_image: "Cover image",
+  excerpt: "Excerpt",
+  content: "Content",
+};
+
+interface ConflictDialogProps {
+  open: boolean;
+  mine: PostValues;
+  theirs: PostValues;
+  updatedAt: string;
+  onResolve: (resolution: ConflictResolution) => void;
+  onClose: () => void;
+}
+
+/**
+ * Shown when saving hits a 409: someone else saved the post after this edit
+ * started. Lists every field that differs as a diff from theirs to mine.
+ */
+export default function ConflictDialog({
+  open,
+  mine,
+  theirs,
+  updatedAt,
+  onResolve,
+  onClose,
+}: ConflictDialogProps) {
+  const changed = (Object.keys(fieldLabels) as PostField[])
+    .map((field) => ({ field, lines: diffLines(theirs[field], mine[field]) }))
+    .filter(({ lines }) => hasChanges(lines));
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>This post changed while you were editing</DialogTitle>
+      <DialogContent dividers>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Someone else saved this post on{" "}
+          {new Date(updatedAt).toLocaleString("en-US")}. Lines marked − are
+          theirs, lines marked + are yours.
+        </Alert>
+
+        {changed.length === 0 ? (
+          <Typography color="text.secondary">
+            Your changes match what is saved now.
+          </Typography>
+        ) : (
+          changed.map(({ field, lines }) => (
+            <Box key={field} sx={{ mb: 2 }}>
+              <Typography variant="subtitle2" gutterBottom>
+                {fieldLabels[field]}
+              </Typography>
+              <DiffView lines={lines} />
+            </Box>
+          ))
+        )}
+      </DialogContent>
+      <DialogActions sx={{ flexWrap: "wrap", gap: 1 }}>
+        <Button onClick={() => onResolve("theirs")}>Take theirs</Button>
+        <Button onClick={() => onResolve("merge")}>Merge</Button>
+        <Button variant="contained" onClick={() => onResolve("mine")}>
+          Keep mine
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
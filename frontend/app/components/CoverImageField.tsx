@@ -0,0 +1,132 @@
+import { useState } from "react";
+import {
+  Box,
+  Button,
+  CircularProgress,
+  IconButton,
+  TextField,
+  Tooltip,
+} from "@mui/material";
+import ClearIcon from "@mui/icons-material/Clear";
+import UploadIcon from "@mui/icons-material/Upload";
+import { uploadFile } from "../utils/uploads";
+
+const IMAGE_ACCEPT = "image/jpeg,image/png,image/gif,image/webp";
+
+interface CoverImageFieldProps {
+  name: string;
+  value: string;
+  onChange: (value: string) => void;
+  error?: string;
+  maxLength?: number;
+}
+
+/**
+ * The post's cover image: an upload or the URL of an image hosted elsewhere,
+ * with a preview of whatever the field points at.
+ */
+export default function CoverImageField({
+  name,
+  value,
+  onChange,
+  error,
+  maxLength,
+}: CoverImageFieldProps) {
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string>();
+  const [brokenPreview, setBrokenPreview] = useState<string>();
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setUploadError(undefined);
+    if (!file.type.startsWith("image/")) {
+      setUploadError(`${file.name}: the cover must be an image`);
+      return;
+    }
+    setUploading(true);
+    try {
+      onChange((await uploadFile(file)).url);
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const message = error ?? uploadError;
+
+  return (
+    <Box>
+      <Box sx={{ display: "flex", gap: 1, alignItems: "flex-start" }}>
+        <TextField
+          fullWidth
+          label="Cover image"
+          name={name}
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+          placeholder="/uploads/… or https://…"
+          inputProps={{ maxLength }}
+          InputLabelProps={{ shrink: true }}
+          InputProps={{
+            endAdornment: value ? (
+              <Tooltip title="Remove cover image">
+                <IconButton
+                  size="small"
+                  edge="end"
+                  onClick={() => onChange("")}
+                  aria-label="Remove cover image"
+                >
+                  <ClearIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            ) : undefined,
+          }}
+          error={!!message}
+          helperText={
+            message ?? "Shown on post cards and in link previews when shared"
+          }
+        />
+        <Button
+          variant="outlined"
+          component="label"
+          startIcon={
+            uploading ? (
+              <CircularProgress size={16} color="inherit" />
+            ) : (
+              <UploadIcon />
+            )
+          }
+          disabled={uploading}
+          sx={{ flexShrink: 0, height: 56 }}
+        >
+          {uploading ? "Uploading..." : "Upload"}
+          <input
+            type="file"
+            accept={IMAGE_ACCEPT}
+            hidden
+            onChange={(event) => {
+              handleFile(event.target.files?.[0]);
+              event.target.value = "";
+            }}
+          />
+        </Button>
+      </Box>
+      {value && brokenPreview !== value && (
+        <Box
+          component="img"
+          src={value}
+          alt="Cover image preview"
+          onError={() => setBrokenPreview(value)}
+          sx={{
+            display: "block",
+            mt: 1,
+            maxWidth: "100%",
+            maxHeight: 200,
+            objectFit: "cover",
+            borderRadius: 1,
+          }}
+        />
+      )}
+    </Box>
+  );
+}
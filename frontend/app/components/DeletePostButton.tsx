@@ -0,0 +1,47 @@
+import { useFetcher } from "react-router";
+import { Button, CircularProgress, type ButtonProps } from "@mui/material";
+import DeleteIcon from "@mui/icons-material/Delete";
+
+interface DeletePostButtonProps {
+  postId: number;
+  /** Where to land once the post is gone; defaults to the posts index. */
+  redirectTo?: string;
+  size?: ButtonProps["size"];
+  variant?: ButtonProps["variant"];
+}
+
+export default function DeletePostButton({
+  postId,
+  redirectTo = "/posts",
+  size,
+  variant = "text",
+}: DeletePostButtonProps) {
+  const fetcher = useFetcher();
+  const isDeleting = fetcher.state !== "idle";
+
+  return (
+    <fetcher.Form
+      method="post"
+      action={`/posts/${postId}/destroy`}
+      onSubmit={(event) => {
+        if (!confirm("Are you sure you want to delete this post?")) {
+          event.preventDefault();
+        }
+      }}
+    >
+      <input type="hidden" name="redirectTo" value={redirectTo} />
+      <Button
+        type="submit"
+        color="error"
+        size={size}
+        variant={variant}
+        disabled={isDeleting}
+        startIcon={
+          isDeleting ? <CircularProgress size={16} /> : <DeleteIcon />
+        }
+      >
+        Delete
+      </Button>
+    </fetcher.Form>
+  );
+}
@@ -0,0 +1,112 @@
+import { Box } from "@mui/material";
+import { splitRows, type DiffLine } from "../utils/diff";
+
+export type DiffLayout = "inline" | "split";
+
+const markers = { equal: " ", insert: "+", delete: "-" } as const;
+
+const backgrounds = {
+  equal: "transparent",
+  insert: "rgba(46, 160, 67, 0.15)",
+  delete: "rgba(248, 81, 73, 0.15)",
+} as const;
+
+const lineNumberSx = { color: "text.disabled", px: 1 } as const;
+const textSx = { whiteSpace: "pre-wrap", wordBreak: "break-word" } as const;
+
+function InlineRows({ lines }: { lines: DiffLine[] }) {
+  return lines.map((line, index) => (
+    <Box
+      key={index}
+      component="div"
+      sx={{
+        display: "grid",
+        gridTemplateColumns: "3.5em 3.5em 1.5em 1fr",
+        bgcolor: backgrounds[line.op],
+      }}
+    >
+      <Box component="span" sx={lineNumberSx}>
+        {line.oldLine ?? ""}
+      </Box>
+      <Box component="span" sx={lineNumberSx}>
+        {line.newLine ?? ""}
+      </Box>
+      <Box component="span" aria-hidden>
+        {markers[line.op]}
+      </Box>
+      <Box component="span" sx={textSx}>
+        {line.text || " "}
+      </Box>
+    </Box>
+  ));
+}
+
+function SplitCell({ line, side }: { line?: DiffLine; side: "old" | "new" }) {
+  const number = side === "old" ? line?.oldLine : line?.newLine;
+  return (
+    <>
+      <Box
+        component="span"
+        sx={{ ...lineNumberSx, bgcolor: line && backgrounds[line.op] }}
+      >
+        {number ?? ""}
+      </Box>
+      <Box
+        component="span"
+        sx={{
+          ...textSx,
+          pr: 1,
+          bgcolor: line ? backgrounds[line.op] : "action.hover",
+        }}
+      >
+        {line ? line.text || " " : ""}
+      </Box>
+    </>
+  );
+}
+
+/**
+ * Line-numbered rendering of a `diffLines` result, either as one unified
+ * column or with the old text on the left and the new text on the right.
+ */
+export default function DiffView({
+  lines,
+  layout = "inline",
+}: {
+  lines: DiffLine[];
+  layout?: DiffLayout;
+}) {
+  return (
+    <Box
+      component="pre"
+      sx={{
+        m: 0,
+        fontFamily: "monospace",
+        fontSize: "0.8125rem",
+        lineHeight: 1.6,
+        overflowX: "auto",
+        border: 1,
+        borderColor: "divider",
+        borderRadius: 1,
+      }}
+    >
+      {layout === "inline" ? (
+        <InlineRows lines={lines} />
+      ) : (
+        splitRows(lines).map((row, index) => (
+          <Box
+            key={index}
+            component="div"
+            sx={{
+              display: "grid",
+              gridTemplateColumns: "3.5em minmax(0, 1fr) 3.5em minmax(0, 1fr)",
+            }}
+          >
+            <SplitCell line={row.left} side="old" />
+            <SplitCell line={row.right} side="new" />
+          </Box>
+        ))
+      )}
+    </Box>
+  );
+}
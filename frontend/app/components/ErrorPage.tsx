@@ -0,0 +1,105 @@
+import { Link, useLocation, useNavigate, useRevalidator } from "react-router";
+import { Box, Button, Stack, Typography } from "@mui/material";
+import ArrowBackIcon from "@mui/icons-material/ArrowBack";
+import HomeIcon from "@mui/icons-material/Home";
+import LoginIcon from "@mui/icons-material/Login";
+import RefreshIcon from "@mui/icons-material/Refresh";
+import { describeRouteError } from "../utils/routeErrors";
+
+/**
+ * What route ErrorBoundaries render: the status, what it means for the
+ * reader and a way on. Errors that may pass (a crash, the backend being
+ * down) offer to try again; the rest offer to go back.
+ */
+export default function ErrorPage({ error }: { error: unknown }) {
+  const { kind, status, title, message, stack } = describeRouteError(error);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const revalidator = useRevalidator();
+  const canRetry = kind === "unavailable" || kind === "crash";
+  const loginSearch = new URLSearchParams({
+    redirectTo: `${location.pathname}${location.search}`,
+  });
+
+  return (
+    <Box sx={{ textAlign: "center", py: { xs: 6, md: 10 } }}>
+      <Typography
+        component="p"
+        sx={{
+          fontSize: { xs: 96, md: 144 },
+          fontWeight: 700,
+          lineHeight: 1,
+          color: "primary.main",
+        }}
+      >
+        {status}
+      </Typography>
+      <Typography variant="h4" component="h1" sx={{ mt: 2 }}>
+        {title}
+      </Typography>
+      <Typography
+        color="text.secondary"
+        sx={{ mt: 1, mx: "auto", maxWidth: 560 }}
+      >
+        {message}
+      </Typography>
+
+      <Stack
+        direction="row"
+        spacing={2}
+        justifyContent="center"
+        sx={{ mt: 4, flexWrap: "wrap" }}
+      >
+        {canRetry && (
+          <Button
+            variant="contained"
+            startIcon={<RefreshIcon />}
+            disabled={revalidator.state !== "idle"}
+            onClick={() => revalidator.revalidate()}
+          >
+            {revalidator.state !== "idle" ? "Retrying…" : "Try again"}
+          </Button>
+        )}
+        {kind === "unauthorized" && (
+          <Button
+            variant="contained"
+            component={Link}
+            to={`/login?${loginSearch}`}
+            startIcon={<LoginIcon />}
+          >
+            Sign in
+          </Button>
+        )}
+        <Button
+          variant={
+            canRetry || kind === "unauthorized" ? "outlined" : "contained"
+          }
+          startIcon={<ArrowBackIcon />}
+          onClick={() => navigate(-1)}
+        >
+          Go back
+        </Button>
+        <Button component={Link} to="/" startIcon={<HomeIcon />}>
+          Home
+        </Button>
+      </Stack>
+
+      {stack && (
+        <Box
+          component="pre"
+          sx={{
+            mt: 4,
+            p: 2,
+            textAlign: "left",
+            overflowX: "auto",
+            bgcolor: "action.hover",
+            borderRadius: 1,
+            fontSize: "0.8125rem",
+          }}
+        >
+          {stack}
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,19 @@
+import { IconButton, Tooltip } from "@mui/material";
+import RssFeedIcon from "@mui/icons-material/RssFeed";
+import { feedPath, type FeedFilters } from "../utils/feeds";
+
+/** Links to the RSS feed of what the page lists, for feed readers. */
+export default function FeedButton({ filters }: { filters?: FeedFilters }) {
+  return (
+    <Tooltip title="Subscribe (RSS)">
+      <IconButton
+        component="a"
+        href={feedPath("rss", filters)}
+        aria-label="Subscribe with RSS"
+        sx={{ color: "#f26522" }}
+      >
+        <RssFeedIcon />
+      </IconButton>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,31 @@
+import { Fragment } from "react";
+import { Box } from "@mui/material";
+import { HIGHLIGHT_END, HIGHLIGHT_START } from "../api/search";
+
+/**
+ * Renders search API text, wrapping the marked ranges in <mark>. The text is
+ * never parsed as HTML, so post content cannot inject markup.
+ */
+export default function Highlight({ text }: { text: string }) {
+  const parts = text.split(HIGHLIGHT_START);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        if (index === 0) return <Fragment key={index}>{part}</Fragment>;
+        const [match, rest = ""] = part.split(HIGHLIGHT_END);
+        return (
+          <Fragment key={index}>
+            <Box
+              component="mark"
+              sx={{ bgcolor: "warning.light", color: "inherit", px: 0.25 }}
+            >
+              {match}
+            </Box>
+            {rest}
+          </Fragment>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,127 @@
+import { Form, Link, NavLink, Outlet, useLocation } from "react-router";
+import {
+  AppBar,
+  Box,
+  Button,
+  Container,
+  Toolbar,
+  Typography,
+} from "@mui/material";
+import AddIcon from "@mui/icons-material/Add";
+import ColorModeToggle from "./ColorModeToggle";
+import { useOptionalUser } from "../hooks/useUser";
+import {
+  canManageUsers,
+  canModerateComments,
+  canWritePosts,
+  roleLabels,
+} from "../utils/permissions";
+
+const navItems = [
+  { to: "/", label: "Blog", end: true },
+  { to: "/search", label: "Search", end: false },
+];
+
+export default function Layout() {
+  const user = useOptionalUser();
+  const visibleNavItems = [
+    ...navItems,
+    ...(user ? [{ to: "/posts", label: "Dashboard", end: false }] : []),
+    ...(canWritePosts(user)
+      ? [{ to: "/media", label: "Media", end: false }]
+      : []),
+    ...(canModerateComments(user)
+      ? [{ to: "/admin/comments", label: "Comments", end: false }]
+      : []),
+    ...(canManageUsers(user)
+      ? [{ to: "/admin/users", label: "Users", end: false }]
+      : []),
+  ];
+  const location = useLocation();
+  const loginSearch = new URLSearchParams({
+    redirectTo: `${location.pathname}${location.search}`,
+  });
+
+  return (
+    <Box sx={{ display: "flex", flexDirection: "column", minHeight: "100vh" }}>
+      <AppBar position="sticky">
+        <Toolbar>
+          <Typography
+            variant="h6"
+            component={Link}
+            to="/"
+            sx={{ color: "inherit", textDecoration: "none", mr: 4 }}
+          >
+            Blog
+          </Typography>
+
+          <Box component="nav" sx={{ display: "flex", gap: 1, flexGrow: 1 }}>
+            {visibleNavItems.map((item) => (
+              <Button
+                key={item.to}
+                component={NavLink}
+                to={item.to}
+                end={item.end}
+                color="inherit"
+                sx={{
+                  opacity: 0.8,
+                  "&.active": { opacity: 1, fontWeight: 700 },
+                }}
+              >
+                {item.label}
+              </Button>
+            ))}
+          </Box>
+
+          <ColorModeToggle />
+
+          {user ? (
+            <Box sx={{ display: "flex", gap: 2, alignItems: "center" }}>
+              {canWritePosts(user) && (
+                <Button
+                  component={Link}
+                  to="/posts/new"
+                  variant="contained"
+                  color="secondary"
+                  startIcon={<AddIcon />}
+                >
+                  New Post
+                </Button>
+              )}
+              <Typography variant="body2">
+                {user.display_name} · {roleLabels[user.role]}
+              </Typography>
+              <Form method="post" action="/logout">
+                <Button type="submit" color="inherit">
+                  Sign out
+                </Button>
+              </Form>
+            </Box>
+          ) : (
+            <Box sx={{ display: "flex", gap: 1 }}>
+              <Button
+                component={Link}
+                to={`/login?${loginSearch}`}
+                color="inherit"
+              >
+                Sign in
+              </Button>
+              <Button
+                component={Link}
+                to={`/register?${loginSearch}`}
+                variant="contained"
+                color="secondary"
+              >
+                Register
+              </Button>
+            </Box>
+          )}
+        </Toolbar>
+      </AppBar>
+
+      <Container component="main" maxWidth="lg" sx={{ flexGrow: 1, py: 4 }}>
+        <Outlet />
+      </Container>
+    </Box>
+  );
+}
@@ -0,0 +1,70 @@
+import ReactMarkdown, { type Components } from "react-markdown";
+import { Box } from "@mui/material";
+import { rehypePlugins, remarkPlugins } from "../utils/markdown";
+
+// Posts may embed many large uploads; only fetch the ones scrolled to.
+const components: Components = {
+  img: ({ node: _node, ...props }) => (
+    <img {...props} loading="lazy" decoding="async" />
+  ),
+};
+
+/**
+ * Renders post Markdown. Works the same during SSR and in the browser, so the
+ * detail page and the editor preview produce identical markup. Code block
+ * colors come from the highlight.js stylesheet linked in root.tsx.
+ */
+export default function Markdown({ children }: { children: string }) {
+  return (
+    <Box
+      className="markdown-body"
+      sx={{
+        typography: "body1",
+        lineHeight: 1.8,
+        wordBreak: "break-word",
+        "& h1, & h2, & h3, & h4, & h5, & h6": {
+          lineHeight: 1.3,
+          mt: 4,
+          mb: 1.5,
+          scrollMarginTop: 80,
+        },
+        "& h1": { typography: "h4" },
+        "& h2": { typography: "h5" },
+        "& h3": { typography: "h6" },
+        "& a": { color: "primary.main" },
+        "& blockquote": {
+          borderLeft: 4,
+          borderColor: "divider",
+          color: "text.secondary",
+          m: 0,
+          pl: 2,
+        },
+        "& :not(pre) > code": {
+          bgcolor: "action.hover",
+          borderRadius: 1,
+          px: 0.5,
+          fontSize: "0.875em",
+        },
+        "& pre": {
+          bgcolor: "action.hover",
+          borderRadius: 1,
+          overflowX: "auto",
+          p: 2,
+          fontSize: "0.875rem",
+        },
+        "& pre code.hljs": { bgcolor: "transparent", p: 0 },
+        "& table": { borderCollapse: "collapse", width: "100%" },
+        "& th, & td": { border: 1, borderColor: "divider", px: 1, py: 0.5 },
+        "& img": { maxWidth: "100%", height: "auto", borderRadius: 1 },
+      }}
+    >
+      <ReactMarkdown
+        remarkPlugins={remarkPlugins}
+        rehypePlugins={rehypePlugins}
+        components={components}
+      >
+        {children}
+      </ReactMarkdown>
+    </Box>
+  );
+}
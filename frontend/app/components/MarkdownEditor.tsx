@@ -0,0 +1,211 @@
+import { useDeferredValue, useRef, useState } from "react";
+import { Link } from "react-router";
+import {
+  Alert,
+  Box,
+  Button,
+  Paper,
+  Tab,
+  Tabs,
+  TextField,
+  Typography,
+  useMediaQuery,
+  useTheme,
+} from "@mui/material";
+import ImageIcon from "@mui/icons-material/Image";
+import { UPLOAD_ACCEPT, mediaMarkdown, uploadFile } from "../utils/uploads";
+import Markdown from "./Markdown";
+
+interface MarkdownEditorProps {
+  name: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  error?: string;
+  maxLength?: number;
+  required?: boolean;
+  /** Lets files be dropped, pasted or picked to upload and embed. */
+  uploads?: boolean;
+}
+
+/**
+ * Split Markdown editor: source on the left, live preview on the right. On
+ * small screens the two panes become Write/Preview tabs. The textarea keeps
+ * its `name`, so the surrounding <Form> submits it like any other field.
+ *
+ * With `uploads`, files dropped or pasted onto the source are uploaded and
+ * embedded where the cursor is. A placeholder holds their place while they
+ * upload, so typing can go on meanwhile.
+ */
+export default function MarkdownEditor({
+  name,
+  label,
+  value,
+  onChange,
+  error,
+  maxLength,
+  required,
+  uploads,
+}: MarkdownEditorProps) {
+  const theme = useTheme();
+  const isWide = useMediaQuery(theme.breakpoints.up("md"));
+  const [tab, setTab] = useState<"write" | "preview">("write");
+  const preview = useDeferredValue(value);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [uploadErrors, setUploadErrors] = useState<string[]>([]);
+  // Uploads finish after the value has moved on; always edit the latest.
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  const replaceText = (search: string, replacement: string) => {
+    const current = valueRef.current;
+    const next = current.replace(search, replacement);
+    valueRef.current = next;
+    onChange(next);
+  };
+
+  const insertUploads = async (files: File[]) => {
+    if (files.length === 0) return;
+    const textarea = textareaRef.current;
+    const current = valueRef.current;
+    const start = textarea?.selectionStart ?? current.length;
+    const end = textarea?.selectionEnd ?? current.length;
+    const placeholders = files.map(
+      (file, index) => `![Uploading ${file.name} (${index + 1})…]()`
+    );
+    const inserted = placeholders.join("\n");
+    const next = current.slice(0, start) + inserted + current.slice(end);
+    valueRef.current = next;
+    onChange(next);
+    setUploadErrors([]);
+
+    await Promise.all(
+      files.map(async (file, index) => {
+        try {
+          replaceText(
+            placeholders[index],
+            mediaMarkdown(await uploadFile(file))
+          );
+        } catch (error) {
+          replaceText(placeholders[index], "");
+          const message =
+            error instanceof Error ? error.message : String(error);
+          setUploadErrors((prev) => [...prev, message]);
+        }
+      })
+    );
+  };
+
+  // Without this the browser would open a dragged file instead of dropping it.
+  const handleDragOver = (event: React.DragEvent) => {
+    if (event.dataTransfer.types.includes("Files")) event.preventDefault();
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length === 0) return;
+    event.preventDefault();
+    insertUploads(files);
+  };
+
+  const handlePaste = (event: React.ClipboardEvent) => {
+    const files = Array.from(event.clipboardData.files);
+    if (files.length === 0) return;
+    event.preventDefault();
+    insertUploads(files);
+  };
+
+  const showEditor = isWide || tab === "write";
+  const showPreview = isWide || tab === "preview";
+
+  return (
+    <Box>
+      {!isWide && (
+        <Tabs
+          value={tab}
+          onChange={(_, next) => setTab(next)}
+          sx={{ mb: 1 }}
+          aria-label={`${label} editor mode`}
+        >
+          <Tab value="write" label="Write" />
+          <Tab value="preview" label="Preview" />
+        </Tabs>
+      )}
+
+      <Box
+        sx={{
+          display: "grid",
+          gridTemplateColumns: isWide ? "1fr 1fr" : "1fr",
+          gap: 2,
+        }}
+      >
+        <Box sx={{ display: showEditor ? "block" : "none" }}>
+          <TextField
+            fullWidth
+            multiline
+            minRows={16}
+            label={label}
+            name={name}
+            value={value}
+            onChange={(event) => onChange(event.target.value)}
+            onDragOver={uploads ? handleDragOver : undefined}
+            onDrop={uploads ? handleDrop : undefined}
+            onPaste={uploads ? handlePaste : undefined}
+            error={!!error}
+            helperText={
+              error ||
+              (uploads
+                ? "Markdown supported. Drop or paste images to upload them."
+                : "Markdown supported")
+            }
+            inputRef={textareaRef}
+            inputProps={{
+              maxLength,
+              spellCheck: true,
+              style: { fontFamily: "monospace" },
+            }}
+            required={required}
+          />
+          {uploads && (
+            <Box sx={{ display: "flex", gap: 1, mt: 1 }}>
+              <Button size="small" component="label" startIcon={<ImageIcon />}>
+                Upload image
+                <input
+                  type="file"
+                  accept={UPLOAD_ACCEPT}
+                  multiple
+                  hidden
+                  onChange={(event) => {
+                    insertUploads(Array.from(event.target.files ?? []));
+                    event.target.value = "";
+                  }}
+                />
+              </Button>
+              <Button size="small" component={Link} to="/media" target="_blank">
+                Media library
+              </Button>
+            </Box>
+          )}
+          {uploadErrors.map((message) => (
+            <Alert key={message} severity="error" sx={{ mt: 1 }}>
+              {message}
+            </Alert>
+          ))}
+        </Box>
+
+        {showPreview && (
+          <Paper
+            variant="outlined"
+            sx={{ p: 2, minHeight: 200, overflow: "auto", maxHeight: 640 }}
+          >
+            {preview.trim() ? (
+              <Markdown>{preview}</Markdown>
+            ) : (
+              <Typography color="text.secondary">Nothing to preview</Typography>
+            )}
+          </Paper>
+        )}
+      </Box>
+    </Box>
+  );
+}
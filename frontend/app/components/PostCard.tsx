@@ -0,0 +1,91 @@
+import { Link, useLocation } from "react-router";
+import {
+  Box,
+  Button,
+  Card,
+  CardActions,
+  CardContent,
+  CardMedia,
+  Typography,
+} from "@mui/material";
+import EditIcon from "@mui/icons-material/Edit";
+import type { Post } from "../api/types";
+import { useOptionalUser } from "../hooks/useUser";
+import { postSummary } from "../utils/markdown";
+import { canModifyPost } from "../utils/permissions";
+import { blogPostPath } from "../utils/postUrls";
+import DeletePostButton from "./DeletePostButton";
+import PostStatusChip from "./PostStatusChip";
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+};
+
+export default function PostCard({ post }: { post: Post }) {
+  const location = useLocation();
+  const canModify = canModifyPost(useOptionalUser(), post);
+
+  return (
+    <Card sx={{ height: "100%", display: "flex", flexDirection: "column" }}>
+      {post.cover_image && (
+        <CardMedia
+          component="img"
+          image={post.cover_image}
+          alt=""
+          loading="lazy"
+          sx={{ height: 160, objectFit: "cover" }}
+        />
+      )}
+      <CardContent sx={{ flexGrow: 1 }}>
+        <Typography variant="h5" component="h2" gutterBottom>
+          {post.title}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          By {post.author} • {formatDate(post.created_at)}
+        </Typography>
+        <Typography
+          variant="body2"
+          sx={{
+            mt: 2,
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+            display: "-webkit-box",
+            WebkitLineClamp: 3,
+            WebkitBoxOrient: "vertical",
+          }}
+        >
+          {postSummary(post, 300)}
+        </Typography>
+        <Box sx={{ mt: 2 }}>
+          <PostStatusChip status={post.status} size="small" />
+        </Box>
+      </CardContent>
+      <CardActions>
+        <Button size="small" component={Link} to={blogPostPath(post)}>
+          Read More
+        </Button>
+        {canModify && (
+          <>
+            <Button
+              size="small"
+              component={Link}
+              to={`/posts/${post.id}/edit`}
+              startIcon={<EditIcon />}
+            >
+              Edit
+            </Button>
+            <DeletePostButton
+              postId={post.id}
+              size="small"
+              redirectTo={location.pathname + location.search}
+            />
+          </>
+        )}
+      </CardActions>
+    </Card>
+  );
+}
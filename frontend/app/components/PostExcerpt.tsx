@@ -0,0 +1,79 @@
+import { Link } from "react-router";
+import { Box, Button, Typography } from "@mui/material";
+import type { Post } from "../api/types";
+import { postSummary } from "../utils/markdown";
+import { authorPath, blogPostPath } from "../utils/postUrls";
+import PostTerms from "./PostTerms";
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+};
+
+/** A published post as listed on the public blog. */
+export default function PostExcerpt({ post }: { post: Post }) {
+  const publishedAt = post.publish_at ?? post.created_at;
+
+  return (
+    <Box component="article">
+      {post.cover_image && (
+        <Box
+          component={Link}
+          to={blogPostPath(post)}
+          tabIndex={-1}
+          aria-hidden="true"
+          sx={{ display: "block", mb: 2 }}
+        >
+          <Box
+            component="img"
+            src={post.cover_image}
+            alt=""
+            loading="lazy"
+            decoding="async"
+            sx={{
+              display: "block",
+              width: "100%",
+              aspectRatio: "2 / 1",
+              objectFit: "cover",
+              borderRadius: 1,
+            }}
+          />
+        </Box>
+      )}
+      <Typography variant="h4" component="h2" gutterBottom>
+        <Box
+          component={Link}
+          to={blogPostPath(post)}
+          sx={{
+            color: "inherit",
+            textDecoration: "none",
+            "&:hover": { textDecoration: "underline" },
+          }}
+        >
+          {post.title}
+        </Box>
+      </Typography>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        By{" "}
+        <Box
+          component={Link}
+          to={authorPath(post.author)}
+          sx={{ color: "inherit" }}
+        >
+          {post.author}
+        </Box>{" "}
+        • <time dateTime={publishedAt}>{formatDate(publishedAt)}</time>
+      </Typography>
+      <Typography variant="body1" sx={{ my: 1 }}>
+        {postSummary(post, 280)}
+      </Typography>
+      <PostTerms post={post} size="small" />
+      <Button component={Link} to={blogPostPath(post)} sx={{ mt: 1, px: 0 }}>
+        Continue reading
+      </Button>
+    </Box>
+  );
+}
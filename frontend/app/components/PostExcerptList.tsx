@@ -0,0 +1,51 @@
+import { useSearchParams } from "react-router";
+import { Alert, Divider, Stack } from "@mui/material";
+import type { PaginatedResponse, Post } from "../api/types";
+import Pagination from "./Pagination";
+import PostExcerpt from "./PostExcerpt";
+
+interface PostExcerptListProps {
+  posts: PaginatedResponse<Post>;
+  emptyMessage: string;
+}
+
+/** A page of published posts for the public blog, paged with `?page=`. */
+export default function PostExcerptList({
+  posts,
+  emptyMessage,
+}: PostExcerptListProps) {
+  const [, setSearchParams] = useSearchParams();
+  const totalPages = Math.ceil(posts.total / posts.per_page);
+
+  const handlePageChange = (page: number) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      next.set("page", String(page));
+      return next;
+    });
+  };
+
+  if (posts.data.length === 0) {
+    return <Alert severity="info">{emptyMessage}</Alert>;
+  }
+
+  return (
+    <>
+      <Stack spacing={4} divider={<Divider flexItem />}>
+        {posts.data.map((post) => (
+          <PostExcerpt key={post.id} post={post} />
+        ))}
+      </Stack>
+
+      {totalPages > 1 && (
+        <Pagination
+          currentPage={posts.page}
+          totalPages={totalPages}
+          totalItems={posts.total}
+          perPage={posts.per_page}
+          onPageChange={handlePageChange}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,117 @@
+import { Form, useSubmit } from "react-router";
+import { Box, Button, TextField } from "@mui/material";
+import FilterListIcon from "@mui/icons-material/FilterList";
+import type { FacetCount } from "../api/types";
+import { POST_STATUSES } from "../utils/postSchema";
+import { statusLabels } from "../utils/postStatus";
+import {
+  PER_PAGE_OPTIONS,
+  POST_SORTS,
+  type PostQuery,
+} from "../utils/postQuery";
+
+/**
+ * GET form for the posts index. Submitting drops `page`, so changing a filter
+ * always starts again from the first page. Selects submit on change when
+ * JavaScript is available; the Apply button covers the no-JS case.
+ */
+export default function PostFiltersBar({
+  query,
+  categories,
+}: {
+  query: PostQuery;
+  /** Categories of the posts the other filters leave, with their counts. */
+  categories: FacetCount[];
+}) {
+  const submit = useSubmit();
+
+  const submitOnChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const form = event.target.closest("form");
+    if (form) submit(form);
+  };
+
+  return (
+    <Box
+      component={Form}
+      method="get"
+      sx={{ display: "flex", flexWrap: "wrap", gap: 2, alignItems: "center" }}
+    >
+      <TextField
+        size="small"
+        label="Author"
+        name="author"
+        defaultValue={query.author ?? ""}
+      />
+      <TextField
+        select
+        size="small"
+        label="Status"
+        name="status"
+        defaultValue={query.status ?? ""}
+        onChange={submitOnChange}
+        SelectProps={{ native: true }}
+        sx={{ minWidth: 140 }}
+      >
+        <option value="">All</option>
+        {POST_STATUSES.map((status) => (
+          <option key={status} value={status}>
+            {statusLabels[status]}
+          </option>
+        ))}
+      </TextField>
+      <TextField
+        select
+        size="small"
+        label="Category"
+        name="category"
+        defaultValue={query.category ?? ""}
+        onChange={submitOnChange}
+        SelectProps={{ native: true }}
+        sx={{ minWidth: 170 }}
+      >
+        <option value="">All</option>
+        {categories.map((category) => (
+          <option key={category.slug} value={category.slug}>
+            {category.name} ({category.count})
+          </option>
+        ))}
+      </TextField>
+      {query.tag && <input type="hidden" name="tag" value={query.tag} />}
+      <TextField
+        select
+        size="small"
+        label="Sort"
+        name="sort"
+        defaultValue={query.sort ?? "newest"}
+        onChange={submitOnChange}
+        SelectProps={{ native: true }}
+        sx={{ minWidth: 170 }}
+      >
+        {POST_SORTS.map((sort) => (
+          <option key={sort.value} value={sort.value}>
+            {sort.label}
+          </option>
+        ))}
+      </TextField>
+      <TextField
+        select
+        size="small"
+        label="Per page"
+        name="per_page"
+        defaultValue={String(query.per_page)}
+        onChange={submitOnChange}
+        SelectProps={{ native: true }}
+        sx={{ minWidth: 100 }}
+      >
+        {PER_PAGE_OPTIONS.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </TextField>
+      <Button type="submit" variant="outlined" startIcon={<FilterListIcon />}>
+        Apply
+      </Button>
+    </Box>
+  );
+}
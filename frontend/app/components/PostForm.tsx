@@ -0,0 +1,541 @@
+import { useEffect, useMemo, useState } from "react";
+import { Form, Link, useNavigation, useSubmit } from "react-router";
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Grid,
+  TextField,
+} from "@mui/material";
+import SaveIcon from "@mui/icons-material/Save";
+import CancelIcon from "@mui/icons-material/Cancel";
+import {
+  MAX_TAGS,
+  POST_STATUSES,
+  postSchema,
+  splitTags,
+  validatePost,
+  type PostField,
+  type PostFieldErrors,
+  type PostValues,
+} from "../utils/postSchema";
+import type { Post } from "../api/types";
+import { useAutosave } from "../hooks/useAutosave";
+import { useOptionalUser } from "../hooks/useUser";
+import { mergeText } from "../utils/diff";
+import { canSetStatus } from "../utils/permissions";
+import { slugify } from "../utils/slug";
+import { statusLabels } from "../utils/postStatus";
+import AutosaveIndicator from "./AutosaveIndicator";
+import ConflictDialog, { type ConflictResolution } from "./ConflictDialog";
+import CoverImageField from "./CoverImageField";
+import MarkdownEditor from "./MarkdownEditor";
+import UnsavedChangesPrompt from "./UnsavedChangesPrompt";
+
+/** Shape returned by the create/edit actions when a submission is rejected. */
+export interface PostFormActionData {
+  values: PostValues;
+  errors: PostFieldErrors;
+  formError?: string;
+  /** The server's copy when the save was rejected as stale (409). */
+  conflict?: Post;
+}
+
+export const toPostValues = (post: Post): PostValues => ({
+  title: post.title,
+  slug: post.slug,
+  content: post.content,
+  author: post.author,
+  status: post.status,
+  publish_at: post.publish_at ?? "",
+  category: post.category?.name ?? "",
+  tags: post.tags.map((tag) => tag.name).join(","),
+  cover_image: post.cover_image ?? "",
+  excerpt: post.excerpt ?? "",
+});
+
+/**
+ * Field-by-field three-way merge: fields only one side touched take that
+ * side's value, content edited on both sides is merged line by line.
+ */
+function mergePostValues(
+  base: PostValues,
+  mine: PostValues,
+  theirs: PostValues
+) {
+  let conflicts = 0;
+  const pick = (field: PostField) => {
+    if (mine[field] === base[field]) return theirs[field];
+    if (theirs[field] === base[field]) return mine[field];
+    if (field === "content") {
+      const merged = mergeText(base.content, mine.content, theirs.content);
+      conflicts = merged.conflicts;
+      return merged.text;
+    }
+    return mine[field];
+  };
+  const values: PostValues = {
+    title: pick("title"),
+    slug: pick("slug"),
+    author: pick("author"),
+    status: pick("status") as PostValues["status"],
+    publish_at: pick("publish_at"),
+    category: pick("category"),
+    tags: pick("tags"),
+    cover_image: pick("cover_image"),
+    excerpt: pick("excerpt"),
+    content: pick("content"),
+  };
+  return { values, conflicts };
+}
+
+const noErrors: PostFieldErrors = {};
+
+/** ISO timestamp to the value a datetime-local input expects, in local time. */
+function toLocalInput(iso: string) {
+  const date = new Date(iso);
+  if (!iso || Number.isNaN(date.getTime())) return "";
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 16);
+}
+
+interface PostFormProps {
+  /** Values currently saved on the server (or blanks for a new post). */
+  initialValues: PostValues;
+  /** Values to show instead, e.g. a rejected submission coming back. */
+  submittedValues?: PostValues;
+  errors?: PostFieldErrors;
+  formError?: string;
+  conflict?: Post;
+  /** Version the edit is based on; sent back so stale saves get a 409. */
+  version?: number;
+  submitLabel: string;
+  cancelTo: string;
+  /** localStorage key for the autosaved copy of this form. */
+  draftKey: string;
+  /** Action accepting `intent=autosave`; omit to autosave locally only. */
+  autosaveAction?: string;
+  /** Existing names to suggest; new ones can be typed in. */
+  categoryOptions?: string[];
+  tagOptions?: string[];
+}
+
+export default function PostForm({
+  initialValues,
+  submittedValues,
+  errors: serverErrors = noErrors,
+  formError,
+  conflict,
+  version: initialVersion,
+  submitLabel,
+  cancelTo,
+  draftKey,
+  autosaveAction,
+  categoryOptions = [],
+  tagOptions = [],
+}: PostFormProps) {
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const user = useOptionalUser();
+  // Only offer statuses this user may move the post to from where it is now.
+  const statuses = POST_STATUSES.filter((status) =>
+    canSetStatus(user, initialValues.status, status)
+  );
+  const isSubmitting =
+    navigation.state === "submitting" && navigation.formMethod === "POST";
+  const [values, setValues] = useState<PostValues>(
+    submittedValues ?? initialValues
+  );
+  const [errors, setErrors] = useState<PostFieldErrors>(serverErrors);
+  // The slug follows the title until someone edits it by hand.
+  const [slugFollowsTitle, setSlugFollowsTitle] = useState(
+    () =>
+      !initialValues.slug || initialValues.slug === slugify(initialValues.title)
+  );
+  const [version, setVersion] = useState(initialVersion);
+  const [openConflict, setOpenConflict] = useState(conflict);
+  const [mergeConflicts, setMergeConflicts] = useState(0);
+  const versionField = useMemo(
+    () => (version === undefined ? undefined : { version: String(version) }),
+    [version]
+  );
+
+  // Autosaving to the server only ever writes drafts; switching the status
+  // to published waits for an explicit save.
+  const autosave = useAutosave({
+    storageKey: draftKey,
+    values,
+    initialValues,
+    remoteAction: values.status === "draft" ? autosaveAction : undefined,
+    extraFields: versionField,
+  });
+
+  const {
+    clear: clearDraft,
+    saveNow: saveDraft,
+    markSaved,
+    lastResult,
+  } = autosave;
+
+  useEffect(() => {
+    if (lastResult?.ok && lastResult.version !== undefined) {
+      setVersion(lastResult.version);
+    }
+  }, [lastResult]);
+
+  useEffect(() => {
+    setOpenConflict(conflict);
+  }, [conflict]);
+
+  useEffect(() => {
+    setErrors(serverErrors);
+  }, [serverErrors]);
+
+  // The local copy is dropped on submit; put it back if the submission was
+  // rejected so a closed tab cannot lose the edits.
+  useEffect(() => {
+    if (formError || Object.keys(serverErrors).length > 0) saveDraft();
+  }, [serverErrors, formError]);
+
+  const setField = (name: PostField, value: string) => {
+    setValues((prev) => ({ ...prev, [name]: value }));
+    if (errors[name]) {
+      setErrors((prev) => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setField(event.target.name as PostField, event.target.value);
+  };
+
+  const handleTitleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setField("title", event.target.value);
+    if (slugFollowsTitle && values.slug) {
+      setField("slug", slugify(event.target.value));
+    }
+  };
+
+  const handleSlugChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setField("slug", event.target.value);
+    setSlugFollowsTitle(event.target.value === "");
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    const result = validatePost(new FormData(event.currentTarget));
+    if (!result.success) {
+      event.preventDefault();
+      setErrors(result.errors);
+      return;
+    }
+    clearDraft();
+  };
+
+  const handleConflict = (resolution: ConflictResolution) => {
+    if (!openConflict) return;
+    const base = autosave.savedValues;
+    const theirs = toPostValues(openConflict);
+    setVersion(openConflict.version);
+    markSaved(theirs);
+    setOpenConflict(undefined);
+
+    if (resolution === "mine") {
+      submit(
+        { ...values, version: String(openConflict.version) },
+        { method: "post" }
+      );
+    } else if (resolution === "theirs") {
+      setValues(theirs);
+    } else {
+      const merged = mergePostValues(base, values, theirs);
+      setValues(merged.values);
+      setMergeConflicts(merged.conflicts);
+    }
+  };
+
+  const handleRestore = () => {
+    const restored = autosave.restore();
+    // Copies saved before a field existed leave it as it is.
+    if (restored) setValues((prev) => ({ ...prev, ...restored }));
+  };
+
+  return (
+    <Form method="post" noValidate onSubmit={handleSubmit}>
+      {version !== undefined && (
+        <input type="hidden" name="version" value={version} />
+      )}
+
+      {openConflict && (
+        <ConflictDialog
+          open
+          mine={values}
+          theirs={toPostValues(openConflict)}
+          updatedAt={openConflict.updated_at}
+          onResolve={handleConflict}
+          onClose={() => setOpenConflict(undefined)}
+        />
+      )}
+      <UnsavedChangesPrompt
+        when={autosave.isDirty && navigation.state === "idle"}
+      />
+
+      {autosave.restorable && (
+        <Alert
+          severity="info"
+          sx={{ mb: 2 }}
+          action={
+            <>
+              <Button color="inherit" size="small" onClick={handleRestore}>
+                Restore
+              </Button>
+              <Button color="inherit" size="small" onClick={autosave.discard}>
+                Discard
+              </Button>
+            </>
+          }
+        >
+          You have unsaved changes from{" "}
+          {new Date(autosave.restorable.savedAt).toLocaleString("en-US")}.
+        </Alert>
+      )}
+
+      {mergeConflicts > 0 && (
+        <Alert
+          severity="warning"
+          sx={{ mb: 2 }}
+          onClose={() => setMergeConflicts(0)}
+        >
+          {mergeConflicts === 1
+            ? "One part of the content"
+            : `${mergeConflicts} parts of the content`}{" "}
+          changed on both sides. Resolve the sections between the{" "}
+          <code>{"<<<<<<<"}</code> and <code>{">>>>>>>"}</code> markers before
+          saving.
+        </Alert>
+      )}
+
+      {formError && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {formError}
+        </Alert>
+      )}
+
+      <Grid container spacing={3}>
+        <Grid item xs={12}>
+          <TextField
+            fullWidth
+            label="Title"
+            name="title"
+            value={values.title}
+            onChange={handleTitleChange}
+            inputProps={{ maxLength: postSchema.title.maxLength }}
+            error={!!errors.title}
+            helperText={errors.title}
+            required
+          />
+        </Grid>
+
+        <Grid item xs={12}>
+          <TextField
+            fullWidth
+            label="Slug"
+            name="slug"
+            value={values.slug}
+            onChange={handleSlugChange}
+            placeholder={slugify(values.title)}
+            inputProps={{ maxLength: postSchema.slug.maxLength }}
+            InputLabelProps={{ shrink: true }}
+            error={!!errors.slug}
+            helperText={
+              errors.slug ?? `/blog/${values.slug || slugify(values.title)}`
+            }
+          />
+        </Grid>
+
+        <Grid item xs={12} sm={6}>
+          <TextField
+            fullWidth
+            label="Author"
+            name="author"
+            value={values.author}
+            InputProps={{ readOnly: true }}
+            error={!!errors.author}
+            helperText={
+              errors.author ??
+              "Posts are credited to the account that owns them"
+            }
+          />
+        </Grid>
+
+        <Grid item xs={12} sm={6}>
+          <TextField
+            select
+            fullWidth
+            label="Status"
+            name="status"
+            value={values.status}
+            onChange={handleChange}
+            error={!!errors.status}
+            helperText={errors.status}
+            SelectProps={{ native: true }}
+          >
+            {statuses.map((status) => (
+              <option key={status} value={status}>
+                {statusLabels[status]}
+              </option>
+            ))}
+          </TextField>
+        </Grid>
+
+        {values.status === "scheduled" && (
+          <Grid item xs={12} sm={6}>
+            <TextField
+              fullWidth
+              type="datetime-local"
+              label="Publish at"
+              value={toLocalInput(values.publish_at)}
+              onChange={(event) =>
+                setField(
+                  "publish_at",
+                  event.target.value
+                    ? new Date(event.target.value).toISOString()
+                    : ""
+                )
+              }
+              InputLabelProps={{ shrink: true }}
+              error={!!errors.publish_at}
+              helperText={
+                errors.publish_at ?? "The post goes live automatically then"
+              }
+              required
+            />
+          </Grid>
+        )}
+        <input type="hidden" name="publish_at" value={values.publish_at} />
+
+        <Grid item xs={12} sm={4}>
+          <Autocomplete
+            freeSolo
+            options={categoryOptions}
+            inputValue={values.category}
+            onInputChange={(_, value) => setField("category", value)}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label="Category"
+                inputProps={{
+                  ...params.inputProps,
+                  maxLength: postSchema.category.maxLength,
+                }}
+                error={!!errors.category}
+                helperText={errors.category ?? "Pick one or type a new one"}
+              />
+            )}
+          />
+          <input type="hidden" name="category" value={values.category} />
+        </Grid>
+
+        <Grid item xs={12} sm={8}>
+          <Autocomplete
+            multiple
+            freeSolo
+            filterSelectedOptions
+            options={tagOptions}
+            value={splitTags(values.tags)}
+            // Tags are kept comma-joined, so "a, b" typed in becomes two tags.
+            onChange={(_, tags) => setField("tags", tags.join(","))}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label="Tags"
+                error={!!errors.tags}
+                helperText={
+                  errors.tags ??
+                  `Up to ${MAX_TAGS}; press Enter to add a new one`
+                }
+              />
+            )}
+          />
+          <input type="hidden" name="tags" value={values.tags} />
+        </Grid>
+
+        <Grid item xs={12}>
+          <CoverImageField
+            name="cover_image"
+            value={values.cover_image}
+            onChange={(value) => setField("cover_image", value)}
+            maxLength={postSchema.cover_image.maxLength}
+            error={errors.cover_image}
+          />
+        </Grid>
+
+        <Grid item xs={12}>
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Excerpt"
+            name="excerpt"
+            value={values.excerpt}
+            onChange={handleChange}
+            inputProps={{ maxLength: postSchema.excerpt.maxLength }}
+            error={!!errors.excerpt}
+            helperText={
+              errors.excerpt ??
+              `${[...values.excerpt].length}/${postSchema.excerpt.maxLength} • Summary for post cards, feeds and link previews; left empty, the start of the content is used`
+            }
+          />
+        </Grid>
+
+        <Grid item xs={12}>
+          <MarkdownEditor
+            label="Content"
+            name="content"
+            value={values.content}
+            onChange={(value) => setField("content", value)}
+            maxLength={postSchema.content.maxLength}
+            error={errors.content}
+            required
+            uploads
+          />
+        </Grid>
+
+        <Grid item xs={12}>
+          <Box
+            sx={{
+              display: "flex",
+              gap: 2,
+              alignItems: "center",
+              justifyContent: "flex-end",
+              flexWrap: "wrap",
+            }}
+          >
+            <Box sx={{ mr: "auto" }}>
+              <AutosaveIndicator
+                status={autosave.status}
+                lastSavedAt={autosave.lastSavedAt}
+                error={autosave.error}
+              />
+            </Box>
+            <Button
+              component={Link}
+              to={cancelTo}
+              variant="outlined"
+              startIcon={<CancelIcon />}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="contained"
+              startIcon={<SaveIcon />}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? "Saving..." : submitLabel}
+            </Button>
+          </Box>
+        </Grid>
+      </Grid>
+    </Form>
+  );
+}
@@ -0,0 +1,19 @@
+import { Chip, type ChipProps } from "@mui/material";
+import type { PostStatus } from "../api/types";
+import { statusColors, statusLabels } from "../utils/postStatus";
+
+export default function PostStatusChip({
+  status,
+  size,
+}: {
+  status: PostStatus;
+  size?: ChipProps["size"];
+}) {
+  return (
+    <Chip
+      label={statusLabels[status]}
+      color={statusColors[status]}
+      size={size}
+    />
+  );
+}
@@ -0,0 +1,43 @@
+import { Link } from "react-router";
+import { Box, Chip } from "@mui/material";
+import LocalOfferOutlinedIcon from "@mui/icons-material/LocalOfferOutlined";
+import type { Post } from "../api/types";
+import { categoryPath, tagPath } from "../utils/postUrls";
+
+/** A post's category and tags as chips linking to their listings. */
+export default function PostTerms({
+  post,
+  size = "medium",
+}: {
+  post: Pick<Post, "category" | "tags">;
+  size?: "small" | "medium";
+}) {
+  if (!post.category && post.tags.length === 0) return null;
+
+  return (
+    <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1 }}>
+      {post.category && (
+        <Chip
+          component={Link}
+          to={categoryPath(post.category)}
+          clickable
+          label={post.category.name}
+          color="primary"
+          size={size}
+        />
+      )}
+      {post.tags.map((tag) => (
+        <Chip
+          key={tag.slug}
+          component={Link}
+          to={tagPath(tag)}
+          clickable
+          icon={<LocalOfferOutlinedIcon />}
+          label={tag.name}
+          variant="outlined"
+          size={size}
+        />
+      ))}
+    </Box>
+  );
+}
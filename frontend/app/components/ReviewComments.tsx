@@ -0,0 +1,90 @@
+import { useEffect, useRef } from "react";
+import { useFetcher } from "react-router";
+import {
+  Alert,
+  Box,
+  Button,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography,
+} from "@mui/material";
+import type { ReviewComment } from "../api/types";
+
+export interface ReviewCommentActionData {
+  error: string | null;
+}
+
+interface ReviewCommentsProps {
+  comments: ReviewComment[];
+  /** The route whose action creates comments for `intent=review`. */
+  action: string;
+}
+
+/** Internal notes between a post's author and its editors. */
+export default function ReviewComments({
+  comments,
+  action,
+}: ReviewCommentsProps) {
+  const fetcher = useFetcher<ReviewCommentActionData>();
+  const formRef = useRef<HTMLFormElement>(null);
+  const submitting = fetcher.state !== "idle";
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.error === null) {
+      formRef.current?.reset();
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  return (
+    <Box>
+      <Typography variant="h6" component="h2" gutterBottom>
+        Review comments
+      </Typography>
+
+      {comments.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No comments yet. Only the author and editors see these.
+        </Typography>
+      ) : (
+        <List disablePadding>
+          {comments.map((comment) => (
+            <ListItem key={comment.id} divider alignItems="flex-start">
+              <ListItemText
+                primary={comment.body}
+                primaryTypographyProps={{ sx: { whiteSpace: "pre-wrap" } }}
+                secondary={`${comment.author_name} • ${new Date(
+                  comment.created_at
+                ).toLocaleString("en-US")}`}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      <fetcher.Form method="post" action={action} ref={formRef}>
+        <input type="hidden" name="intent" value="review" />
+        {fetcher.data?.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {fetcher.data.error}
+          </Alert>
+        )}
+        <TextField
+          name="body"
+          label="Add a comment"
+          fullWidth
+          multiline
+          minRows={2}
+          required
+          sx={{ mt: 2 }}
+        />
+        <Box sx={{ display: "flex", justifyContent: "flex-end", mt: 1 }}>
+          <Button type="submit" variant="contained" disabled={submitting}>
+            {submitting ? "Posting..." : "Comment"}
+          </Button>
+        </Box>
+      </fetcher.Form>
+    </Box>
+  );
+}
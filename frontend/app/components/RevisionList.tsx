@@ -0,0 +1,110 @@
+import { Form, Link, useNavigation } from "react-router";
+import {
+  Box,
+  Button,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from "@mui/material";
+import RestoreIcon from "@mui/icons-material/Restore";
+import type { PostRevisionSummary } from "../api/types";
+
+interface RevisionListProps {
+  revisions: PostRevisionSummary[];
+  /** The post's current version; its revision cannot be restored. */
+  currentVersion: number;
+  /** Builds the link that compares a revision with the current one. */
+  compareTo: (version: number) => string;
+  canRestore: boolean;
+}
+
+/** Newest-first list of a post's revisions with compare and restore actions. */
+export default function RevisionList({
+  revisions,
+  currentVersion,
+  compareTo,
+  canRestore,
+}: RevisionListProps) {
+  const navigation = useNavigation();
+  const restoring =
+    navigation.state === "submitting"
+      ? navigation.formData?.get("revision")
+      : null;
+
+  return (
+    <List disablePadding>
+      {revisions.map((revision) => {
+        const isCurrent = revision.version === currentVersion;
+        return (
+          <ListItem key={revision.id} divider alignItems="flex-start">
+            <ListItemText
+              primary={
+                <Box sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+                  <Typography variant="subtitle2" component="span">
+                    Version {revision.version}
+                  </Typography>
+                  {isCurrent && (
+                    <Chip label="Current" size="small" color="primary" />
+                  )}
+                </Box>
+              }
+              secondary={
+                <>
+                  {new Date(revision.created_at).toLocaleString("en-US")} •{" "}
+                  {revision.edited_by}
+                  <br />
+                  {revision.restored_from !== null
+                    ? `Restored version ${revision.restored_from}`
+                    : revision.changed_fields.length > 0
+                      ? `Changed ${revision.changed_fields.join(", ")}`
+                      : "No changes"}
+                </>
+              }
+            />
+            {!isCurrent && (
+              <Box sx={{ display: "flex", flexDirection: "column", gap: 0.5 }}>
+                <Button component={Link} to={compareTo(revision.version)}>
+                  Compare
+                </Button>
+                {canRestore && (
+                  <Form
+                    method="post"
+                    onSubmit={(event) => {
+                      if (
+                        !confirm(
+                          `Restore version ${revision.version}? It will be saved as a new version.`
+                        )
+                      ) {
+                        event.preventDefault();
+                      }
+                    }}
+                  >
+                    <input
+                      type="hidden"
+                      name="revision"
+                      value={revision.version}
+                    />
+                    <input
+                      type="hidden"
+                      name="version"
+                      value={currentVersion}
+                    />
+                    <Button
+                      type="submit"
+                      startIcon={<RestoreIcon />}
+                      disabled={restoring === String(revision.version)}
+                    >
+                      Restore
+                    </Button>
+                  </Form>
+                )}
+              </Box>
+            )}
+          </ListItem>
+        );
+      })}
+    </List>
+  );
+}
@@ -0,0 +1,35 @@
+import { Form } from "react-router";
+import { IconButton, InputAdornment, TextField } from "@mui/material";
+import SearchIcon from "@mui/icons-material/Search";
+
+interface SearchBoxProps {
+  defaultValue?: string;
+  autoFocus?: boolean;
+}
+
+/** Plain GET form to /search, so the query always ends up in the URL. */
+export default function SearchBox({ defaultValue, autoFocus }: SearchBoxProps) {
+  return (
+    <Form method="get" action="/search" role="search">
+      <TextField
+        name="q"
+        type="search"
+        size="small"
+        placeholder="Search posts…"
+        defaultValue={defaultValue}
+        autoFocus={autoFocus}
+        inputProps={{ "aria-label": "Search posts" }}
+        InputProps={{
+          endAdornment: (
+            <InputAdornment position="end">
+              <IconButton type="submit" edge="end" aria-label="Search">
+                <SearchIcon />
+              </IconButton>
+            </InputAdornment>
+          ),
+        }}
+        fullWidth
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,32 @@
+import { Box, Link, Typography } from "@mui/material";
+import type { TocEntry } from "../utils/markdown";
+
+export default function TableOfContents({ entries }: { entries: TocEntry[] }) {
+  const minDepth = Math.min(...entries.map((entry) => entry.depth));
+
+  return (
+    <Box component="nav" aria-labelledby="toc-heading">
+      <Typography
+        id="toc-heading"
+        variant="overline"
+        color="text.secondary"
+        component="h2"
+      >
+        Contents
+      </Typography>
+      <Box component="ul" sx={{ listStyle: "none", m: 0, p: 0 }}>
+        {entries.map((entry) => (
+          <Box
+            component="li"
+            key={entry.id}
+            sx={{ pl: (entry.depth - minDepth) * 2, py: 0.25 }}
+          >
+            <Link href={`#${entry.id}`} underline="hover" variant="body2">
+              {entry.text}
+            </Link>
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  );
+}
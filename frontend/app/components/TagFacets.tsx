@@ -0,0 +1,50 @@
+import { Link, useSearchParams } from "react-router";
+import { Box, Chip } from "@mui/material";
+import type { FacetCount } from "../api/types";
+
+/**
+ * The most used tags among the listed posts. Picking one narrows the list to
+ * it and picking it again clears it; either way the list restarts at page 1.
+ */
+export default function TagFacets({
+  tags,
+  selected,
+}: {
+  tags: FacetCount[];
+  selected?: string;
+}) {
+  const [searchParams] = useSearchParams();
+  if (tags.length === 0) return null;
+
+  const toggle = (slug: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.delete("page");
+    if (slug === selected) {
+      next.delete("tag");
+    } else {
+      next.set("tag", slug);
+    }
+    return `?${next}`;
+  };
+
+  return (
+    <Box
+      component="nav"
+      aria-label="Tags"
+      sx={{ display: "flex", flexWrap: "wrap", gap: 1, mt: 2 }}
+    >
+      {tags.map((tag) => (
+        <Chip
+          key={tag.slug}
+          component={Link}
+          to={toggle(tag.slug)}
+          clickable
+          size="small"
+          label={`${tag.name} (${tag.count})`}
+          color={tag.slug === selected ? "primary" : "default"}
+          variant={tag.slug === selected ? "filled" : "outlined"}
+        />
+      ))}
+    </Box>
+  );
+}
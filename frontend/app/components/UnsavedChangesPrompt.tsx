@@ -0,0 +1,58 @@
+import { useEffect } from "react";
+import { useBlocker } from "react-router";
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+} from "@mui/material";
+
+/**
+ * Asks before leaving a page with unsaved changes: a dialog for in-app
+ * navigation and the browser's own prompt for reloads and closing the tab.
+ */
+export default function UnsavedChangesPrompt({ when }: { when: boolean }) {
+  const blocker = useBlocker(
+    ({ currentLocation, nextLocation }) =>
+      when && currentLocation.pathname !== nextLocation.pathname
+  );
+
+  useEffect(() => {
+    if (!when) return;
+    const handler = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handler);
+    return () => window.removeEventListener("beforeunload", handler);
+  }, [when]);
+
+  useEffect(() => {
+    if (blocker.state === "blocked" && !when) {
+      blocker.reset();
+    }
+  }, [blocker, when]);
+
+  return (
+    <Dialog
+      open={blocker.state === "blocked"}
+      onClose={() => blocker.reset?.()}
+    >
+      <DialogTitle>Leave without saving?</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          You have changes that have not been saved to the server. A copy is
+          kept on this device and will be offered again when you come back.
+        </DialogContentText>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => blocker.reset?.()}>Stay</Button>
+        <Button color="error" onClick={() => blocker.proceed?.()}>
+          Leave
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -1,12 +1,21 @@
 import { startTransition, StrictMode } from "react";
 import { hydrateRoot } from "react-dom/client";
 import { HydratedRouter } from "react-router/dom";
+import { CacheProvider } from "@emotion/react";
+import createEmotionCache from "./utils/createEmotionCache";
+
+// Created before hydrating: the cache adopts the <style> tags the server
+// inlined, moving them to the end of <head> where React leaves them alone,
+// and skips re-inserting the rules they already hold.
+const emotionCache = createEmotionCache();
 
 startTransition(() => {
   hydrateRoot(
     document,
     <StrictMode>
-      <HydratedRouter />
+      <CacheProvider value={emotionCache}>
+        <HydratedRouter />
+      </CacheProvider>
     </StrictMode>
   );
 });
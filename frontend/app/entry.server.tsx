@@ -1,8 +1,26 @@
-import { PassThrough } from "node:stream";
-import type { EntryContext } from "react-router";
+import type {
+  EntryContext,
+  HandleDataRequestFunction,
+  HandleErrorFunction,
+} from "react-router";
 import { createReadableStreamFromReadable } from "@react-router/node";
 import { ServerRouter } from "react-router";
 import { renderToPipeableStream } from "react-dom/server";
+import { CacheProvider } from "@emotion/react";
+import { isbot } from "isbot";
+import createEmotionCache from "./utils/createEmotionCache";
+import { EmotionStyleInliner } from "./utils/emotionStyles.server";
+import {
+  addRequestHeaders,
+  errorFields,
+  log,
+  requestInstrumentation,
+  startTimer,
+} from "./requestContext.server";
+
+export const streamTimeout = 10000;
+
+export const unstable_instrumentations = [requestInstrumentation];
 
 export default function handleRequest(
   request: Request,
@@ -10,13 +28,38 @@ export default function handleRequest(
   responseHeaders: Headers,
   routerContext: EntryContext
 ) {
+  // Crawlers get the finished page in one piece rather than streamed. So
+  // does a document POST: a <Form> submitted without JavaScript whose action
+  // returned data (e.g. validation errors) instead of redirecting.
+  const readyOption =
+    isbot(request.headers.get("User-Agent")) ||
+    (request.method !== "GET" && request.method !== "HEAD")
+      ? "onAllReady"
+      : "onShellReady";
+
+  // A cache per request: Emotion only emits a rule the first time a cache
+  // sees it, so a shared one would leave every later page without its CSS.
+  const emotionCache = createEmotionCache();
+  emotionCache.compat = true;
+
+  const stopRenderTimer = startTimer();
+
   return new Promise((resolve, reject) => {
+    let shellRendered = false;
     const { pipe, abort } = renderToPipeableStream(
-      <ServerRouter context={routerContext} url={request.url} />,
+      <CacheProvider value={emotionCache}>
+        <ServerRouter context={routerContext} url={request.url} />
+      </CacheProvider>,
       {
-        onShellReady() {
+        [readyOption]() {
+          shellRendered = true;
           responseHeaders.set("Content-Type", "text/html");
-          const body = new PassThrough();
+          stopRenderTimer(
+            "render",
+            readyOption === "onShellReady" ? "shell" : "page"
+          );
+          addRequestHeaders(responseHeaders, responseStatusCode);
+          const body = new EmotionStyleInliner(emotionCache);
           const stream = createReadableStreamFromReadable(body);
 
           resolve(
@@ -31,9 +74,29 @@ export default function handleRequest(
         onShellError(error: unknown) {
           reject(error);
         },
+        onError(error: unknown) {
+          responseStatusCode = 500;
+          // Errors before the shell are reported through onShellError.
+          if (shellRendered) {
+            log("error", "render failed", errorFields(error));
+          }
+        },
       }
     );
 
-    setTimeout(abort, 10000);
+    setTimeout(abort, streamTimeout + 1000);
   });
 }
+
+/** `.data` requests made by client-side navigations and fetchers. */
+export const handleDataRequest: HandleDataRequestFunction = (response) => {
+  addRequestHeaders(response.headers, response.status);
+  return response;
+};
+
+/** Errors thrown by loaders, actions and rendering, logged with their request. */
+export const handleError: HandleErrorFunction = (error, { request }) => {
+  // Aborted requests (the reader navigated away) are not failures.
+  if (request.signal.aborted) return;
+  log("error", "unhandled error", errorFields(error));
+};
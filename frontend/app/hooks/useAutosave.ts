@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useFetcher } from "react-router";
+
+export type AutosaveStatus =
+  | "idle"
+  | "unsaved"
+  | "saving"
+  | "saved"
+  | "local"
+  | "offline"
+  | "error";
+
+/** What the route action returns for an `intent=autosave` submission. */
+export type AutosaveResult =
+  | { ok: true; savedAt: string; version?: number }
+  | { ok: false; error: string };
+
+export interface StoredDraft<T> {
+  values: T;
+  savedAt: string;
+}
+
+const LOCAL_DELAY = 500;
+const REMOTE_DELAY = 2000;
+
+function sameValues<T extends { [K in keyof T]: string }>(a: T, b: T) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof T)[]);
+  for (const key of keys) {
+    if (a[key] !== b[key]) return false;
+  }
+  return true;
+}
+
+function readDraft<T>(key: string): StoredDraft<T> | null {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as StoredDraft<T>) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeDraft<T>(key: string, values: T) {
+  try {
+    const draft: StoredDraft<T> = { values, savedAt: new Date().toISOString() };
+    window.localStorage.setItem(key, JSON.stringify(draft));
+    return true;
+  } catch {
+    // Private mode or a full quota; the remote save still covers us.
+    return false;
+  }
+}
+
+function removeDraft(key: string) {
+  try {
+    window.localStorage.removeItem(key);
+  } catch {
+    // Nothing to clean up if storage is unavailable.
+  }
+}
+
+interface UseAutosaveOptions<T extends { [K in keyof T]: string }> {
+  /** localStorage key; one per post (or one for the "new post" form). */
+  storageKey: string;
+  values: T;
+  /** The values last known to be saved on the server. */
+  initialValues: T;
+  /**
+   * Route action that accepts `intent=autosave`. Leave undefined to keep
+   * autosaves on this device only, e.g. before the post exists.
+   */
+  remoteAction?: string;
+  /** Sent along with every remote autosave but not tracked as form values. */
+  extraFields?: Record<string, string>;
+}
+
+/**
+ * Debounced autosave for the post editor. Every change is written to
+ * localStorage; when `remoteAction` is set it is also submitted to the server
+ * through a fetcher. On mount, a local copy that differs from the server
+ * values is offered back through `restorable`.
+ */
+export function useAutosave<T extends { [K in keyof T]: string }>({
+  storageKey,
+  values,
+  initialValues,
+  remoteAction,
+  extraFields,
+}: UseAutosaveOptions<T>) {
+  const fetcher = useFetcher<AutosaveResult>();
+  const [baseline, setBaseline] = useState(initialValues);
+  const [restorable, setRestorable] = useState<StoredDraft<T> | null>(null);
+  const [online, setOnline] = useState(true);
+  const [localSavedAt, setLocalSavedAt] = useState<string | null>(null);
+  const submitted = useRef<T | null>(null);
+  // Stays true until the user has answered the restore prompt, so the stored
+  // copy is not overwritten by the values the page loaded with.
+  const awaitingRestore = useRef(true);
+
+  const isDirty = !sameValues(values, baseline);
+
+  useEffect(() => {
+    const stored = readDraft<T>(storageKey);
+    if (stored && !sameValues(stored.values, initialValues)) {
+      setRestorable(stored);
+    } else {
+      awaitingRestore.current = false;
+      if (stored) removeDraft(storageKey);
+    }
+    // Only on mount: later changes are our own writes.
+  }, [storageKey]);
+
+  useEffect(() => {
+    setOnline(navigator.onLine);
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (awaitingRestore.current) return;
+    if (!isDirty) {
+      removeDraft(storageKey);
+      setLocalSavedAt(null);
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      if (writeDraft(storageKey, values)) {
+        setLocalSavedAt(new Date().toISOString());
+      }
+    }, LOCAL_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [storageKey, values, isDirty]);
+
+  const { submit } = fetcher;
+  useEffect(() => {
+    if (!remoteAction || !isDirty || !online || awaitingRestore.current) {
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      submitted.current = values;
+      submit(
+        { ...values, ...extraFields, intent: "autosave" },
+        { method: "post", action: remoteAction }
+      );
+    }, REMOTE_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [remoteAction, extraFields, values, isDirty, online, submit]);
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data?.ok || !submitted.current) {
+      return;
+    }
+    setBaseline(submitted.current);
+    submitted.current = null;
+  }, [fetcher.state, fetcher.data]);
+
+  const restore = useCallback(() => {
+    awaitingRestore.current = false;
+    const draft = restorable;
+    setRestorable(null);
+    return draft?.values ?? null;
+  }, [restorable]);
+
+  const discard = useCallback(() => {
+    awaitingRestore.current = false;
+    setRestorable(null);
+    removeDraft(storageKey);
+  }, [storageKey]);
+
+  /** Forget the local copy, e.g. once the form has been submitted. */
+  const clear = useCallback(() => removeDraft(storageKey), [storageKey]);
+
+  /** Record `saved` as what the server now holds, e.g. after a conflict. */
+  const markSaved = useCallback((saved: T) => setBaseline(saved), []);
+
+  /** Write the local copy right away, skipping the debounce. */
+  const saveNow = useCallback(() => {
+    if (isDirty && writeDraft(storageKey, values)) {
+      setLocalSavedAt(new Date().toISOString());
+    }
+  }, [isDirty, storageKey, values]);
+
+  let status: AutosaveStatus = "idle";
+  if (fetcher.state !== "idle") {
+    status = "saving";
+  } else if (!online && isDirty) {
+    status = "offline";
+  } else if (fetcher.data && !fetcher.data.ok && isDirty) {
+    status = "error";
+  } else if (isDirty) {
+    status = remoteAction ? "unsaved" : localSavedAt ? "local" : "unsaved";
+  } else if (fetcher.data?.ok) {
+    status = "saved";
+  }
+
+  return {
+    status,
+    isDirty,
+    restorable,
+    restore,
+    discard,
+    clear,
+    saveNow,
+    markSaved,
+    savedValues: baseline,
+    lastResult: fetcher.data,
+    lastSavedAt: fetcher.data?.ok ? fetcher.data.savedAt : localSavedAt,
+    error: fetcher.data && !fetcher.data.ok ? fetcher.data.error : undefined,
+  };
+}
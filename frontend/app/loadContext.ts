@@ -0,0 +1,13 @@
+// What server.js passes to every loader and action as `context`.
+
+declare module "react-router" {
+  interface AppLoadContext {
+    /**
+     * The visitor's address: the connection's, or what a trusted proxy in
+     * front reported. Missing under `react-router dev`.
+     */
+    clientIp?: string;
+  }
+}
+
+export {};
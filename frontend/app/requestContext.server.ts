@@ -0,0 +1,159 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import type { unstable_ServerInstrumentation } from "react-router";
+import { observeApiCalls } from "./api/client";
+
+// Correlates everything done for one incoming request: its loaders, actions
+// and API calls log under its ID, the backend receives the same ID, and the
+// response reports their durations as `Server-Timing`.
+
+/** Sent to the backend and back to the browser; accepted from a proxy. */
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+interface Timing {
+  /** `loader`, `action`, `api` or `render`. */
+  name: string;
+  /** The route ID or API call it measured. */
+  description: string;
+  duration: number;
+}
+
+interface RequestContext {
+  id: string;
+  timings: Timing[];
+  /** Set once the response is known; resource routes never set it. */
+  status?: number;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+type LogLevel = "info" | "warn" | "error";
+
+/** Writes one JSON log line, tagged with the current request's ID. */
+export function log(
+  level: LogLevel,
+  message: string,
+  fields: Record<string, unknown> = {}
+) {
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    requestId: storage.getStore()?.id,
+    ...fields,
+  });
+  if (level === "error") console.error(line);
+  else console.log(line);
+}
+
+export function errorFields(error: unknown) {
+  return error instanceof Error
+    ? { error: error.message, stack: error.stack }
+    : { error: String(error) };
+}
+
+const round = (ms: number) => Math.round(ms * 10) / 10;
+
+function record(name: string, description: string, duration: number) {
+  storage.getStore()?.timings.push({ name, description, duration });
+}
+
+/** Time spent so far, for measuring what is not a loader or API call. */
+export function startTimer() {
+  const start = performance.now();
+  return (name: string, description: string) =>
+    record(name, description, performance.now() - start);
+}
+
+// An ID from a proxy in front is kept, within reason, so its logs line up.
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+function readRequestId(request: { headers: Pick<Headers, "get"> }) {
+  const id = request.headers.get(REQUEST_ID_HEADER);
+  return id && VALID_REQUEST_ID.test(id) ? id : randomUUID();
+}
+
+function serverTiming(timings: Timing[]) {
+  return timings
+    .map(
+      ({ name, description, duration }) =>
+        `${name};desc=${JSON.stringify(description)};dur=${round(duration)}`
+    )
+    .join(", ");
+}
+
+/**
+ * Tags a page or data response with the request's ID and the timings taken
+ * so far, and notes its status for the request log.
+ */
+export function addRequestHeaders(headers: Headers, status: number) {
+  const context = storage.getStore();
+  if (!context) return;
+  context.status = status;
+  headers.set(REQUEST_ID_HEADER, context.id);
+  if (context.timings.length > 0) {
+    headers.append("Server-Timing", serverTiming(context.timings));
+  }
+}
+
+observeApiCalls({
+  headers: (): Record<string, string> => {
+    const id = storage.getStore()?.id;
+    return id ? { [REQUEST_ID_HEADER]: id } : {};
+  },
+  done: ({ method, path, status, duration }) => {
+    record("api", `${method} ${path}`, duration);
+    log(status >= 500 || status === 0 ? "warn" : "info", "api call", {
+      method,
+      path,
+      status,
+      duration: round(duration),
+    });
+  },
+});
+
+/**
+ * Exported from entry.server.tsx. Runs each request inside its context,
+ * logging it once handled, and times every loader and action.
+ */
+export const requestInstrumentation: unstable_ServerInstrumentation = {
+  handler(handler) {
+    handler.instrument({
+      async request(handle, { request }) {
+        const context: RequestContext = {
+          id: readRequestId(request),
+          timings: [],
+        };
+        const start = performance.now();
+        await storage.run(context, async () => {
+          const { error } = await handle();
+          log(error ? "error" : "info", "request", {
+            method: request.method,
+            path: new URL(request.url).pathname,
+            status: context.status,
+            duration: round(performance.now() - start),
+            ...(error ? { error: error.message } : {}),
+          });
+        });
+      },
+    });
+  },
+  route(route) {
+    const timed =
+      (name: "loader" | "action") =>
+      async (handle: () => Promise<{ error?: Error }>) => {
+        const start = performance.now();
+        const { error } = await handle();
+        const duration = performance.now() - start;
+        record(name, route.id, duration);
+        // Thrown responses (redirects, 404s) are outcomes, not errors. The
+        // stack of an error is logged once, by handleError.
+        log(error ? "error" : "info", name, {
+          route: route.id,
+          duration: round(duration),
+          ...(error ? { error: error.message } : {}),
+        });
+      };
+    route.instrument({ loader: timed("loader"), action: timed("action") });
+  },
+};
@@ -1,22 +1,113 @@
 import {
+  Link,
   Links,
   Meta,
   Outlet,
   Scripts,
   ScrollRestoration,
+  useRouteLoaderData,
 } from "react-router";
+import { Experimental_CssVarsProvider as CssVarsProvider } from "@mui/material/styles";
+import CssBaseline from "@mui/material/CssBaseline";
+import GlobalStyles from "@mui/material/GlobalStyles";
+import { Container, Typography } from "@mui/material";
+import type { Route } from "./+types/root";
+import theme, {
+  COLOR_MODE_STORAGE_KEY,
+  COLOR_SCHEME_ATTRIBUTE,
+  type ColorMode,
+} from "./theme";
+import highlightStyles from "highlight.js/styles/github.css?url";
+import highlightDarkStyles from "highlight.js/styles/github-dark.css?inline";
+import { getUser } from "./sessions.server";
+import { getColorMode } from "./colorMode.server";
+import ErrorPage from "./components/ErrorPage";
+import { rethrowApiError } from "./utils/routeErrors";
+import { SITE_NAME } from "./utils/site";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  try {
+    const [user, colorMode] = await Promise.all([
+      getUser(request),
+      getColorMode(request),
+    ]);
+    return { user, colorMode };
+  } catch (error) {
+    rethrowApiError(error);
+  }
+}
+
+export function links() {
+  return [
+    { rel: "preconnect", href: "https://fonts.googleapis.com" },
+    {
+      rel: "preconnect",
+      href: "https://fonts.gstatic.com",
+      crossOrigin: "anonymous",
+    },
+    {
+      rel: "stylesheet",
+      href: "https://fonts.googleapis.com/css2?family=Roboto:wght@300;400;500;700&display=swap",
+    },
+    { rel: "stylesheet", href: highlightStyles },
+  ];
+}
+
+// The light highlight.js theme is linked above; in dark mode its dark twin
+// takes over for code blocks.
+const darkCodeStyles = (
+  <GlobalStyles
+    styles={`[${COLOR_SCHEME_ATTRIBUTE}="dark"] { ${highlightDarkStyles} }`}
+  />
+);
+
+/**
+ * Runs before the page paints. An explicit choice is already on <html> from
+ * the server; "system" can only be resolved here. Also hands the cookie's
+ * mode to CssVarsProvider, which would otherwise trust a stale localStorage.
+ */
+function colorSchemeScript(mode: ColorMode) {
+  return `(function () {
+  var mode = ${JSON.stringify(mode)};
+  try { localStorage.setItem(${JSON.stringify(COLOR_MODE_STORAGE_KEY)}, mode); } catch (e) {}
+  var scheme = mode !== "system" ? mode
+    : matchMedia("(prefers-color-scheme: dark)").matches ? "dark" : "light";
+  document.documentElement.setAttribute(${JSON.stringify(COLOR_SCHEME_ATTRIBUTE)}, scheme);
+})();`;
+}
 
 export function Layout({ children }: { children: React.ReactNode }) {
+  // Missing when the root loader itself failed; fall back to the system's.
+  const colorMode =
+    useRouteLoaderData<typeof loader>("root")?.colorMode ?? "system";
+  const colorScheme = colorMode === "system" ? undefined : colorMode;
+
   return (
-    <html lang="en">
+    <html
+      lang="en"
+      {...{ [COLOR_SCHEME_ATTRIBUTE]: colorScheme }}
+      suppressHydrationWarning
+    >
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <script
+          dangerouslySetInnerHTML={{ __html: colorSchemeScript(colorMode) }}
+        />
         <Meta />
         <Links />
       </head>
       <body>
-        {children}
+        <CssVarsProvider
+          theme={theme}
+          defaultMode={colorMode}
+          modeStorageKey={COLOR_MODE_STORAGE_KEY}
+          disableTransitionOnChange
+        >
+          <CssBaseline enableColorScheme />
+          {darkCodeStyles}
+          {children}
+        </CssVarsProvider>
         <ScrollRestoration />
         <Scripts />
       </body>
@@ -27,3 +118,23 @@ export function Layout({ children }: { children: React.ReactNode }) {
 export default function Root() {
   return <Outlet />;
 }
+
+/**
+ * Errors no route below handled, the root loader's included. It replaces
+ * the whole page, app bar and all, so it brings its own way home.
+ */
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  return (
+    <Container component="main" maxWidth="md" sx={{ py: 4 }}>
+      <Typography
+        variant="h6"
+        component={Link}
+        to="/"
+        sx={{ color: "inherit", textDecoration: "none" }}
+      >
+        {SITE_NAME}
+      </Typography>
+      <ErrorPage error={error} />
+    </Container>
+  );
+}
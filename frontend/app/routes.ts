@@ -1,6 +1,38 @@
-import { type RouteConfig, index, route } from "@react-router/dev/routes";
+import {
+  type RouteConfig,
+  index,
+  layout,
+  route,
+} from "@react-router/dev/routes";
 
 export default [
-  index("routes/home.tsx"),
-  route("posts", "routes/posts.tsx"),
+  layout("components/Layout.tsx", [
+    index("routes/home.tsx"),
+    route("blog/:slug", "routes/blog.$slug.tsx"),
+    route("tags/:tag", "routes/tags.$tag.tsx"),
+    route("categories/:category", "routes/categories.$category.tsx"),
+    route("authors/:author", "routes/authors.$author.tsx"),
+    route("posts", "routes/posts.tsx"),
+    route("posts/new", "routes/posts.new.tsx"),
+    route("posts/:id", "routes/posts.$id.tsx"),
+    route("posts/:id/edit", "routes/posts.$id.edit.tsx"),
+    route("posts/:id/history", "routes/posts.$id.history.tsx"),
+    route("posts/:id/destroy", "routes/posts.$id.destroy.tsx"),
+    route("media", "routes/media.tsx"),
+    route("search", "routes/search.tsx"),
+    route("admin/comments", "routes/admin.comments.tsx"),
+    route("admin/users", "routes/admin.users.tsx"),
+    route("login", "routes/login.tsx"),
+    route("register", "routes/register.tsx"),
+  ]),
+  route("logout", "routes/logout.tsx"),
+  route("color-mode", "routes/color-mode.tsx"),
+  route("media/upload", "routes/media.upload.tsx"),
+  route("uploads/*", "routes/uploads.$.tsx"),
+  route("feed.xml", "routes/feed.xml.tsx"),
+  route("atom.xml", "routes/atom.xml.tsx"),
+  route("feed.json", "routes/feed.json.tsx"),
+  route("sitemap.xml", "routes/sitemap.xml.tsx"),
+  route("sitemaps/:page", "routes/sitemaps.$page.tsx"),
+  route("robots.txt", "routes/robots.txt.tsx"),
 ] satisfies RouteConfig;
@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { Form, Link, data, useNavigation, useSearchParams } from "react-router";
+import type { Route } from "./+types/admin.comments";
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Paper,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tabs,
+  Typography,
+} from "@mui/material";
+import CheckIcon from "@mui/icons-material/Check";
+import DeleteIcon from "@mui/icons-material/Delete";
+import ReportIcon from "@mui/icons-material/Report";
+import { isApiError } from "../api/client";
+import { listModerationQueue, moderateComments } from "../api/comments";
+import type { CommentAction, CommentStatus } from "../api/types";
+import Pagination from "../components/Pagination";
+import { requireRole } from "../sessions.server";
+import { readPage } from "../utils/pagination";
+import { canModerateComments } from "../utils/permissions";
+import { blogPostPath } from "../utils/postUrls";
+import { apiErrorMessage, rethrowApiError } from "../utils/routeErrors";
+
+const PER_PAGE = 20;
+
+const STATUS_TABS: { value: CommentStatus; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "approved", label: "Approved" },
+  { value: "spam", label: "Spam" },
+];
+
+const ACTIONS: Record<CommentAction, string> = {
+  approve: "approved",
+  spam: "marked as spam",
+  delete: "deleted",
+};
+
+function readStatus(request: Request): CommentStatus {
+  const status = new URL(request.url).searchParams.get("status");
+  return STATUS_TABS.find((tab) => tab.value === status)?.value ?? "pending";
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { apiOptions } = await requireRole(request, canModerateComments);
+  const status = readStatus(request);
+  try {
+    const comments = await listModerationQueue(
+      { status, page: readPage(request), per_page: PER_PAGE },
+      apiOptions
+    );
+    return { status, comments };
+  } catch (error) {
+    rethrowApiError(error);
+  }
+}
+
+export function meta() {
+  return [{ title: "Comments" }];
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { apiOptions } = await requireRole(request, canModerateComments);
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") ?? "") as CommentAction;
+  const ids = formData
+    .getAll("ids")
+    .map(Number)
+    .filter((id) => Number.isInteger(id) && id > 0);
+  if (!(intent in ACTIONS)) {
+    throw new Response("Bad Request", { status: 400 });
+  }
+  if (ids.length === 0) {
+    return data(
+      { error: "Select at least one comment", message: null },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { affected } = await moderateComments(
+      { ids, action: intent },
+      apiOptions
+    );
+    const noun = affected === 1 ? "comment" : "comments";
+    return { error: null, message: `${affected} ${noun} ${ACTIONS[intent]}` };
+  } catch (error) {
+    if (!isApiError(error)) throw error;
+    return data(
+      { error: apiErrorMessage(error), message: null },
+      { status: error.status || 503 }
+    );
+  }
+}
+
+/**
+ * The moderation queue. Ticked comments are approved, marked as spam or
+ * deleted together; the tabs switch between the three statuses.
+ */
+export default function AdminComments({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  const { status, comments } = loaderData;
+  const [, setSearchParams] = useSearchParams();
+  const navigation = useNavigation();
+  const [selected, setSelected] = useState<number[]>([]);
+  const [listed, setListed] = useState(comments);
+  const submitting = navigation.state === "submitting";
+  const totalPages = Math.ceil(comments.total / comments.per_page);
+
+  // A new page of comments (after a bulk action or paging) starts with
+  // nothing ticked.
+  if (listed !== comments) {
+    setListed(comments);
+    setSelected([]);
+  }
+
+  const allSelected =
+    comments.data.length > 0 && selected.length === comments.data.length;
+
+  const toggle = (id: number) => {
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((other) => other !== id) : [...prev, id]
+    );
+  };
+
+  const handlePageChange = (page: number) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      next.set("page", String(page));
+      return next;
+    });
+  };
+
+  return (
+    <Box sx={{ maxWidth: 1100, mx: "auto" }}>
+      <Typography variant="h3" component="h1" gutterBottom>
+        Comments
+      </Typography>
+
+      <Tabs value={status} sx={{ mb: 2 }}>
+        {STATUS_TABS.map((tab) => (
+          <Tab
+            key={tab.value}
+            value={tab.value}
+            label={tab.label}
+            component={Link}
+            to={`?status=${tab.value}`}
+          />
+        ))}
+      </Tabs>
+
+      {actionData?.error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {actionData.error}
+        </Alert>
+      )}
+      {actionData?.message && (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          {actionData.message}
+        </Alert>
+      )}
+
+      {comments.data.length === 0 ? (
+        <Alert severity="info">
+          {status === "pending"
+            ? "No comments are waiting for moderation."
+            : `No ${status} comments.`}
+        </Alert>
+      ) : (
+        <Form method="post">
+          <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap", mb: 2 }}>
+            {status !== "approved" && (
+              <Button
+                type="submit"
+                name="intent"
+                value="approve"
+                variant="contained"
+                startIcon={<CheckIcon />}
+                disabled={selected.length === 0 || submitting}
+              >
+                Approve
+              </Button>
+            )}
+            {status !== "spam" && (
+              <Button
+                type="submit"
+                name="intent"
+                value="spam"
+                variant="outlined"
+                startIcon={<ReportIcon />}
+                disabled={selected.length === 0 || submitting}
+              >
+                Mark as spam
+              </Button>
+            )}
+            <Button
+              type="submit"
+              name="intent"
+              value="delete"
+              variant="outlined"
+              color="error"
+              startIcon={<DeleteIcon />}
+              disabled={selected.length === 0 || submitting}
+            >
+              Delete
+            </Button>
+          </Box>
+
+          <TableContainer component={Paper}>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      checked={allSelected}
+                      indeterminate={selected.length > 0 && !allSelected}
+                      onChange={() =>
+                        setSelected(
+                          allSelected
+                            ? []
+                            : comments.data.map((comment) => comment.id)
+                        )
+                      }
+                      inputProps={{ "aria-label": "Select all comments" }}
+                    />
+                  </TableCell>
+                  <TableCell>Comment</TableCell>
+                  <TableCell>Post</TableCell>
+                  <TableCell>Posted</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {comments.data.map((comment) => (
+                  <TableRow key={comment.id} hover>
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        name="ids"
+                        value={comment.id}
+                        checked={selected.includes(comment.id)}
+                        onChange={() => toggle(comment.id)}
+                        inputProps={{
+                          "aria-label": `Select comment by ${comment.author_name}`,
+                        }}
+                      />
+                    </TableCell>
+                    <TableCell sx={{ maxWidth: 480 }}>
+                      <Typography variant="subtitle2">
+                        {comment.author_name}
+                        {comment.parent_id !== null && (
+                          <Typography
+                            component="span"
+                            variant="caption"
+                            color="text.secondary"
+                          >
+                            {" "}
+                            (reply)
+                          </Typography>
+                        )}
+                      </Typography>
+                      <Typography
+                        variant="body2"
+                        sx={{ whiteSpace: "pre-wrap", wordBreak: "break-word" }}
+                      >
+                        {comment.body}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Link to={blogPostPath({ slug: comment.post_slug })}>
+                        {comment.post_title}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      {new Date(comment.created_at).toLocaleString("en-US")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Form>
+      )}
+
+      {totalPages > 1 && (
+        <Pagination
+          currentPage={comments.page}
+          totalPages={totalPages}
+          totalItems={comments.total}
+          perPage={comments.per_page}
+          onPageChange={handlePageChange}
+        />
+      )}
+    </Box>
+  );
+}
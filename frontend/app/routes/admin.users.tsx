@@ -0,0 +1,148 @@
+import { data, useFetcher } from "react-router";
+import type { Route } from "./+types/admin.users";
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { isApiError } from "../api/client";
+import type { User, UserRole } from "../api/types";
+import { listUsers, updateUserRole } from "../api/users";
+import { requireRole } from "../sessions.server";
+import { ROLES, canManageUsers, roleLabels } from "../utils/permissions";
+import { apiErrorMessage, rethrowApiError } from "../utils/routeErrors";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { user, apiOptions } = await requireRole(request, canManageUsers);
+  try {
+    return { users: await listUsers(apiOptions), currentUserId: user.id };
+  } catch (error) {
+    rethrowApiError(error);
+  }
+}
+
+export function meta() {
+  return [{ title: "Users" }];
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { apiOptions } = await requireRole(request, canManageUsers);
+  const formData = await request.formData();
+  const userId = String(formData.get("userId") ?? "");
+  const role = String(formData.get("role") ?? "") as UserRole;
+  if (!userId || !ROLES.includes(role)) {
+    return data({ error: "Choose a role" }, { status: 400 });
+  }
+
+  try {
+    await updateUserRole(userId, { role }, apiOptions);
+    return { error: null };
+  } catch (error) {
+    if (!isApiError(error)) throw error;
+    return data(
+      { error: apiErrorMessage(error) },
+      { status: error.status || 503 }
+    );
+  }
+}
+
+/** Saves as soon as a different role is picked. */
+function RoleSelect({ user, disabled }: { user: User; disabled: boolean }) {
+  const fetcher = useFetcher<typeof action>();
+  const pending = fetcher.formData?.get("role");
+  const role = typeof pending === "string" ? pending : user.role;
+
+  return (
+    <fetcher.Form method="post">
+      <input type="hidden" name="userId" value={user.id} />
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+        <TextField
+          select
+          size="small"
+          name="role"
+          value={role}
+          disabled={disabled}
+          onChange={(event) => fetcher.submit(event.target.form)}
+          SelectProps={{ native: true }}
+          inputProps={{ "aria-label": `Role for ${user.username}` }}
+          sx={{ minWidth: 130 }}
+        >
+          {ROLES.map((option) => (
+            <option key={option} value={option}>
+              {roleLabels[option]}
+            </option>
+          ))}
+        </TextField>
+        {fetcher.state !== "idle" && <CircularProgress size={16} />}
+      </Box>
+      {fetcher.data?.error && (
+        <Typography variant="caption" color="error">
+          {fetcher.data.error}
+        </Typography>
+      )}
+    </fetcher.Form>
+  );
+}
+
+export default function AdminUsers({ loaderData }: Route.ComponentProps) {
+  const { users, currentUserId } = loaderData;
+
+  return (
+    <Box sx={{ maxWidth: 1000, mx: "auto" }}>
+      <Typography variant="h3" component="h1" gutterBottom>
+        Users
+      </Typography>
+
+      <Alert severity="info" sx={{ mb: 3 }}>
+        Readers can only read. Authors write their own posts and send them for
+        review. Editors edit, schedule, publish and archive any post. Admins
+        also manage users.
+      </Alert>
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Username</TableCell>
+              <TableCell>Display name</TableCell>
+              <TableCell>Joined</TableCell>
+              <TableCell>Role</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {users.map((user) => (
+              <TableRow key={user.id}>
+                <TableCell>
+                  {user.username}
+                  {user.id === currentUserId && (
+                    <Chip label="You" size="small" sx={{ ml: 1 }} />
+                  )}
+                </TableCell>
+                <TableCell>{user.display_name}</TableCell>
+                <TableCell>
+                  {new Date(user.created_at).toLocaleDateString("en-US")}
+                </TableCell>
+                <TableCell>
+                  <RoleSelect
+                    user={user}
+                    disabled={user.id === currentUserId}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+}
@@ -0,0 +1,7 @@
+import type { Route } from "./+types/atom.xml";
+import { feedResponse } from "../utils/feeds.server";
+
+/** The latest published posts as Atom; see `feedResponse`. */
+export function loader({ request }: Route.LoaderArgs) {
+  return feedResponse(request, "atom");
+}
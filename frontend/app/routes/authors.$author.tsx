@@ -0,0 +1,58 @@
+import type { Route } from "./+types/authors.$author";
+import { Box, Typography } from "@mui/material";
+import { listPosts } from "../api/posts";
+import type { PaginatedResponse, Post } from "../api/types";
+import FeedButton from "../components/FeedButton";
+import PostExcerptList from "../components/PostExcerptList";
+import { feedLinks } from "../utils/feeds";
+import { PUBLIC_PER_PAGE, readPage } from "../utils/pagination";
+import { rethrowApiError } from "../utils/routeErrors";
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  let posts: PaginatedResponse<Post>;
+  try {
+    posts = await listPosts({
+      page: readPage(request),
+      per_page: PUBLIC_PER_PAGE,
+      status: "published",
+      author: params.author,
+    });
+  } catch (error) {
+    rethrowApiError(error);
+  }
+  // There is no author lookup; someone with nothing published has no page.
+  if (posts.total === 0) {
+    throw new Response("Not Found", { status: 404 });
+  }
+  // The name as the author spells it, whatever case the URL used.
+  return { author: posts.data[0]?.author ?? params.author, posts };
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  if (!data) return [{ title: "Author not found" }];
+  return [
+    { title: `Posts by ${data.author}` },
+    { name: "description", content: `Blog posts by ${data.author}` },
+    ...feedLinks(`Posts by ${data.author}`, { author: data.author }),
+  ];
+}
+
+export default function AuthorPosts({ loaderData }: Route.ComponentProps) {
+  const { author, posts } = loaderData;
+
+  return (
+    <Box sx={{ maxWidth: 760, mx: "auto" }}>
+      <Typography variant="overline" color="text.secondary">
+        Author
+      </Typography>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 2 }}>
+        <Typography variant="h2" component="h1">
+          {author}
+        </Typography>
+        <FeedButton filters={{ author }} />
+      </Box>
+
+      <PostExcerptList posts={posts} emptyMessage="No more posts." />
+    </Box>
+  );
+}
@@ -0,0 +1,286 @@
+import { useMemo } from "react";
+import { Link, redirect } from "react-router";
+import type { Route } from "./+types/blog.$slug";
+import { Alert, Box, Button, Divider, Paper, Typography } from "@mui/material";
+import ArrowBackIcon from "@mui/icons-material/ArrowBack";
+import EditIcon from "@mui/icons-material/Edit";
+import HistoryIcon from "@mui/icons-material/History";
+import { listComments } from "../api/comments";
+import { getPostBySlug } from "../api/posts";
+import { listReviewComments } from "../api/reviews";
+import type { Post } from "../api/types";
+import Comments from "../components/Comments";
+import DeletePostButton from "../components/DeletePostButton";
+import ErrorPage from "../components/ErrorPage";
+import Markdown from "../components/Markdown";
+import PostStatusChip from "../components/PostStatusChip";
+import PostTerms from "../components/PostTerms";
+import ReviewComments from "../components/ReviewComments";
+import TableOfContents from "../components/TableOfContents";
+import { getApiOptions, getUser } from "../sessions.server";
+import { extractToc, postSummary } from "../utils/markdown";
+import { canModifyPost } from "../utils/permissions";
+import { statusLabels } from "../utils/postStatus";
+import { feedLinks } from "../utils/feeds";
+import { authorPath, blogPostPath } from "../utils/postUrls";
+import { describeRouteError, rethrowApiError } from "../utils/routeErrors";
+import { SITE_NAME, absoluteUrl } from "../utils/site";
+import { getSiteUrl } from "../utils/site.server";
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const [user, apiOptions] = await Promise.all([
+    getUser(request),
+    getApiOptions(request),
+  ]);
+  let post: Post;
+  try {
+    post = await getPostBySlug(params.slug, apiOptions);
+  } catch (error) {
+    rethrowApiError(error);
+  }
+  // An old slug: the API followed its redirect, so point the browser (and
+  // search engines) at the current address too.
+  if (post.slug !== params.slug) {
+    throw redirect(blogPostPath(post), 301);
+  }
+
+  // Unpublished posts are only previewed to whoever may change them; to
+  // everyone else they do not exist.
+  const canModify = canModifyPost(user, post);
+  if (post.status !== "published" && !canModify) {
+    throw new Response("Not Found", { status: 404 });
+  }
+  try {
+    const [reviews, comments] = await Promise.all([
+      canModify ? listReviewComments(post.id, apiOptions) : null,
+      // Only published posts take comments.
+      post.status === "published" ? listComments(post.id, apiOptions) : null,
+    ]);
+    return { post, canModify, reviews, comments, siteUrl: getSiteUrl(request) };
+  } catch (error) {
+    rethrowApiError(error);
+  }
+}
+
+export function meta({ data, error }: Route.MetaArgs) {
+  if (!data) {
+    const { kind, title } = describeRouteError(error);
+    return [{ title: kind === "not-found" ? "Post not found" : title }];
+  }
+  const { post, siteUrl } = data;
+  const url = absoluteUrl(blogPostPath(post), siteUrl);
+  const description = postSummary(post, 160);
+  const image = post.cover_image && absoluteUrl(post.cover_image, siteUrl);
+  const publishedAt = post.publish_at ?? post.created_at;
+
+  const structuredData = {
+    "@context": "https://schema.org",
+    "@type": "BlogPosting",
+    headline: post.title,
+    description,
+    url,
+    mainEntityOfPage: url,
+    datePublished: publishedAt,
+    dateModified: post.updated_at,
+    author: { "@type": "Person", name: post.author },
+    publisher: { "@type": "Organization", name: SITE_NAME },
+    ...(image ? { image } : {}),
+    ...(post.tags.length > 0
+      ? { keywords: post.tags.map((tag) => tag.name).join(", ") }
+      : {}),
+    ...(post.category ? { articleSection: post.category.name } : {}),
+  };
+
+  return [
+    { title: post.title },
+    { name: "description", content: description },
+    { name: "author", content: post.author },
+    ...(post.status === "published"
+      ? []
+      : [{ name: "robots", content: "noindex" }]),
+    { tagName: "link", rel: "canonical", href: url },
+    ...feedLinks(`Posts by ${post.author}`, { author: post.author }),
+
+    // Open Graph, read by Facebook, LinkedIn, Slack and most chat apps.
+    { property: "og:type", content: "article" },
+    { property: "og:site_name", content: SITE_NAME },
+    { property: "og:title", content: post.title },
+    { property: "og:description", content: description },
+    { property: "og:url", content: url },
+    ...(image ? [{ property: "og:image", content: image }] : []),
+    { property: "article:published_time", content: publishedAt },
+    { property: "article:modified_time", content: post.updated_at },
+    { property: "article:author", content: post.author },
+    ...(post.category
+      ? [{ property: "article:section", content: post.category.name }]
+      : []),
+    ...post.tags.map((tag) => ({ property: "article:tag", content: tag.name })),
+
+    {
+      name: "twitter:card",
+      content: image ? "summary_large_image" : "summary",
+    },
+    { name: "twitter:title", content: post.title },
+    { name: "twitter:description", content: description },
+    ...(image ? [{ name: "twitter:image", content: image }] : []),
+
+    { "script:ld+json": structuredData },
+  ];
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+};
+
+export default function BlogPost({ loaderData }: Route.ComponentProps) {
+  const { post, canModify, reviews, comments } = loaderData;
+  const toc = useMemo(() => extractToc(post.content), [post.content]);
+  const showToc = toc.length >= 2;
+  const publishedAt = post.publish_at ?? post.created_at;
+
+  return (
+    <Box sx={{ maxWidth: showToc ? 1100 : 760, mx: "auto" }}>
+      <Button
+        component={Link}
+        to="/"
+        startIcon={<ArrowBackIcon />}
+        sx={{ mb: 2 }}
+      >
+        All posts
+      </Button>
+
+      {post.status !== "published" && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          Preview: this post is {statusLabels[post.status].toLowerCase()} and
+          hidden from readers.
+          {post.status === "scheduled" &&
+            post.publish_at &&
+            ` It goes live ${new Date(post.publish_at).toLocaleString("en-US")}.`}
+        </Alert>
+      )}
+
+      {canModify && (
+        <Box
+          sx={{
+            display: "flex",
+            alignItems: "center",
+            gap: 1,
+            flexWrap: "wrap",
+            mb: 3,
+          }}
+        >
+          <PostStatusChip status={post.status} />
+          <Box sx={{ flexGrow: 1 }} />
+          <Button
+            component={Link}
+            to={`/posts/${post.id}/edit`}
+            variant="outlined"
+            startIcon={<EditIcon />}
+          >
+            Edit Post
+          </Button>
+          <Button
+            component={Link}
+            to={`/posts/${post.id}/history`}
+            variant="outlined"
+            startIcon={<HistoryIcon />}
+          >
+            History
+          </Button>
+          <DeletePostButton postId={post.id} variant="outlined" />
+        </Box>
+      )}
+
+      <Box
+        sx={{
+          display: "grid",
+          gridTemplateColumns: { xs: "1fr", md: showToc ? "1fr 240px" : "1fr" },
+          gap: 4,
+          alignItems: "start",
+        }}
+      >
+        <Box component="article" sx={{ minWidth: 0 }}>
+          <Box component="header">
+            <Typography variant="h2" component="h1" gutterBottom>
+              {post.title}
+            </Typography>
+            <Typography variant="subtitle1" color="text.secondary">
+              By{" "}
+              {post.status === "published" ? (
+                <Box
+                  component={Link}
+                  to={authorPath(post.author)}
+                  sx={{ color: "inherit" }}
+                >
+                  {post.author}
+                </Box>
+              ) : (
+                post.author
+              )}{" "}
+              • <time dateTime={publishedAt}>{formatDate(publishedAt)}</time>
+            </Typography>
+          </Box>
+
+          {post.cover_image && (
+            <Box
+              component="img"
+              src={post.cover_image}
+              alt=""
+              sx={{
+                display: "block",
+                width: "100%",
+                maxHeight: 420,
+                objectFit: "cover",
+                borderRadius: 1,
+                mt: 3,
+              }}
+            />
+          )}
+
+          <Divider sx={{ my: 3 }} />
+
+          <Markdown>{post.content}</Markdown>
+
+          <Box component="footer" sx={{ mt: 4 }}>
+            <PostTerms post={post} />
+          </Box>
+        </Box>
+
+        {showToc && (
+          <Paper
+            component="aside"
+            variant="outlined"
+            sx={{
+              p: 2,
+              position: { md: "sticky" },
+              top: { md: 88 },
+              order: { xs: -1, md: 0 },
+            }}
+          >
+            <TableOfContents entries={toc} />
+          </Paper>
+        )}
+      </Box>
+
+      {comments && (
+        <Box sx={{ mt: 6, maxWidth: 760 }}>
+          <Comments comments={comments} action={`/posts/${post.id}`} />
+        </Box>
+      )}
+
+      {reviews && (
+        <Paper variant="outlined" sx={{ p: 3, mt: 4 }}>
+          <ReviewComments comments={reviews} action={`/posts/${post.id}`} />
+        </Paper>
+      )}
+    </Box>
+  );
+}
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  return <ErrorPage error={error} />;
+}
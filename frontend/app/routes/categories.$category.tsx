@@ -0,0 +1,55 @@
+import type { Route } from "./+types/categories.$category";
+import { Box, Typography } from "@mui/material";
+import { listPosts } from "../api/posts";
+import { getCategory } from "../api/taxonomy";
+import PostExcerptList from "../components/PostExcerptList";
+import { PUBLIC_PER_PAGE, readPage } from "../utils/pagination";
+import { rethrowApiError } from "../utils/routeErrors";
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  try {
+    const [category, posts] = await Promise.all([
+      getCategory(params.category),
+      listPosts({
+        page: readPage(request),
+        per_page: PUBLIC_PER_PAGE,
+        status: "published",
+        category: params.category,
+      }),
+    ]);
+    return { category, posts };
+  } catch (error) {
+    rethrowApiError(error);
+  }
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  if (!data) return [{ title: "Category not found" }];
+  return [
+    { title: data.category.name },
+    {
+      name: "description",
+      content: `Blog posts in ${data.category.name}`,
+    },
+  ];
+}
+
+export default function CategoryPosts({ loaderData }: Route.ComponentProps) {
+  const { category, posts } = loaderData;
+
+  return (
+    <Box sx={{ maxWidth: 760, mx: "auto" }}>
+      <Typography variant="overline" color="text.secondary">
+        Category
+      </Typography>
+      <Typography variant="h2" component="h1" gutterBottom>
+        {category.name}
+      </Typography>
+
+      <PostExcerptList
+        posts={posts}
+        emptyMessage="Nothing has been published in this category yet."
+      />
+    </Box>
+  );
+}
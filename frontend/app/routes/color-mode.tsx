@@ -0,0 +1,19 @@
+import { data } from "react-router";
+import type { Route } from "./+types/color-mode";
+import { serializeColorMode } from "../colorMode.server";
+import { isColorMode } from "../theme";
+
+/**
+ * Remembers the color mode picked in the app bar. The page has switched
+ * already; the cookie makes the server render it that way from now on.
+ */
+export async function action({ request }: Route.ActionArgs) {
+  const mode = (await request.formData()).get("mode");
+  if (!isColorMode(mode)) {
+    throw new Response("Bad Request", { status: 400 });
+  }
+  return data(
+    { mode },
+    { headers: { "Set-Cookie": await serializeColorMode(mode) } }
+  );
+}
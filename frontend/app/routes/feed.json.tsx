@@ -0,0 +1,7 @@
+import type { Route } from "./+types/feed.json";
+import { feedResponse } from "../utils/feeds.server";
+
+/** The latest published posts as JSON Feed; see `feedResponse`. */
+export function loader({ request }: Route.LoaderArgs) {
+  return feedResponse(request, "json");
+}
@@ -0,0 +1,7 @@
+import type { Route } from "./+types/feed.xml";
+import { feedResponse } from "../utils/feeds.server";
+
+/** The latest published posts as RSS 2.0; see `feedResponse`. */
+export function loader({ request }: Route.LoaderArgs) {
+  return feedResponse(request, "rss");
+}
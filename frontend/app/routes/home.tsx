@@ -1,11 +1,50 @@
-import { Link } from "react-router";
+import type { Route } from "./+types/home";
+import { Box, Typography } from "@mui/material";
+import { listPosts } from "../api/posts";
+import FeedButton from "../components/FeedButton";
+import PostExcerptList from "../components/PostExcerptList";
+import { feedLinks } from "../utils/feeds";
+import { PUBLIC_PER_PAGE, readPage } from "../utils/pagination";
+import { rethrowApiError } from "../utils/routeErrors";
 
-export default function Home() {
+export async function loader({ request }: Route.LoaderArgs) {
+  // The public blog never shows drafts, even to the signed-in editors who
+  // could see them on the dashboard, so the request goes out anonymously.
+  try {
+    return {
+      posts: await listPosts({
+        page: readPage(request),
+        per_page: PUBLIC_PER_PAGE,
+        status: "published",
+      }),
+    };
+  } catch (error) {
+    rethrowApiError(error);
+  }
+}
+
+export function meta() {
+  return [
+    { title: "Blog" },
+    { name: "description", content: "The latest posts from the blog" },
+    ...feedLinks("Blog"),
+  ];
+}
+
+export default function Home({ loaderData }: Route.ComponentProps) {
   return (
-    <div style={{ fontFamily: "system-ui", padding: "2rem" }}>
-      <h1>Blog Home</h1>
-      <p>Welcome to the blog!</p>
-      <Link to="/posts" style={{ color: "blue" }}>View Posts</Link>
-    </div>
+    <Box sx={{ maxWidth: 760, mx: "auto" }}>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 2 }}>
+        <Typography variant="h2" component="h1">
+          Blog
+        </Typography>
+        <FeedButton />
+      </Box>
+
+      <PostExcerptList
+        posts={loaderData.posts}
+        emptyMessage="Nothing has been published yet."
+      />
+    </Box>
   );
 }
@@ -0,0 +1,120 @@
+import {
+  data,
+  Form,
+  Link,
+  redirect,
+  useNavigation,
+  useSearchParams,
+} from "react-router";
+import type { Route } from "./+types/login";
+import {
+  Alert,
+  Box,
+  Button,
+  Paper,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { login } from "../api/auth";
+import { isApiError } from "../api/client";
+import { createUserSession, getUser } from "../sessions.server";
+import { apiErrorMessage } from "../utils/routeErrors";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  if (await getUser(request)) return redirect("/posts");
+  return null;
+}
+
+export function meta() {
+  return [{ title: "Sign in" }];
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const username = String(formData.get("username") ?? "").trim();
+  const password = String(formData.get("password") ?? "");
+  if (!username || !password) {
+    return data(
+      { username, error: "Enter your username and password" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const auth = await login({ username, password });
+    return createUserSession(request, auth, formData.get("redirectTo"));
+  } catch (error) {
+    if (!isApiError(error)) throw error;
+    return data(
+      {
+        username,
+        error: apiErrorMessage(error),
+      },
+      { status: error.status || 503 }
+    );
+  }
+}
+
+export default function Login({ actionData }: Route.ComponentProps) {
+  const [searchParams] = useSearchParams();
+  const navigation = useNavigation();
+  // Keep `redirectTo` when switching between sign-in and registration.
+  const search = searchParams.toString();
+  const redirectTo = searchParams.get("redirectTo") ?? "";
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <Box sx={{ maxWidth: 420, mx: "auto" }}>
+      <Paper elevation={3} sx={{ p: 4 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Sign in
+        </Typography>
+
+        {actionData?.error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {actionData.error}
+          </Alert>
+        )}
+
+        <Form method="post">
+          <input type="hidden" name="redirectTo" value={redirectTo} />
+          <TextField
+            fullWidth
+            margin="normal"
+            label="Username"
+            name="username"
+            autoComplete="username"
+            defaultValue={actionData?.username}
+            autoFocus
+            required
+          />
+          <TextField
+            fullWidth
+            margin="normal"
+            label="Password"
+            name="password"
+            type="password"
+            autoComplete="current-password"
+            required
+          />
+          <Button
+            type="submit"
+            variant="contained"
+            fullWidth
+            disabled={isSubmitting}
+            sx={{ mt: 2 }}
+          >
+            {isSubmitting ? "Signing in..." : "Sign in"}
+          </Button>
+        </Form>
+
+        <Typography variant="body2" sx={{ mt: 3 }}>
+          No account yet?{" "}
+          <Link to={search ? `/register?${search}` : "/register"}>
+            Register
+          </Link>
+        </Typography>
+      </Paper>
+    </Box>
+  );
+}
@@ -0,0 +1,12 @@
+import { redirect } from "react-router";
+import type { Route } from "./+types/logout";
+import { logout } from "../sessions.server";
+
+export async function action({ request }: Route.ActionArgs) {
+  return logout(request);
+}
+
+// Signing out is a POST; a stray GET just goes home.
+export function loader() {
+  return redirect("/");
+}
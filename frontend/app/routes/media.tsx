@@ -0,0 +1,308 @@
+import { useRef, useState } from "react";
+import { useFetcher, useRevalidator, useSearchParams } from "react-router";
+import type { Route } from "./+types/media";
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardActions,
+  CardContent,
+  CardMedia,
+  CircularProgress,
+  Grid,
+  IconButton,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import DeleteIcon from "@mui/icons-material/Delete";
+import OpenInNewIcon from "@mui/icons-material/OpenInNew";
+import PictureAsPdfIcon from "@mui/icons-material/PictureAsPdf";
+import UploadIcon from "@mui/icons-material/Upload";
+import { isApiError } from "../api/client";
+import { deleteMedia, listMedia } from "../api/media";
+import type { Media, User } from "../api/types";
+import Pagination from "../components/Pagination";
+import { requireRole } from "../sessions.server";
+import { readPage } from "../utils/pagination";
+import { canPublish, canWritePosts } from "../utils/permissions";
+import { apiErrorMessage, rethrowApiError } from "../utils/routeErrors";
+import {
+  UPLOAD_ACCEPT,
+  formatBytes,
+  mediaMarkdown,
+  uploadFile,
+} from "../utils/uploads";
+
+const PER_PAGE = 24;
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { user, apiOptions } = await requireRole(request, canWritePosts);
+  try {
+    const media = await listMedia(
+      { page: readPage(request), per_page: PER_PAGE },
+      apiOptions
+    );
+    return { media, user };
+  } catch (error) {
+    rethrowApiError(error);
+  }
+}
+
+export function meta() {
+  return [{ title: "Media library" }];
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { apiOptions } = await requireRole(request, canWritePosts);
+  const formData = await request.formData();
+  const id = String(formData.get("id") ?? "");
+  if (formData.get("intent") !== "delete" || !id) {
+    throw new Response("Bad Request", { status: 400 });
+  }
+
+  try {
+    await deleteMedia(id, apiOptions);
+    return { error: null };
+  } catch (error) {
+    if (!isApiError(error)) throw error;
+    // Already gone is as good as deleted.
+    if (error.isNotFound) return { error: null };
+    return { error: apiErrorMessage(error) };
+  }
+}
+
+/** Uploaders may delete their own files, editors and admins any. */
+const canDelete = (user: User, media: Media) =>
+  media.uploaded_by === user.id || canPublish(user);
+
+function MediaCard({ media, user }: { media: Media; user: User }) {
+  const fetcher = useFetcher<typeof action>();
+  const [copied, setCopied] = useState(false);
+  const deleting = fetcher.state !== "idle";
+
+  const copyMarkdown = async () => {
+    await navigator.clipboard.writeText(mediaMarkdown(media));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <Card
+      variant="outlined"
+      sx={{
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        opacity: deleting ? 0.5 : 1,
+      }}
+    >
+      {media.thumbnail_url ? (
+        <CardMedia
+          component="img"
+          image={media.thumbnail_url}
+          alt={media.original_name}
+          loading="lazy"
+          sx={{ height: 160, objectFit: "cover", bgcolor: "action.hover" }}
+        />
+      ) : (
+        <Box
+          sx={{
+            height: 160,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            bgcolor: "action.hover",
+          }}
+        >
+          <PictureAsPdfIcon sx={{ fontSize: 64 }} color="action" />
+        </Box>
+      )}
+      <CardContent sx={{ flexGrow: 1, pb: 1 }}>
+        <Typography variant="body2" noWrap title={media.original_name}>
+          {media.original_name}
+        </Typography>
+        <Typography variant="caption" color="text.secondary" component="p">
+          {formatBytes(media.size)}
+          {media.width !== null &&
+            media.height !== null &&
+            ` • ${media.width}×${media.height}`}
+        </Typography>
+        <Typography variant="caption" color="text.secondary" component="p">
+          {media.uploader_name ?? "Unknown"} •{" "}
+          {new Date(media.created_at).toLocaleDateString("en-US")}
+        </Typography>
+        {fetcher.data?.error && (
+          <Typography variant="caption" color="error" component="p">
+            {fetcher.data.error}
+          </Typography>
+        )}
+      </CardContent>
+      <CardActions sx={{ pt: 0 }}>
+        <Tooltip title={copied ? "Copied" : "Copy Markdown"}>
+          <IconButton
+            size="small"
+            onClick={copyMarkdown}
+            aria-label={`Copy Markdown for ${media.original_name}`}
+          >
+            <ContentCopyIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Open">
+          <IconButton
+            size="small"
+            component="a"
+            href={media.url}
+            target="_blank"
+            rel="noopener"
+            aria-label={`Open ${media.original_name}`}
+          >
+            <OpenInNewIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        {canDelete(user, media) && (
+          <fetcher.Form
+            method="post"
+            style={{ marginLeft: "auto" }}
+            onSubmit={(event) => {
+              if (
+                !confirm(
+                  `Delete ${media.original_name}? Posts that use it will show a broken link.`
+                )
+              ) {
+                event.preventDefault();
+              }
+            }}
+          >
+            <input type="hidden" name="intent" value="delete" />
+            <input type="hidden" name="id" value={media.id} />
+            <Tooltip title="Delete">
+              <IconButton
+                type="submit"
+                size="small"
+                color="error"
+                disabled={deleting}
+                aria-label={`Delete ${media.original_name}`}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </fetcher.Form>
+        )}
+      </CardActions>
+    </Card>
+  );
+}
+
+/**
+ * Everything uploaded so far, for reuse in posts: copy an item's Markdown
+ * and paste it into the editor. New files can be uploaded here as well as
+ * dropped into the editor.
+ */
+export default function MediaLibrary({ loaderData }: Route.ComponentProps) {
+  const { media, user } = loaderData;
+  const [, setSearchParams] = useSearchParams();
+  const revalidator = useRevalidator();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const totalPages = Math.ceil(media.total / media.per_page);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setUploading(true);
+    const failed: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        await uploadFile(file);
+      } catch (error) {
+        failed.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+    setErrors(failed);
+    setUploading(false);
+    if (inputRef.current) inputRef.current.value = "";
+    revalidator.revalidate();
+  };
+
+  const handlePageChange = (page: number) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      next.set("page", String(page));
+      return next;
+    });
+  };
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          flexWrap: "wrap",
+          gap: 2,
+          mb: 3,
+        }}
+      >
+        <Typography variant="h3" component="h1">
+          Media library
+        </Typography>
+        <Button
+          variant="contained"
+          component="label"
+          startIcon={
+            uploading ? (
+              <CircularProgress size={16} color="inherit" />
+            ) : (
+              <UploadIcon />
+            )
+          }
+          disabled={uploading}
+        >
+          {uploading ? "Uploading..." : "Upload files"}
+          <input
+            ref={inputRef}
+            type="file"
+            accept={UPLOAD_ACCEPT}
+            multiple
+            hidden
+            onChange={(event) => handleFiles(event.target.files)}
+          />
+        </Button>
+      </Box>
+
+      {errors.map((error) => (
+        <Alert key={error} severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      ))}
+
+      {media.data.length === 0 ? (
+        <Alert severity="info">
+          Nothing has been uploaded yet. Upload files here, or drop or paste
+          images into the post editor.
+        </Alert>
+      ) : (
+        <Grid container spacing={2}>
+          {media.data.map((item) => (
+            <Grid item xs={6} sm={4} md={3} lg={2} key={item.id}>
+              <MediaCard media={item} user={user} />
+            </Grid>
+          ))}
+        </Grid>
+      )}
+
+      {totalPages > 1 && (
+        <Pagination
+          currentPage={media.page}
+          totalPages={totalPages}
+          totalItems={media.total}
+          perPage={media.per_page}
+          onPageChange={handlePageChange}
+        />
+      )}
+    </Box>
+  );
+}
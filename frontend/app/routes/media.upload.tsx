@@ -0,0 +1,49 @@
+import { data } from "react-router";
+import type { Route } from "./+types/media.upload";
+import { isApiError } from "../api/client";
+import { uploadMedia } from "../api/media";
+import { getApiOptions, getUser } from "../sessions.server";
+import { canWritePosts } from "../utils/permissions";
+import type { UploadResult } from "../utils/uploads";
+import { apiErrorMessage } from "../utils/routeErrors";
+
+/**
+ * Resource route the editor and the media library upload through with
+ * `fetch`; answers with JSON rather than a page, errors included.
+ */
+export async function action({ request }: Route.ActionArgs) {
+  const [user, apiOptions] = await Promise.all([
+    getUser(request),
+    getApiOptions(request),
+  ]);
+  if (!canWritePosts(user)) {
+    return data<UploadResult>(
+      { error: "Sign in as an author to upload files" },
+      { status: user ? 403 : 401 }
+    );
+  }
+
+  const formData = await request.formData();
+  const file = formData.get("file");
+  if (!(file instanceof File) || file.size === 0) {
+    return data<UploadResult>(
+      { error: "Choose a file to upload" },
+      { status: 400 }
+    );
+  }
+
+  const form = new FormData();
+  form.append("file", file, file.name);
+  try {
+    return data<UploadResult>(
+      { media: await uploadMedia(form, apiOptions) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (!isApiError(error)) throw error;
+    return data<UploadResult>(
+      { error: apiErrorMessage(error) },
+      { status: error.status || 503 }
+    );
+  }
+}
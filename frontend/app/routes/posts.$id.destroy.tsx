@@ -0,0 +1,23 @@
+import { redirect } from "react-router";
+import type { Route } from "./+types/posts.$id.destroy";
+import { isApiError } from "../api/client";
+import { deletePost } from "../api/posts";
+import { requireUser } from "../sessions.server";
+import { safeRedirect } from "../utils/redirect";
+
+export async function action({ params, request }: Route.ActionArgs) {
+  const { apiOptions } = await requireUser(request);
+  const formData = await request.formData();
+
+  try {
+    await deletePost(params.id, apiOptions);
+  } catch (error) {
+    if (isApiError(error) && error.isForbidden) {
+      throw new Response("Forbidden", { status: 403 });
+    }
+    // Deleting something that is already gone is not worth an error page.
+    if (!(isApiError(error) && error.isNotFound)) throw error;
+  }
+
+  return redirect(safeRedirect(formData.get("redirectTo"), "/posts"));
+}
@@ -1,195 +1,171 @@
-import { useState } from "react";
-import { useNavigate } from "react-router";
+import {
+  data,
+  redirect,
+  type ShouldRevalidateFunctionArgs,
+} from "react-router";
 import type { Route } from "./+types/posts.$id.edit";
+import { Box, Paper, Typography } from "@mui/material";
+import ErrorPage from "../components/ErrorPage";
+import PostForm, {
+  toPostValues,
+  type PostFormActionData,
+} from "../components/PostForm";
+import type { AutosaveResult } from "../hooks/useAutosave";
+import { isApiError, type RequestOptions } from "../api/client";
+import { conflictingPost, getPost, updatePost } from "../api/posts";
+import { listTermNames } from "../api/taxonomy";
+import { requireUser } from "../sessions.server";
+import { canModifyPost } from "../utils/permissions";
+import { blogPostPath } from "../utils/postUrls";
+import { apiErrorMessage, rethrowApiError } from "../utils/routeErrors";
 import {
-  Box,
-  Paper,
-  Typography,
-  TextField,
-  Button,
-  FormControl,
-  InputLabel,
-  Select,
-  MenuItem,
-  Grid,
-  Alert,
-} from "@mui/material";
-import SaveIcon from "@mui/icons-material/Save";
-import CancelIcon from "@mui/icons-material/Cancel";
-
-const API_URL = import.meta.env.VITE_API_URL || "http://localhost:8000";
-
-export async function loader({ params }: Route.LoaderArgs) {
-  const response = await fetch(`${API_URL}/posts/${params.id}`);
-  if (!response.ok) {
-    throw new Response("Not Found", { status: 404 });
+  postErrorsFromApi,
+  toPostInput,
+  validatePost,
+} from "../utils/postSchema";
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const { user, apiOptions } = await requireUser(request);
+  try {
+    const post = await getPost(params.id, apiOptions);
+    if (!canModifyPost(user, post)) {
+      throw new Response("Forbidden", { status: 403 });
+    }
+    return { post, ...(await listTermNames(apiOptions)) };
+  } catch (error) {
+    rethrowApiError(error);
   }
-  return await response.json();
 }
 
 export function meta({ data }: Route.MetaArgs) {
-  return [{ title: `Edit: ${data?.title || "Post"}` }];
+  return [{ title: `Edit: ${data?.post.title || "Post"}` }];
 }
 
-export default function EditPost({ loaderData }: Route.ComponentProps) {
-  const navigate = useNavigate();
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState("");
-  const [formData, setFormData] = useState({
-    title: loaderData.title,
-    content: loaderData.content,
-    author: loaderData.author,
-    status: loaderData.status,
-  });
-  const [errors, setErrors] = useState<Record<string, string>>({});
+export function shouldRevalidate({
+  formData,
+  defaultShouldRevalidate,
+}: ShouldRevalidateFunctionArgs) {
+  // Autosaves must not reload the form the user is typing into.
+  if (formData?.get("intent") === "autosave") return false;
+  return defaultShouldRevalidate;
+}
 
-  const validate = () => {
-    const newErrors: Record<string, string> = {};
-    if (!formData.title || formData.title.length < 3) {
-      newErrors.title = "Title must be at least 3 characters";
-    }
-    if (!formData.content) {
-      newErrors.content = "Content is required";
-    }
-    if (!formData.author) {
-      newErrors.author = "Author is required";
-    }
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
+function readVersion(formData: FormData) {
+  const version = Number(formData.get("version"));
+  return Number.isInteger(version) && version > 0 ? version : undefined;
+}
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!validate()) return;
+async function autosave(
+  id: string,
+  formData: FormData,
+  apiOptions: RequestOptions
+) {
+  const result = validatePost({
+    ...Object.fromEntries(formData),
+    status: "draft",
+  });
+  if (!result.success) {
+    return data<AutosaveResult>({
+      ok: false,
+      error: Object.values(result.errors)[0] ?? "Invalid post",
+    });
+  }
 
-    setLoading(true);
-    setError("");
+  try {
+    const post = await updatePost(id, toPostInput(result.values), {
+      ...apiOptions,
+      version: readVersion(formData),
+    });
+    return data<AutosaveResult>({
+      ok: true,
+      savedAt: post.updated_at,
+      version: post.version,
+    });
+  } catch (error) {
+    if (!isApiError(error)) throw error;
+    return data<AutosaveResult>(
+      { ok: false, error: apiErrorMessage(error) },
+      { status: error.status || 503 }
+    );
+  }
+}
 
-    try {
-      const response = await fetch(`${API_URL}/posts/${loaderData.id}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(formData),
-      });
+export async function action({ params, request }: Route.ActionArgs) {
+  const { apiOptions } = await requireUser(request);
+  const formData = await request.formData();
+  if (formData.get("intent") === "autosave") {
+    return autosave(params.id, formData, apiOptions);
+  }
 
-      if (response.ok) {
-        navigate(`/posts/${loaderData.id}`);
-      } else {
-        const data = await response.json();
-        setError(data.error || "Failed to update post");
-      }
-    } catch (err) {
-      setError("Failed to update post. Please try again.");
-    } finally {
-      setLoading(false);
+  const result = validatePost(formData);
+  if (!result.success) {
+    const { values, errors } = result;
+    return data<PostFormActionData>({ values, errors }, { status: 400 });
+  }
+  const { values } = result;
+
+  try {
+    const post = await updatePost(params.id, toPostInput(values), {
+      ...apiOptions,
+      version: readVersion(formData),
+    });
+    return redirect(blogPostPath(post));
+  } catch (error) {
+    if (!isApiError(error)) throw error;
+    if (error.isNotFound) {
+      throw new Response("Not Found", { status: 404 });
     }
-  };
-
-  const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
-  ) => {
-    const { name, value } = e.target;
-    setFormData((prev) => ({ ...prev, [name]: value }));
-    if (errors[name]) {
-      setErrors((prev) => ({ ...prev, [name]: "" }));
+    const conflict = conflictingPost(error);
+    if (conflict) {
+      return data<PostFormActionData>(
+        { values, errors: {}, conflict },
+        { status: 409 }
+      );
     }
-  };
+    return data<PostFormActionData>(
+      { values, ...postErrorsFromApi(error) },
+      { status: error.status || 503 }
+    );
+  }
+}
+
+export default function EditPost({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  // Autosave results go to the fetcher; only rejected form posts land here.
+  const rejected =
+    actionData && "values" in actionData ? actionData : undefined;
+  const { post } = loaderData;
 
   return (
-    <Box sx={{ maxWidth: 800, mx: "auto" }}>
+    <Box sx={{ maxWidth: 1200, mx: "auto" }}>
       <Paper elevation={3} sx={{ p: 4 }}>
         <Typography variant="h4" component="h1" gutterBottom>
           Edit Post
         </Typography>
 
-        {error && (
-          <Alert severity="error" sx={{ mb: 2 }}>
-            {error}
-          </Alert>
-        )}
-
-        <Box component="form" onSubmit={handleSubmit} noValidate>
-          <Grid container spacing={3}>
-            <Grid item xs={12}>
-              <TextField
-                fullWidth
-                label="Title"
-                name="title"
-                value={formData.title}
-                onChange={handleChange}
-                error={!!errors.title}
-                helperText={errors.title}
-                required
-              />
-            </Grid>
-
-            <Grid item xs={12} sm={6}>
-              <TextField
-                fullWidth
-                label="Author"
-                name="author"
-                value={formData.author}
-                onChange={handleChange}
-                error={!!errors.author}
-                helperText={errors.author}
-                required
-              />
-            </Grid>
-
-            <Grid item xs={12} sm={6}>
-              <FormControl fullWidth>
-                <InputLabel>Status</InputLabel>
-                <Select
-                  name="status"
-                  value={formData.status}
-                  onChange={(e) =>
-                    setFormData({ ...formData, status: e.target.value })
-                  }
-                  label="Status"
-                >
-                  <MenuItem value="draft">Draft</MenuItem>
-                  <MenuItem value="published">Published</MenuItem>
-                </Select>
-              </FormControl>
-            </Grid>
-
-            <Grid item xs={12}>
-              <TextField
-                fullWidth
-                multiline
-                rows={10}
-                label="Content"
-                name="content"
-                value={formData.content}
-                onChange={handleChange}
-                error={!!errors.content}
-                helperText={errors.content}
-                required
-              />
-            </Grid>
-
-            <Grid item xs={12}>
-              <Box sx={{ display: "flex", gap: 2, justifyContent: "flex-end" }}>
-                <Button
-                  variant="outlined"
-                  startIcon={<CancelIcon />}
-                  onClick={() => navigate(`/posts/${loaderData.id}`)}
-                >
-                  Cancel
-                </Button>
-                <Button
-                  type="submit"
-                  variant="contained"
-                  startIcon={<SaveIcon />}
-                  disabled={loading}
-                >
-                  {loading ? "Saving..." : "Save Changes"}
-                </Button>
-              </Box>
-            </Grid>
-          </Grid>
-        </Box>
+        <PostForm
+          initialValues={toPostValues(post)}
+          version={post.version}
+          submittedValues={rejected?.values}
+          errors={rejected?.errors}
+          formError={rejected?.formError}
+          conflict={rejected?.conflict}
+          submitLabel="Save Changes"
+          cancelTo={blogPostPath(post)}
+          draftKey={`post-draft:${post.id}`}
+          categoryOptions={loaderData.categoryOptions}
+          tagOptions={loaderData.tagOptions}
+          autosaveAction={
+            post.status === "draft" ? `/posts/${post.id}/edit` : undefined
+          }
+        />
       </Paper>
     </Box>
   );
 }
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  return <ErrorPage error={error} />;
+}
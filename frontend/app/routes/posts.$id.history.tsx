@@ -0,0 +1,275 @@
+import {
+  data,
+  Form,
+  Link,
+  redirect,
+  useSubmit,
+  type ShouldRevalidateFunctionArgs,
+} from "react-router";
+import type { Route } from "./+types/posts.$id.history";
+import {
+  Alert,
+  Box,
+  Button,
+  Paper,
+  TextField,
+  Typography,
+} from "@mui/material";
+import ArrowBackIcon from "@mui/icons-material/ArrowBack";
+import { isApiError } from "../api/client";
+import { getPost } from "../api/posts";
+import { getRevision, listRevisions, restoreRevision } from "../api/revisions";
+import type { RevisionField } from "../api/types";
+import DiffView, { type DiffLayout } from "../components/DiffView";
+import ErrorPage from "../components/ErrorPage";
+import RevisionList from "../components/RevisionList";
+import { useOptionalUser } from "../hooks/useUser";
+import { requireUser } from "../sessions.server";
+import { diffLines, hasChanges } from "../utils/diff";
+import { canModifyPost } from "../utils/permissions";
+import { blogPostPath } from "../utils/postUrls";
+import { apiErrorMessage, rethrowApiError } from "../utils/routeErrors";
+
+const fieldLabels: Record<RevisionField, string> = {
+  title: "Title",
+  author: "Author",
+  status: "Status",
+  content: "Content",
+};
+
+function readVersion(value: string | null) {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : undefined;
+}
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const { apiOptions } = await requireUser(request);
+  const searchParams = new URL(request.url).searchParams;
+  const layout: DiffLayout =
+    searchParams.get("view") === "split" ? "split" : "inline";
+
+  try {
+    const [post, revisions] = await Promise.all([
+      getPost(params.id, apiOptions),
+      listRevisions(params.id, apiOptions),
+    ]);
+
+    // By default, show what the latest write changed.
+    const to = readVersion(searchParams.get("to")) ?? post.version;
+    const from =
+      readVersion(searchParams.get("from")) ??
+      revisions.find((revision) => revision.version < to)?.version;
+
+    const [toRevision, fromRevision] = await Promise.all([
+      getRevision(params.id, to, apiOptions),
+      from === undefined ? null : getRevision(params.id, from, apiOptions),
+    ]);
+
+    return { post, revisions, from: fromRevision, to: toRevision, layout };
+  } catch (error) {
+    rethrowApiError(error);
+  }
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  return [{ title: `History: ${data?.post.title || "Post"}` }];
+}
+
+export function shouldRevalidate({
+  actionStatus,
+  defaultShouldRevalidate,
+}: ShouldRevalidateFunctionArgs) {
+  // A conflicting restore means there is a newer revision to list.
+  if (actionStatus === 409) return true;
+  return defaultShouldRevalidate;
+}
+
+export async function action({ params, request }: Route.ActionArgs) {
+  const { apiOptions } = await requireUser(request);
+  const formData = await request.formData();
+  const revision = readVersion(String(formData.get("revision")));
+  if (revision === undefined) {
+    return data({ error: "Choose a version to restore" }, { status: 400 });
+  }
+
+  try {
+    const post = await restoreRevision(params.id, revision, {
+      ...apiOptions,
+      version: readVersion(String(formData.get("version"))),
+    });
+    return redirect(blogPostPath(post));
+  } catch (error) {
+    if (!isApiError(error)) throw error;
+    if (error.isNotFound) {
+      throw new Response("Not Found", { status: 404 });
+    }
+    if (error.isForbidden) {
+      throw new Response("Forbidden", { status: 403 });
+    }
+    return data(
+      {
+        error: error.isConflict
+          ? "The post was saved again since this page loaded. Check the latest version before restoring."
+          : apiErrorMessage(error),
+      },
+      { status: error.status || 503 }
+    );
+  }
+}
+
+export default function PostHistory({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  const { post, revisions, from, to, layout } = loaderData;
+  const user = useOptionalUser();
+  const submit = useSubmit();
+
+  const changes = from
+    ? (Object.keys(fieldLabels) as RevisionField[])
+        .map((field) => ({ field, lines: diffLines(from[field], to[field]) }))
+        .filter(({ lines }) => hasChanges(lines))
+    : [];
+
+  const submitOnChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const form = event.target.closest("form");
+    if (form) submit(form);
+  };
+
+  const compareTo = (version: number) => {
+    const params = new URLSearchParams({
+      from: String(version),
+      to: String(post.version),
+    });
+    if (layout === "split") params.set("view", layout);
+    return `?${params}`;
+  };
+
+  return (
+    <Box sx={{ maxWidth: 1400, mx: "auto" }}>
+      <Button
+        component={Link}
+        to={blogPostPath(post)}
+        startIcon={<ArrowBackIcon />}
+        sx={{ mb: 2 }}
+      >
+        Back to Post
+      </Button>
+
+      <Typography variant="h4" component="h1" gutterBottom>
+        History: {post.title}
+      </Typography>
+
+      {actionData?.error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {actionData.error}
+        </Alert>
+      )}
+
+      <Box
+        sx={{
+          display: "grid",
+          gridTemplateColumns: { xs: "1fr", md: "320px minmax(0, 1fr)" },
+          gap: 3,
+          alignItems: "start",
+        }}
+      >
+        <Paper variant="outlined">
+          <RevisionList
+            revisions={revisions}
+            currentVersion={post.version}
+            compareTo={compareTo}
+            canRestore={canModifyPost(user, post)}
+          />
+        </Paper>
+
+        <Paper elevation={3} sx={{ p: 3, minWidth: 0 }}>
+          <Box
+            component={Form}
+            method="get"
+            key={`${from?.version}-${to.version}-${layout}`}
+            sx={{
+              display: "flex",
+              flexWrap: "wrap",
+              gap: 2,
+              alignItems: "center",
+              mb: 3,
+            }}
+          >
+            <TextField
+              select
+              size="small"
+              label="From"
+              name="from"
+              defaultValue={from?.version ?? ""}
+              onChange={submitOnChange}
+              SelectProps={{ native: true }}
+              sx={{ minWidth: 140 }}
+            >
+              {revisions.map((revision) => (
+                <option key={revision.id} value={revision.version}>
+                  Version {revision.version}
+                </option>
+              ))}
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label="To"
+              name="to"
+              defaultValue={to.version}
+              onChange={submitOnChange}
+              SelectProps={{ native: true }}
+              sx={{ minWidth: 140 }}
+            >
+              {revisions.map((revision) => (
+                <option key={revision.id} value={revision.version}>
+                  Version {revision.version}
+                </option>
+              ))}
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label="View"
+              name="view"
+              defaultValue={layout}
+              onChange={submitOnChange}
+              SelectProps={{ native: true }}
+              sx={{ minWidth: 150 }}
+            >
+              <option value="inline">Inline</option>
+              <option value="split">Side by side</option>
+            </TextField>
+            <Button type="submit" variant="outlined">
+              Compare
+            </Button>
+          </Box>
+
+          {!from ? (
+            <Typography color="text.secondary">
+              This post has not been edited since it was created.
+            </Typography>
+          ) : changes.length === 0 ? (
+            <Typography color="text.secondary">
+              Versions {from.version} and {to.version} are identical.
+            </Typography>
+          ) : (
+            changes.map(({ field, lines }) => (
+              <Box key={field} sx={{ mb: 3 }}>
+                <Typography variant="subtitle2" gutterBottom>
+                  {fieldLabels[field]}
+                </Typography>
+                <DiffView lines={lines} layout={layout} />
+              </Box>
+            ))
+          )}
+        </Paper>
+      </Box>
+    </Box>
+  );
+}
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  return <ErrorPage error={error} />;
+}
@@ -1,94 +1,111 @@
-import { Link } from "react-router";
+import { data, redirect } from "react-router";
 import type { Route } from "./+types/posts.$id";
-import {
-  Box,
-  Paper,
-  Typography,
-  Button,
-  Chip,
-  Divider,
-} from "@mui/material";
-import EditIcon from "@mui/icons-material/Edit";
-import ArrowBackIcon from "@mui/icons-material/ArrowBack";
+import { isApiError } from "../api/client";
+import { createComment } from "../api/comments";
+import { getPost } from "../api/posts";
+import { createReviewComment } from "../api/reviews";
+import type { CommentActionData } from "../components/Comments";
+import ErrorPage from "../components/ErrorPage";
+import type { ReviewCommentActionData } from "../components/ReviewComments";
+import { getApiOptions, requireUser } from "../sessions.server";
+import { blogPostPath } from "../utils/postUrls";
+import { apiErrorMessage, rethrowApiError } from "../utils/routeErrors";
 
-const API_URL = import.meta.env.VITE_API_URL || "http://localhost:8000";
-
-export async function loader({ params }: Route.LoaderArgs) {
-  const response = await fetch(`${API_URL}/posts/${params.id}`);
-  if (!response.ok) {
-    throw new Response("Not Found", { status: 404 });
+/** Numeric post links predate slugs; send them on to the post's blog URL. */
+export async function loader({ params, request }: Route.LoaderArgs) {
+  try {
+    const post = await getPost(params.id, await getApiOptions(request));
+    return redirect(blogPostPath(post), 301);
+  } catch (error) {
+    rethrowApiError(error);
   }
-  return await response.json();
 }
 
-export function meta({ data }: Route.MetaArgs) {
-  return [
-    { title: data?.title || "Post" },
-    { name: "description", content: data?.content?.substring(0, 160) },
-  ];
+/**
+ * The forms on a post's blog page post here: `intent=review` for the review
+ * comments of its author and editors, `intent=comment` for readers' comments.
+ */
+export async function action({ params, request, context }: Route.ActionArgs) {
+  const formData = await request.formData();
+  switch (formData.get("intent")) {
+    case "review":
+      return reviewAction(params.id, request, formData);
+    case "comment":
+      return commentAction(params.id, request, formData, context.clientIp);
+    default:
+      throw new Response("Bad Request", { status: 400 });
+  }
 }
 
-export default function PostDetail({ loaderData }: Route.ComponentProps) {
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
-    });
-  };
-
-  return (
-    <Box sx={{ maxWidth: 900, mx: "auto" }}>
-      <Button
-        component={Link}
-        to="/posts"
-        startIcon={<ArrowBackIcon />}
-        sx={{ mb: 2 }}
-      >
-        Back to Posts
-      </Button>
-
-      <Paper elevation={3} sx={{ p: 4 }}>
-        <Box sx={{ display: "flex", justifyContent: "space-between", mb: 2 }}>
-          <Chip
-            label={loaderData.status}
-            color={loaderData.status === "published" ? "success" : "default"}
-          />
-          <Button
-            component={Link}
-            to={`/posts/${loaderData.id}/edit`}
-            variant="outlined"
-            startIcon={<EditIcon />}
-          >
-            Edit Post
-          </Button>
-        </Box>
-
-        <Typography variant="h3" component="h1" gutterBottom>
-          {loaderData.title}
-        </Typography>
-
-        <Typography variant="subtitle1" color="text.secondary" gutterBottom>
-          By {loaderData.author} • {formatDate(loaderData.created_at)}
-        </Typography>
+async function reviewAction(
+  postId: string,
+  request: Request,
+  formData: FormData
+) {
+  const { apiOptions } = await requireUser(request);
+  const body = String(formData.get("body") ?? "").trim();
+  if (!body) {
+    return data<ReviewCommentActionData>(
+      { error: "Comment is required" },
+      { status: 400 }
+    );
+  }
+  try {
+    await createReviewComment(postId, { body }, apiOptions);
+    return data<ReviewCommentActionData>({ error: null });
+  } catch (error) {
+    if (!isApiError(error)) throw error;
+    return data<ReviewCommentActionData>(
+      { error: apiErrorMessage(error) },
+      { status: error.status || 503 }
+    );
+  }
+}
 
-        <Divider sx={{ my: 3 }} />
+async function commentAction(
+  postId: string,
+  request: Request,
+  formData: FormData,
+  clientIp: string | undefined
+) {
+  const apiOptions = await getApiOptions(request);
+  const body = String(formData.get("body") ?? "").trim();
+  if (!body) {
+    return data<CommentActionData>(
+      { error: "Comment is required", status: null },
+      { status: 400 }
+    );
+  }
+  const parentId = Number(formData.get("parent_id"));
 
-        <Typography
-          variant="body1"
-          sx={{ whiteSpace: "pre-wrap", lineHeight: 1.8 }}
-        >
-          {loaderData.content}
-        </Typography>
+  // The backend limits comments per visitor address. This server makes the
+  // request, so it names the visitor (as server.js worked them out, never
+  // from headers they could forge); otherwise every visitor would share
+  // this server's allowance.
+  const headers = new Headers();
+  if (clientIp) headers.set("X-Client-Ip", clientIp);
 
-        <Divider sx={{ my: 3 }} />
+  try {
+    const comment = await createComment(
+      postId,
+      {
+        body,
+        author_name: String(formData.get("author_name") ?? ""),
+        parent_id: parentId > 0 ? parentId : null,
+        website: String(formData.get("website") ?? ""),
+      },
+      { ...apiOptions, headers }
+    );
+    return data<CommentActionData>({ error: null, status: comment.status });
+  } catch (error) {
+    if (!isApiError(error)) throw error;
+    return data<CommentActionData>(
+      { error: apiErrorMessage(error), status: null },
+      { status: error.status || 503 }
+    );
+  }
+}
 
-        <Typography variant="caption" color="text.secondary">
-          Last updated: {formatDate(loaderData.updated_at)}
-        </Typography>
-      </Paper>
-    </Box>
-  );
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  return <ErrorPage error={error} />;
 }
@@ -1,187 +1,109 @@
-import { useState } from "react";
-import { useNavigate } from "react-router";
+import { data, redirect } from "react-router";
 import type { Route } from "./+types/posts.new";
+import { Box, Paper, Typography } from "@mui/material";
+import ErrorPage from "../components/ErrorPage";
+import PostForm, { type PostFormActionData } from "../components/PostForm";
+import { isApiError } from "../api/client";
+import { createPost } from "../api/posts";
+import { listTermNames } from "../api/taxonomy";
+import { requireRole } from "../sessions.server";
+import { canSetStatus, canWritePosts } from "../utils/permissions";
+import { blogPostPath } from "../utils/postUrls";
+import { rethrowApiError } from "../utils/routeErrors";
 import {
-  Box,
-  Paper,
-  Typography,
-  TextField,
-  Button,
-  FormControl,
-  InputLabel,
-  Select,
-  MenuItem,
-  Grid,
-  Alert,
-} from "@mui/material";
-import SaveIcon from "@mui/icons-material/Save";
-import CancelIcon from "@mui/icons-material/Cancel";
-
-const API_URL = import.meta.env.VITE_API_URL || "http://localhost:8000";
-
-export function meta() {
-  return [{ title: "Create New Post" }];
-}
-
-export default function NewPost() {
-  const navigate = useNavigate();
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState("");
-  const [formData, setFormData] = useState({
+  postErrorsFromApi,
+  toPostInput,
+  validatePost,
+  type PostValues,
+} from "../utils/postSchema";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { user, apiOptions } = await requireRole(request, canWritePosts);
+  const emptyPost: PostValues = {
     title: "",
+    slug: "",
     content: "",
-    author: "",
+    author: user.display_name,
     status: "draft",
-  });
-  const [errors, setErrors] = useState<Record<string, string>>({});
-
-  const validate = () => {
-    const newErrors: Record<string, string> = {};
-    if (!formData.title || formData.title.length < 3) {
-      newErrors.title = "Title must be at least 3 characters";
-    }
-    if (!formData.content) {
-      newErrors.content = "Content is required";
-    }
-    if (!formData.author) {
-      newErrors.author = "Author is required";
-    }
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    publish_at: "",
+    category: "",
+    tags: "",
+    cover_image: "",
+    excerpt: "",
   };
+  try {
+    return { emptyPost, ...(await listTermNames(apiOptions)) };
+  } catch (error) {
+    rethrowApiError(error);
+  }
+}
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!validate()) return;
-
-    setLoading(true);
-    setError("");
-
-    try {
-      const response = await fetch(`${API_URL}/posts`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(formData),
-      });
-
-      if (response.ok) {
-        navigate("/posts");
-      } else {
-        const data = await response.json();
-        setError(data.error || "Failed to create post");
-      }
-    } catch (err) {
-      setError("Failed to create post. Please try again.");
-    } finally {
-      setLoading(false);
-    }
-  };
+export function meta() {
+  return [{ title: "Create New Post" }];
+}
 
-  const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
-  ) => {
-    const { name, value } = e.target;
-    setFormData((prev) => ({ ...prev, [name]: value }));
-    if (errors[name]) {
-      setErrors((prev) => ({ ...prev, [name]: "" }));
-    }
-  };
+export async function action({ request }: Route.ActionArgs) {
+  const { user, apiOptions } = await requireRole(request, canWritePosts);
+  const formData = await request.formData();
+  // Posts are always credited to whoever is signed in.
+  const result = validatePost({
+    ...Object.fromEntries(formData),
+    author: user.display_name,
+  });
+  if (!result.success) {
+    const { values, errors } = result;
+    return data<PostFormActionData>({ values, errors }, { status: 400 });
+  }
+  const { values } = result;
+  if (!canSetStatus(user, undefined, values.status)) {
+    return data<PostFormActionData>(
+      {
+        values,
+        errors: { status: "Only editors and admins can publish posts" },
+      },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const post = await createPost(toPostInput(values), apiOptions);
+    return redirect(blogPostPath(post));
+  } catch (error) {
+    if (!isApiError(error)) throw error;
+    return data<PostFormActionData>(
+      { values, ...postErrorsFromApi(error) },
+      { status: error.status || 503 }
+    );
+  }
+}
 
+export default function NewPost({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
   return (
-    <Box sx={{ maxWidth: 800, mx: "auto" }}>
+    <Box sx={{ maxWidth: 1200, mx: "auto" }}>
       <Paper elevation={3} sx={{ p: 4 }}>
         <Typography variant="h4" component="h1" gutterBottom>
           Create New Post
         </Typography>
 
-        {error && (
-          <Alert severity="error" sx={{ mb: 2 }}>
-            {error}
-          </Alert>
-        )}
-
-        <Box component="form" onSubmit={handleSubmit} noValidate>
-          <Grid container spacing={3}>
-            <Grid item xs={12}>
-              <TextField
-                fullWidth
-                label="Title"
-                name="title"
-                value={formData.title}
-                onChange={handleChange}
-                error={!!errors.title}
-                helperText={errors.title}
-                required
-              />
-            </Grid>
-
-            <Grid item xs={12} sm={6}>
-              <TextField
-                fullWidth
-                label="Author"
-                name="author"
-                value={formData.author}
-                onChange={handleChange}
-                error={!!errors.author}
-                helperText={errors.author}
-                required
-              />
-            </Grid>
-
-            <Grid item xs={12} sm={6}>
-              <FormControl fullWidth>
-                <InputLabel>Status</InputLabel>
-                <Select
-                  name="status"
-                  value={formData.status}
-                  onChange={(e) =>
-                    setFormData({ ...formData, status: e.target.value })
-                  }
-                  label="Status"
-                >
-                  <MenuItem value="draft">Draft</MenuItem>
-                  <MenuItem value="published">Published</MenuItem>
-                </Select>
-              </FormControl>
-            </Grid>
-
-            <Grid item xs={12}>
-              <TextField
-                fullWidth
-                multiline
-                rows={10}
-                label="Content"
-                name="content"
-                value={formData.content}
-                onChange={handleChange}
-                error={!!errors.content}
-                helperText={errors.content}
-                required
-              />
-            </Grid>
-
-            <Grid item xs={12}>
-              <Box sx={{ display: "flex", gap: 2, justifyContent: "flex-end" }}>
-                <Button
-                  variant="outlined"
-                  startIcon={<CancelIcon />}
-                  onClick={() => navigate("/posts")}
-                >
-                  Cancel
-                </Button>
-                <Button
-                  type="submit"
-                  variant="contained"
-                  startIcon={<SaveIcon />}
-                  disabled={loading}
-                >
-                  {loading ? "Saving..." : "Create Post"}
-                </Button>
-              </Box>
-            </Grid>
-          </Grid>
-        </Box>
+        <PostForm
+          initialValues={loaderData.emptyPost}
+          submittedValues={actionData?.values}
+          errors={actionData?.errors}
+          formError={actionData?.formError}
+          submitLabel="Create Post"
+          cancelTo="/posts"
+          draftKey="post-draft:new"
+          categoryOptions={loaderData.categoryOptions}
+          tagOptions={loaderData.tagOptions}
+        />
       </Paper>
     </Box>
   );
 }
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  return <ErrorPage error={error} />;
+}
@@ -1,38 +1,137 @@
-import { useLoaderData } from "react-router";
+import { Link, useSearchParams } from "react-router";
 import type { Route } from "./+types/posts";
+import { Alert, Box, Button, Grid, Typography } from "@mui/material";
+import AddIcon from "@mui/icons-material/Add";
+import { listPosts } from "../api/posts";
+import { getPostFacets } from "../api/taxonomy";
+import ErrorPage from "../components/ErrorPage";
+import Pagination from "../components/Pagination";
+import PostCard from "../components/PostCard";
+import PostFiltersBar from "../components/PostFiltersBar";
+import TagFacets from "../components/TagFacets";
+import SearchBox from "../components/SearchBox";
+import { requireUser } from "../sessions.server";
+import { parsePostQuery } from "../utils/postQuery";
+import { rethrowApiError } from "../utils/routeErrors";
 
-const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+export async function loader({ request }: Route.LoaderArgs) {
+  const { apiOptions } = await requireUser(request);
+  const query = parsePostQuery(new URL(request.url).searchParams);
+
+  const { status, author, category, tag } = query;
 
-export async function loader() {
   try {
-    const response = await fetch(`${API_URL}/api/posts`);
-    const data = await response.json();
-    return { posts: data };
+    const [posts, facets] = await Promise.all([
+      listPosts(query, apiOptions),
+      getPostFacets({ status, author, category, tag }, apiOptions),
+    ]);
+    return { query, posts, facets };
   } catch (error) {
-    console.error("Error fetching posts:", error);
-    return { posts: [] };
+    rethrowApiError(error);
   }
 }
 
-export default function Posts() {
-  const { posts } = useLoaderData<typeof loader>();
+export function meta() {
+  return [
+    { title: "Dashboard" },
+    { name: "description", content: "Write, review and manage posts" },
+  ];
+}
+
+export default function Posts({ loaderData }: Route.ComponentProps) {
+  const { query, posts, facets } = loaderData;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const totalPages = Math.ceil(posts.total / posts.per_page);
+  const isFiltered = Boolean(
+    query.status || query.author || query.category || query.tag
+  );
+
+  const handlePageChange = (page: number) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      next.set("page", String(page));
+      return next;
+    });
+  };
 
   return (
-    <div style={{ fontFamily: "system-ui", padding: "2rem" }}>
-      <h1>Blog Posts</h1>
-      {posts.length === 0 ? (
-        <p>No posts yet.</p>
+    <Box>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          flexWrap: "wrap",
+          gap: 2,
+          mb: 3,
+        }}
+      >
+        <Typography variant="h3" component="h1">
+          Dashboard
+        </Typography>
+        <Box sx={{ width: { xs: "100%", sm: 320 } }}>
+          <SearchBox />
+        </Box>
+      </Box>
+
+      <PostFiltersBar
+        key={searchParams.toString()}
+        query={query}
+        categories={facets.categories}
+      />
+      <TagFacets tags={facets.tags} selected={query.tag} />
+
+      {posts.data.length === 0 ? (
+        <Alert
+          severity="info"
+          sx={{ mt: 3 }}
+          action={
+            isFiltered ? (
+              <Button color="inherit" size="small" component={Link} to="/posts">
+                Clear filters
+              </Button>
+            ) : (
+              <Button
+                color="inherit"
+                size="small"
+                component={Link}
+                to="/posts/new"
+                startIcon={<AddIcon />}
+              >
+                New Post
+              </Button>
+            )
+          }
+        >
+          {isFiltered
+            ? "No posts match these filters."
+            : "No posts yet. Create your first post to get started!"}
+        </Alert>
       ) : (
-        <ul>
-          {posts.map((post: any) => (
-            <li key={post.id}>
-              <h2>{post.title}</h2>
-              <p>{post.content}</p>
-              <small>By {post.author}</small>
-            </li>
-          ))}
-        </ul>
+        <>
+          <Grid container spacing={3} sx={{ mt: 1 }}>
+            {posts.data.map((post) => (
+              <Grid item xs={12} sm={6} md={4} key={post.id}>
+                <PostCard post={post} />
+              </Grid>
+            ))}
+          </Grid>
+
+          {totalPages > 1 && (
+            <Pagination
+              currentPage={posts.page}
+              totalPages={totalPages}
+              totalItems={posts.total}
+              perPage={posts.per_page}
+              onPageChange={handlePageChange}
+            />
+          )}
+        </>
       )}
-    </div>
+    </Box>
   );
 }
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  return <ErrorPage error={error} />;
+}
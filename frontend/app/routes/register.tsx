@@ -0,0 +1,154 @@
+import {
+  data,
+  Form,
+  Link,
+  redirect,
+  useNavigation,
+  useSearchParams,
+} from "react-router";
+import type { Route } from "./+types/register";
+import {
+  Alert,
+  Box,
+  Button,
+  Paper,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { register } from "../api/auth";
+import { isApiError } from "../api/client";
+import {
+  accountErrorsFromApi,
+  registerSchema,
+  validateRegistration,
+  type RegisterFieldErrors,
+  type RegisterValues,
+} from "../utils/accountSchema";
+import { createUserSession, getUser } from "../sessions.server";
+
+interface RegisterActionData {
+  values: RegisterValues;
+  errors: RegisterFieldErrors;
+  formError?: string;
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  if (await getUser(request)) return redirect("/posts");
+  return null;
+}
+
+export function meta() {
+  return [{ title: "Register" }];
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const result = validateRegistration(formData);
+  // Never echo the password back into the page.
+  const values = { ...result.values, password: "" };
+  if (!result.success) {
+    return data<RegisterActionData>(
+      { values, errors: result.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const auth = await register(result.values);
+    return createUserSession(request, auth, formData.get("redirectTo"));
+  } catch (error) {
+    if (!isApiError(error)) throw error;
+    return data<RegisterActionData>(
+      { values, ...accountErrorsFromApi(error) },
+      { status: error.status || 503 }
+    );
+  }
+}
+
+const noErrors: RegisterFieldErrors = {};
+
+export default function Register({ actionData }: Route.ComponentProps) {
+  const [searchParams] = useSearchParams();
+  const navigation = useNavigation();
+  // Keep `redirectTo` when switching between sign-in and registration.
+  const search = searchParams.toString();
+  const isSubmitting = navigation.state === "submitting";
+  const errors = actionData?.errors ?? noErrors;
+  const formError = actionData?.formError;
+
+  return (
+    <Box sx={{ maxWidth: 420, mx: "auto" }}>
+      <Paper elevation={3} sx={{ p: 4 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Register
+        </Typography>
+
+        {formError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {formError}
+          </Alert>
+        )}
+
+        <Form method="post" noValidate>
+          <input
+            type="hidden"
+            name="redirectTo"
+            value={searchParams.get("redirectTo") ?? ""}
+          />
+          <TextField
+            fullWidth
+            margin="normal"
+            label="Username"
+            name="username"
+            autoComplete="username"
+            defaultValue={actionData?.values.username}
+            inputProps={{ maxLength: registerSchema.username.maxLength }}
+            error={!!errors.username}
+            helperText={errors.username ?? "Letters, numbers, - and _"}
+            autoFocus
+            required
+          />
+          <TextField
+            fullWidth
+            margin="normal"
+            label="Display name"
+            name="display_name"
+            autoComplete="name"
+            defaultValue={actionData?.values.display_name}
+            inputProps={{ maxLength: registerSchema.display_name.maxLength }}
+            error={!!errors.display_name}
+            helperText={
+              errors.display_name ?? "Shown as the author of your posts"
+            }
+          />
+          <TextField
+            fullWidth
+            margin="normal"
+            label="Password"
+            name="password"
+            type="password"
+            autoComplete="new-password"
+            inputProps={{ maxLength: registerSchema.password.maxLength }}
+            error={!!errors.password}
+            helperText={errors.password ?? "At least 8 characters"}
+            required
+          />
+          <Button
+            type="submit"
+            variant="contained"
+            fullWidth
+            disabled={isSubmitting}
+            sx={{ mt: 2 }}
+          >
+            {isSubmitting ? "Creating account..." : "Create account"}
+          </Button>
+        </Form>
+
+        <Typography variant="body2" sx={{ mt: 3 }}>
+          Already registered?{" "}
+          <Link to={search ? `/login?${search}` : "/login"}>Sign in</Link>
+        </Typography>
+      </Paper>
+    </Box>
+  );
+}
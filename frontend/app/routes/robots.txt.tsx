@@ -0,0 +1,7 @@
+import type { Route } from "./+types/robots.txt";
+import { robotsResponse } from "../utils/sitemap.server";
+
+/** Keeps crawlers out of the dashboard and points them at the sitemap. */
+export function loader({ request }: Route.LoaderArgs) {
+  return robotsResponse(request);
+}
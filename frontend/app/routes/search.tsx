@@ -0,0 +1,124 @@
+import { Link, useSearchParams } from "react-router";
+import type { Route } from "./+types/search";
+import {
+  Alert,
+  Box,
+  Card,
+  CardActionArea,
+  CardContent,
+  Stack,
+  Typography,
+} from "@mui/material";
+import { searchPosts } from "../api/search";
+import Highlight from "../components/Highlight";
+import Pagination from "../components/Pagination";
+import PostStatusChip from "../components/PostStatusChip";
+import SearchBox from "../components/SearchBox";
+import { getApiOptions } from "../sessions.server";
+import { readPage } from "../utils/pagination";
+import { blogPostPath } from "../utils/postUrls";
+import { rethrowApiError } from "../utils/routeErrors";
+
+const PER_PAGE = 10;
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const searchParams = new URL(request.url).searchParams;
+  const q = searchParams.get("q")?.trim() ?? "";
+  const page = readPage(searchParams);
+
+  if (!q) {
+    return { q, results: null };
+  }
+  try {
+    return {
+      q,
+      results: await searchPosts(
+        { q, page, per_page: PER_PAGE },
+        await getApiOptions(request)
+      ),
+    };
+  } catch (error) {
+    rethrowApiError(error);
+  }
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  return [{ title: data?.q ? `Search: ${data.q}` : "Search" }];
+}
+
+export default function Search({ loaderData }: Route.ComponentProps) {
+  const { q, results } = loaderData;
+  const [, setSearchParams] = useSearchParams();
+
+  const handlePageChange = (page: number) => {
+    setSearchParams({ q, page: String(page) });
+  };
+
+  return (
+    <Box sx={{ maxWidth: 900, mx: "auto" }}>
+      <Typography variant="h3" component="h1" gutterBottom>
+        Search
+      </Typography>
+
+      <Box sx={{ mb: 3 }}>
+        <SearchBox key={q} defaultValue={q} autoFocus={!q} />
+      </Box>
+
+      {results && results.total === 0 && (
+        <Alert severity="info">No posts match “{q}”.</Alert>
+      )}
+
+      {results && results.total > 0 && (
+        <>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {results.total} {results.total === 1 ? "result" : "results"} for “
+            {q}”
+          </Typography>
+
+          <Stack spacing={2}>
+            {results.data.map((hit) => (
+              <Card key={hit.id} variant="outlined">
+                <CardActionArea component={Link} to={blogPostPath(hit)}>
+                  <CardContent>
+                    <Box
+                      sx={{
+                        display: "flex",
+                        justifyContent: "space-between",
+                        gap: 2,
+                      }}
+                    >
+                      <Typography variant="h6" component="h2">
+                        <Highlight text={hit.title_highlight} />
+                      </Typography>
+                      <PostStatusChip status={hit.status} size="small" />
+                    </Box>
+                    <Typography
+                      variant="body2"
+                      color="text.secondary"
+                      gutterBottom
+                    >
+                      By {hit.author}
+                    </Typography>
+                    <Typography variant="body2">
+                      <Highlight text={hit.snippet} />
+                    </Typography>
+                  </CardContent>
+                </CardActionArea>
+              </Card>
+            ))}
+          </Stack>
+
+          {results.total > results.per_page && (
+            <Pagination
+              currentPage={results.page}
+              totalPages={Math.ceil(results.total / results.per_page)}
+              totalItems={results.total}
+              perPage={results.per_page}
+              onPageChange={handlePageChange}
+            />
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,7 @@
+import type { Route } from "./+types/sitemap.xml";
+import { sitemapResponse } from "../utils/sitemap.server";
+
+/** Every public page, for search engines; see `sitemapResponse`. */
+export function loader({ request }: Route.LoaderArgs) {
+  return sitemapResponse(request);
+}
@@ -0,0 +1,7 @@
+import type { Route } from "./+types/sitemaps.$page";
+import { sitemapPageResponse } from "../utils/sitemap.server";
+
+/** One file of a sitemap too large for `/sitemap.xml` alone. */
+export function loader({ params, request }: Route.LoaderArgs) {
+  return sitemapPageResponse(request, params.page);
+}
@@ -0,0 +1,61 @@
+import type { Route } from "./+types/tags.$tag";
+import { Box, Typography } from "@mui/material";
+import { listPosts } from "../api/posts";
+import { getTag } from "../api/taxonomy";
+import FeedButton from "../components/FeedButton";
+import PostExcerptList from "../components/PostExcerptList";
+import { feedLinks } from "../utils/feeds";
+import { PUBLIC_PER_PAGE, readPage } from "../utils/pagination";
+import { rethrowApiError } from "../utils/routeErrors";
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  try {
+    const [tag, posts] = await Promise.all([
+      getTag(params.tag),
+      listPosts({
+        page: readPage(request),
+        per_page: PUBLIC_PER_PAGE,
+        status: "published",
+        tag: params.tag,
+      }),
+    ]);
+    return { tag, posts };
+  } catch (error) {
+    rethrowApiError(error);
+  }
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  if (!data) return [{ title: "Tag not found" }];
+  return [
+    { title: `Posts tagged ${data.tag.name}` },
+    {
+      name: "description",
+      content: `Blog posts tagged ${data.tag.name}`,
+    },
+    ...feedLinks(`Posts tagged ${data.tag.name}`, { tag: data.tag.slug }),
+  ];
+}
+
+export default function TagPosts({ loaderData }: Route.ComponentProps) {
+  const { tag, posts } = loaderData;
+
+  return (
+    <Box sx={{ maxWidth: 760, mx: "auto" }}>
+      <Typography variant="overline" color="text.secondary">
+        Tag
+      </Typography>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 2 }}>
+        <Typography variant="h2" component="h1">
+          {tag.name}
+        </Typography>
+        <FeedButton filters={{ tag: tag.slug }} />
+      </Box>
+
+      <PostExcerptList
+        posts={posts}
+        emptyMessage="No published posts have this tag yet."
+      />
+    </Box>
+  );
+}
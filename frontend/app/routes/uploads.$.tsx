@@ -0,0 +1,56 @@
+import type { Route } from "./+types/uploads.$";
+import { API_URL } from "../api/client";
+
+/** Upload names are random hex with an extension; nothing else is served. */
+const UPLOAD_NAME = /^[a-z0-9-]+\.[a-z]+$/;
+
+const FORWARDED_REQUEST_HEADERS = ["If-None-Match", "If-Modified-Since"];
+const FORWARDED_RESPONSE_HEADERS = [
+  "Content-Type",
+  "Content-Length",
+  "ETag",
+  "Last-Modified",
+];
+
+/**
+ * Serves uploaded files from the API, which browsers cannot reach directly,
+ * under the same `/uploads/` paths post content links to. Uploads never
+ * change once written, so browsers may cache them for good.
+ */
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const name = params["*"];
+  if (!UPLOAD_NAME.test(name)) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  const headers = new Headers();
+  for (const header of FORWARDED_REQUEST_HEADERS) {
+    const value = request.headers.get(header);
+    if (value) headers.set(header, value);
+  }
+  let upstream: Response;
+  try {
+    upstream = await fetch(new URL(`/uploads/${name}`, API_URL), {
+      headers,
+      signal: request.signal,
+    });
+  } catch {
+    throw new Response("Service Unavailable", { status: 503 });
+  }
+  if (!upstream.ok && upstream.status !== 304) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  const responseHeaders = new Headers({
+    "Cache-Control": "public, max-age=31536000, immutable",
+    "X-Content-Type-Options": "nosniff",
+  });
+  for (const header of FORWARDED_RESPONSE_HEADERS) {
+    const value = upstream.headers.get(header);
+    if (value) responseHeaders.set(header, value);
+  }
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers: responseHeaders,
+  });
+}
@@ -0,0 +1,116 @@
+import { createCookieSessionStorage, redirect } from "react-router";
+import { getCurrentUser } from "./api/auth";
+import { isApiError, type RequestOptions } from "./api/client";
+import type { User } from "./api/types";
+import { safeRedirect } from "./utils/redirect";
+
+interface SessionData {
+  /** Bearer token issued by the backend at login. */
+  token: string;
+}
+
+// Matches the lifetime of the backend's tokens.
+const SESSION_MAX_AGE = 60 * 60 * 24 * 7;
+
+if (!process.env.SESSION_SECRET && process.env.NODE_ENV === "production") {
+  console.warn("SESSION_SECRET is not set; sessions use an insecure secret");
+}
+
+const sessionStorage = createCookieSessionStorage<SessionData>({
+  cookie: {
+    name: "__session",
+    httpOnly: true,
+    path: "/",
+    sameSite: "lax",
+    secrets: [process.env.SESSION_SECRET ?? "dev-only-insecure-session-secret"],
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_MAX_AGE,
+  },
+});
+
+function getSession(request: Request) {
+  return sessionStorage.getSession(request.headers.get("Cookie"));
+}
+
+/** API request options that act as the signed-in user, if there is one. */
+export async function getApiOptions(request: Request): Promise<RequestOptions> {
+  const session = await getSession(request);
+  return { token: session.get("token") };
+}
+
+// Several loaders ask for the user while serving one request; look it up once.
+const usersByRequest = new WeakMap<Request, Promise<User | null>>();
+
+/**
+ * The signed-in user, fetched from the backend so role changes show up on
+ * the next request. An expired or revoked token counts as signed out.
+ */
+export function getUser(request: Request) {
+  let user = usersByRequest.get(request);
+  if (!user) {
+    user = getApiOptions(request).then(async (apiOptions) => {
+      if (!apiOptions.token) return null;
+      try {
+        return await getCurrentUser(apiOptions);
+      } catch (error) {
+        if (isApiError(error) && error.isUnauthorized) return null;
+        throw error;
+      }
+    });
+    usersByRequest.set(request, user);
+  }
+  return user;
+}
+
+/**
+ * Returns the signed-in user and their API options, or sends anonymous
+ * visitors to the login page with a way back to where they were.
+ */
+export async function requireUser(request: Request) {
+  const [user, apiOptions] = await Promise.all([
+    getUser(request),
+    getApiOptions(request),
+  ]);
+  if (!user) {
+    const url = new URL(request.url);
+    const params = new URLSearchParams({
+      redirectTo: `${url.pathname}${url.search}`,
+    });
+    throw redirect(`/login?${params}`);
+  }
+  return { user, apiOptions };
+}
+
+/**
+ * Like `requireUser`, but answers 403 when the user's role fails `allowed`
+ * (one of the checks in utils/permissions.ts).
+ */
+export async function requireRole(
+  request: Request,
+  allowed: (user: User) => boolean
+) {
+  const session = await requireUser(request);
+  if (!allowed(session.user)) {
+    throw new Response("Forbidden", { status: 403 });
+  }
+  return session;
+}
+
+export async function createUserSession(
+  request: Request,
+  { token }: SessionData,
+  redirectTo: FormDataEntryValue | null
+) {
+  const session = await getSession(request);
+  session.set("token", token);
+  return redirect(safeRedirect(redirectTo, "/posts"), {
+    headers: { "Set-Cookie": await sessionStorage.commitSession(session) },
+  });
+}
+
+export async function logout(request: Request) {
+  const session = await getSession(request);
+  return redirect("/", {
+    headers: { "Set-Cookie": await sessionStorage.destroySession(session) },
+  });
+}
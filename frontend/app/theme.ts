@@ -0,0 +1,75 @@
+import { experimental_extendTheme as extendTheme } from "@mui/material/styles";
+
+// One theme with a palette per color scheme. CssVarsProvider (root.tsx)
+// turns the palettes into CSS variables and switches between them with the
+// `data-mui-color-scheme` attribute on <html>, so the server can render the
+// reader's scheme and changing it never re-renders the page.
+
+/** The color schemes the theme has a palette for. */
+export const COLOR_SCHEMES = ["light", "dark"] as const;
+export type ColorScheme = (typeof COLOR_SCHEMES)[number];
+
+/** What a reader can choose: a scheme, or whatever their system prefers. */
+export const COLOR_MODES = ["system", ...COLOR_SCHEMES] as const;
+export type ColorMode = (typeof COLOR_MODES)[number];
+
+export const colorModeLabels: Record<ColorMode, string> = {
+  system: "System",
+  light: "Light",
+  dark: "Dark",
+};
+
+export const isColorMode = (value: unknown): value is ColorMode =>
+  COLOR_MODES.includes(value as ColorMode);
+
+/** The attribute on <html> that selects the color scheme. */
+export const COLOR_SCHEME_ATTRIBUTE = "data-mui-color-scheme";
+
+/**
+ * Where CssVarsProvider keeps the mode in localStorage. root.tsx copies the
+ * cookie there before hydrating, so the cookie always wins.
+ */
+export const COLOR_MODE_STORAGE_KEY = "color-mode";
+
+const theme = extendTheme({
+  colorSchemes: {
+    light: {
+      palette: {
+        primary: {
+          main: "#1976d2",
+        },
+        secondary: {
+          main: "#dc004e",
+        },
+      },
+    },
+    dark: {
+      palette: {
+        primary: {
+          main: "#90caf9",
+        },
+        secondary: {
+          main: "#f48fb1",
+        },
+        background: {
+          default: "#121212",
+          paper: "#1e1e1e",
+        },
+      },
+    },
+  },
+  typography: {
+    fontFamily: "Roboto, Arial, sans-serif",
+  },
+  components: {
+    MuiButton: {
+      styleOverrides: {
+        root: {
+          textTransform: "none",
+        },
+      },
+    },
+  },
+});
+
+export default theme;
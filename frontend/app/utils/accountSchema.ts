@@ -0,0 +1,83 @@
+import { isApiError } from "../api/client";
+import { checkField, trimValue, type FieldRule } from "./postSchema";
+import { apiErrorMessage } from "./routeErrors";
+
+// Registration rules, mirrored by `RegisterUser::validate` in
+// backend/src/validation.rs with the same messages.
+
+export interface RegisterValues {
+  username: string;
+  display_name: string;
+  password: string;
+}
+
+export type RegisterField = keyof RegisterValues;
+export type RegisterFieldErrors = Partial<Record<RegisterField, string>>;
+
+export const registerSchema: Record<RegisterField, FieldRule> = {
+  username: {
+    label: "Username",
+    trim: "both",
+    required: true,
+    minLength: 3,
+    maxLength: 32,
+  },
+  display_name: { label: "Display name", trim: "both", maxLength: 100 },
+  password: {
+    label: "Password",
+    trim: "none",
+    required: true,
+    minLength: 8,
+    maxLength: 128,
+  },
+};
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]*$/;
+
+const fields = Object.keys(registerSchema) as RegisterField[];
+
+export type RegisterValidationResult =
+  | { success: true; values: RegisterValues }
+  | { success: false; values: RegisterValues; errors: RegisterFieldErrors };
+
+export function validateRegistration(
+  formData: FormData
+): RegisterValidationResult {
+  const values = {} as RegisterValues;
+  const errors: RegisterFieldErrors = {};
+
+  for (const field of fields) {
+    const rule = registerSchema[field];
+    const raw = formData.get(field);
+    const value = typeof raw === "string" ? raw : "";
+    values[field] = trimValue(rule, value);
+
+    const error = checkField(rule, values[field]);
+    if (error) errors[field] = error;
+  }
+  if (!errors.username && !USERNAME_PATTERN.test(values.username)) {
+    errors.username = "Username may only contain letters, numbers, - and _";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, values, errors };
+  }
+  return { success: true, values };
+}
+
+/** Maps a failed register/login call onto a field or a form-level message. */
+export function accountErrorsFromApi(error: unknown): {
+  errors: RegisterFieldErrors;
+  formError?: string;
+} {
+  if (!isApiError(error)) {
+    return { errors: {}, formError: "Something went wrong. Please try again." };
+  }
+  if (error.isValidation) {
+    const field = fields.find((name) =>
+      error.message.startsWith(`${registerSchema[name].label} `)
+    );
+    if (field) return { errors: { [field]: error.message } };
+  }
+  return { errors: {}, formError: apiErrorMessage(error) };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { diffLines, hasChanges, mergeText, splitRows } from "./diff";
+
+describe("diffLines", () => {
+  it("numbers kept, removed and added lines", () => {
+    expect(diffLines("a\nb\nc", "a\nx\nc\nd")).toEqual([
+      { op: "equal", text: "a", oldLine: 1, newLine: 1 },
+      { op: "delete", text: "b", oldLine: 2 },
+      { op: "insert", text: "x", newLine: 2 },
+      { op: "equal", text: "c", oldLine: 3, newLine: 3 },
+      { op: "insert", text: "d", newLine: 4 },
+    ]);
+  });
+
+  it("treats empty text as no lines", () => {
+    expect(diffLines("", "")).toEqual([]);
+    expect(diffLines("", "a")).toEqual([
+      { op: "insert", text: "a", newLine: 1 },
+    ]);
+  });
+});
+
+describe("hasChanges", () => {
+  it("is false only when every line is kept", () => {
+    expect(hasChanges(diffLines("a\nb", "a\nb"))).toBe(false);
+    expect(hasChanges(diffLines("a\nb", "a"))).toBe(true);
+  });
+});
+
+describe("mergeText", () => {
+  const base = "one\ntwo\nthree\nfour";
+
+  it("combines changes to different lines", () => {
+    expect(
+      mergeText(base, "ONE\ntwo\nthree\nfour", "one\ntwo\nthree\nFOUR")
+    ).toEqual({ text: "ONE\ntwo\nthree\nFOUR", conflicts: 0 });
+  });
+
+  it("takes identical changes once", () => {
+    const changed = "one\n2\nthree\nfour";
+    expect(mergeText(base, changed, changed)).toEqual({
+      text: changed,
+      conflicts: 0,
+    });
+  });
+
+  it("marks lines both sides changed differently", () => {
+    expect(
+      mergeText(base, "one\nmine\nthree\nfour", "one\ntheirs\nthree\nfour")
+    ).toEqual({
+      text: [
+        "one",
+        "<<<<<<< Yours",
+        "mine",
+        "=======",
+        "theirs",
+        ">>>>>>> Theirs",
+        "three",
+        "four",
+      ].join("\n"),
+      conflicts: 1,
+    });
+  });
+});
+
+describe("splitRows", () => {
+  it("pairs removed lines with the lines that replaced them", () => {
+    const rows = splitRows(diffLines("a\nb\nc", "a\nx\ny\nc"));
+    expect(rows.map(({ left, right }) => [left?.text, right?.text])).toEqual([
+      ["a", "a"],
+      ["b", "x"],
+      [undefined, "y"],
+      ["c", "c"],
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+export type DiffOp = "equal" | "insert" | "delete";
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+  /** 1-based line numbers in the old/new text; absent on the other side. */
+  oldLine?: number;
+  newLine?: number;
+}
+
+const splitLines = (text: string) => (text === "" ? [] : text.split("\n"));
+
+/**
+ * Longest-common-subsequence table for two line arrays. Posts are small
+ * enough that the O(n·m) table is not a concern.
+ */
+function lcsTable(a: string[], b: string[]) {
+  const table = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] =
+        a[i] === b[j]
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table;
+}
+
+/** For each line of `a` that is kept in `b`, the index it ends up at. */
+function matchLines(a: string[], b: string[]) {
+  const table = lcsTable(a, b);
+  const matches = new Map<number, number>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches.set(i++, j++);
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+/** Line-by-line diff from `oldText` to `newText`. */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const matches = matchLines(a, b);
+  const lines: DiffLine[] = [];
+  let j = 0;
+
+  for (let i = 0; i <= a.length; i++) {
+    const target = i < a.length ? matches.get(i) : b.length;
+    if (target === undefined) {
+      lines.push({ op: "delete", text: a[i], oldLine: i + 1 });
+      continue;
+    }
+    for (; j < target; j++) {
+      lines.push({ op: "insert", text: b[j], newLine: j + 1 });
+    }
+    if (i < a.length) {
+      lines.push({ op: "equal", text: a[i], oldLine: i + 1, newLine: j + 1 });
+      j++;
+    }
+  }
+
+  return lines;
+}
+
+export function hasChanges(lines: DiffLine[]) {
+  return lines.some((line) => line.op !== "equal");
+}
+
+export interface MergeResult {
+  text: string;
+  /** Number of regions both sides changed differently. */
+  conflicts: number;
+}
+
+const sameLines = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((line, index) => line === b[index]);
+
+/**
+ * Three-way line merge. Regions changed on only one side are taken from that
+ * side; regions both sides changed differently are wrapped in git-style
+ * conflict markers for the user to resolve by hand.
+ */
+export function mergeText(
+  base: string,
+  mine: string,
+  theirs: string
+): MergeResult {
+  const o = splitLines(base);
+  const a = splitLines(mine);
+  const b = splitLines(theirs);
+  const toMine = matchLines(o, a);
+  const toTheirs = matchLines(o, b);
+  const out: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let ai = 0;
+  let bi = 0;
+
+  const flush = (oEnd: number, aEnd: number, bEnd: number) => {
+    const oChunk = o.slice(i, oEnd);
+    const aChunk = a.slice(ai, aEnd);
+    const bChunk = b.slice(bi, bEnd);
+    if (sameLines(aChunk, oChunk)) {
+      out.push(...bChunk);
+    } else if (sameLines(bChunk, oChunk) || sameLines(aChunk, bChunk)) {
+      out.push(...aChunk);
+    } else {
+      conflicts++;
+      out.push("<<<<<<< Yours", ...aChunk, "=======", ...bChunk);
+      out.push(">>>>>>> Theirs");
+    }
+  };
+
+  // Walk the base text from one line both sides kept to the next.
+  for (let k = 0; k < o.length; k++) {
+    const ak = toMine.get(k);
+    const bk = toTheirs.get(k);
+    if (ak === undefined || bk === undefined) continue;
+    flush(k, ak, bk);
+    out.push(o[k]);
+    i = k + 1;
+    ai = ak + 1;
+    bi = bk + 1;
+  }
+  flush(o.length, a.length, b.length);
+
+  return { text: out.join("\n"), conflicts };
+}
+
+/** One row of a side-by-side diff; a side is absent where lines were added or removed. */
+export interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+/**
+ * Lays a `diffLines` result out in two columns, pairing each run of deleted
+ * lines with the run of inserted lines that replaced it.
+ */
+export function splitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].op === "equal") {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+    const deleted: DiffLine[] = [];
+    const inserted: DiffLine[] = [];
+    for (; i < lines.length && lines[i].op !== "equal"; i++) {
+      (lines[i].op === "delete" ? deleted : inserted).push(lines[i]);
+    }
+    for (let k = 0; k < Math.max(deleted.length, inserted.length); k++) {
+      rows.push({ left: deleted[k], right: inserted[k] });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,82 @@
+import { Transform, type TransformCallback } from "node:stream";
+import type { EmotionCache } from "@emotion/cache";
+import createEmotionServer, {
+  type EmotionServer,
+} from "@emotion/server/create-instance";
+
+type StyleChunk = { key: string; ids: string[]; css: string };
+
+/**
+ * The stream React pipes the page into. Each time React has written a batch
+ * of HTML it calls `flush()`; the Emotion styles rendered since the previous
+ * batch go out with it, so no markup reaches the browser before its CSS. The
+ * first batch is the document shell and its styles go at the end of <head>;
+ * later ones (Suspense boundaries resolving) get theirs just ahead of them.
+ *
+ * The cache must be the request's own, with `compat` set so Emotion keeps the
+ * CSS for us instead of rendering a <style> beside every component. The tags
+ * written here are the ones the client's cache adopts when it is created.
+ */
+export class EmotionStyleInliner extends Transform {
+  private readonly cache: EmotionCache;
+  private readonly server: EmotionServer;
+  private readonly sent = new Set<string>();
+  private pending: Buffer[] = [];
+  private inHead = true;
+
+  constructor(cache: EmotionCache) {
+    super();
+    this.cache = cache;
+    this.server = createEmotionServer(cache);
+  }
+
+  _transform(chunk: Buffer, _encoding: string, callback: TransformCallback) {
+    this.pending.push(chunk);
+    callback();
+  }
+
+  /** Called by React after each batch, as it does for compression streams. */
+  flush() {
+    if (this.pending.length > 0) this.push(this.takeBatch());
+  }
+
+  _flush(callback: TransformCallback) {
+    this.flush();
+    callback();
+  }
+
+  private takeBatch() {
+    const html = Buffer.concat(this.pending).toString("utf8");
+    this.pending = [];
+    const styles = this.newStyleTags();
+    if (!styles) return html;
+    if (this.inHead) {
+      const headEnd = html.indexOf("</head>");
+      if (headEnd !== -1) {
+        this.inHead = false;
+        return html.slice(0, headEnd) + styles + html.slice(headEnd);
+      }
+    }
+    return styles + html;
+  }
+
+  /** <style> tags for everything inserted into the cache and not yet sent. */
+  private newStyleTags() {
+    const { key, inserted, registered } = this.cache;
+    const global: StyleChunk[] = [];
+    const regular: StyleChunk = { key, ids: [], css: "" };
+    for (const [id, rules] of Object.entries(inserted)) {
+      if (this.sent.has(id) || typeof rules !== "string") continue;
+      this.sent.add(id);
+      if (registered[`${key}-${id}`] === undefined) {
+        // Each global style gets its own tag so it can be removed on its own.
+        global.push({ key: `${key}-global`, ids: [id], css: rules });
+      } else {
+        regular.ids.push(id);
+        regular.css += rules;
+      }
+    }
+    const styles = regular.ids.length > 0 ? [...global, regular] : global;
+    return this.server.constructStyleTagsFromChunks({ html: "", styles });
+  }
+}
@@ -0,0 +1,270 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown, { defaultUrlTransform } from "react-markdown";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeSlug from "rehype-slug";
+import remarkGfm from "remark-gfm";
+import { listPosts } from "../api/posts";
+import { getTag } from "../api/taxonomy";
+import type { PaginatedResponse, Post, Term } from "../api/types";
+import { postSummary } from "./markdown";
+import { authorPath, blogPostPath, tagPath } from "./postUrls";
+import { SITE_NAME, absoluteUrl } from "./site";
+import { rethrowApiError } from "./routeErrors";
+import { getSiteUrl } from "./site.server";
+import { escapeXml } from "./xml";
+import {
+  FEED_FORMATS,
+  feedPath,
+  type FeedFilters,
+  type FeedFormat,
+} from "./feeds";
+
+/** How many of the latest posts a feed carries. */
+const FEED_SIZE = 20;
+
+/** Feed readers poll; let them and any proxy in between reuse a copy. */
+const CACHE_CONTROL = "public, max-age=900, stale-while-revalidate=3600";
+
+interface Feed {
+  title: string;
+  description: string;
+  /** The HTML page the feed mirrors. */
+  pageUrl: string;
+  /** The feed's own URL, in the format being rendered. */
+  selfUrl: string;
+  /** When the newest change to any post in the feed was made. */
+  updated: Date;
+  posts: Post[];
+  siteUrl: string;
+}
+
+function readFilters(request: Request): FeedFilters {
+  const params = new URL(request.url).searchParams;
+  return {
+    tag: params.get("tag")?.trim() || undefined,
+    author: params.get("author")?.trim() || undefined,
+  };
+}
+
+async function loadFeed(request: Request, format: FeedFormat): Promise<Feed> {
+  const siteUrl = getSiteUrl(request);
+  const filters = readFilters(request);
+  // Anonymous, like the public blog: feeds only ever carry published posts.
+  let tag: Term | null;
+  let posts: PaginatedResponse<Post>;
+  try {
+    [tag, posts] = await Promise.all([
+      filters.tag ? getTag(filters.tag) : null,
+      listPosts({
+        per_page: FEED_SIZE,
+        status: "published",
+        tag: filters.tag,
+        author: filters.author,
+      }),
+    ]);
+  } catch (error) {
+    rethrowApiError(error);
+  }
+
+  let title = SITE_NAME;
+  let description = "The latest posts from the blog";
+  let pagePath = "/";
+  if (tag) {
+    title = `${SITE_NAME}: posts tagged ${tag.name}`;
+    description = `The latest posts tagged ${tag.name}`;
+    pagePath = tagPath(tag);
+  }
+  if (filters.author) {
+    title = `${title} by ${filters.author}`;
+    description = `${description} by ${filters.author}`;
+    if (!tag) pagePath = authorPath(filters.author);
+  }
+
+  const updated = posts.data.reduce(
+    (latest, post) => Math.max(latest, Date.parse(post.updated_at)),
+    0
+  );
+  return {
+    title,
+    description,
+    pageUrl: absoluteUrl(pagePath, siteUrl),
+    selfUrl: absoluteUrl(feedPath(format, filters), siteUrl),
+    // An empty feed has nothing to date it by; say it changed just now.
+    updated: updated ? new Date(updated) : new Date(),
+    posts: posts.data,
+    siteUrl,
+  };
+}
+
+/**
+ * The post rendered to HTML for readers that show whole posts. Sanitized the
+ * same way as on the site; links and images are made absolute, since a feed
+ * reader has no page to resolve `/uploads/…` against.
+ */
+function renderContent(post: Post, postUrl: string) {
+  return renderToStaticMarkup(
+    createElement(ReactMarkdown, {
+      children: post.content,
+      remarkPlugins: [remarkGfm],
+      rehypePlugins: [rehypeSanitize, rehypeSlug],
+      urlTransform: (url) => {
+        const safe = defaultUrlTransform(url);
+        try {
+          return safe && absoluteUrl(safe, postUrl);
+        } catch {
+          return "";
+        }
+      },
+    })
+  );
+}
+
+interface FeedEntry {
+  url: string;
+  /** Stays the same when the post's slug changes. */
+  id: string;
+  published: Date;
+  updated: Date;
+  summary: string;
+  html: string;
+  image: string | null;
+  /** The category's name, then the tags'. */
+  categories: string[];
+}
+
+function toEntry(post: Post, siteUrl: string): FeedEntry {
+  const url = absoluteUrl(blogPostPath(post), siteUrl);
+  return {
+    url,
+    id: absoluteUrl(`/posts/${post.id}`, siteUrl),
+    published: new Date(post.publish_at ?? post.created_at),
+    updated: new Date(post.updated_at),
+    summary: postSummary(post, 300),
+    html: renderContent(post, url),
+    image: post.cover_image && absoluteUrl(post.cover_image, siteUrl),
+    categories: [post.category, ...post.tags].flatMap((term) =>
+      term ? [term.name] : []
+    ),
+  };
+}
+
+function renderRss(feed: Feed) {
+  const items = feed.posts.map((post) => {
+    const entry = toEntry(post, feed.siteUrl);
+    return `
+    <item>
+      <title>${escapeXml(post.title)}</title>
+      <link>${escapeXml(entry.url)}</link>
+      <guid isPermaLink="true">${escapeXml(entry.id)}</guid>
+      <pubDate>${entry.published.toUTCString()}</pubDate>
+      <dc:creator>${escapeXml(post.author)}</dc:creator>${entry.categories
+        .map((name) => `\n      <category>${escapeXml(name)}</category>`)
+        .join("")}
+      <description>${escapeXml(entry.summary)}</description>
+      <content:encoded>${escapeXml(entry.html)}</content:encoded>
+    </item>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.pageUrl)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <language>en</language>
+    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(feed.selfUrl)}" rel="self" type="${FEED_FORMATS.rss.contentType}"/>${items.join("")}
+  </channel>
+</rss>
+`;
+}
+
+function renderAtom(feed: Feed) {
+  const entries = feed.posts.map((post) => {
+    const entry = toEntry(post, feed.siteUrl);
+    return `
+  <entry>
+    <title>${escapeXml(post.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(entry.url)}"/>
+    <id>${escapeXml(entry.id)}</id>
+    <published>${entry.published.toISOString()}</published>
+    <updated>${entry.updated.toISOString()}</updated>
+    <author><name>${escapeXml(post.author)}</name></author>${entry.categories
+      .map((name) => `\n    <category term="${escapeXml(name)}"/>`)
+      .join("")}
+    <summary>${escapeXml(entry.summary)}</summary>
+    <content type="html">${escapeXml(entry.html)}</content>
+  </entry>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link rel="alternate" type="text/html" href="${escapeXml(feed.pageUrl)}"/>
+  <link rel="self" type="${FEED_FORMATS.atom.contentType}" href="${escapeXml(feed.selfUrl)}"/>
+  <id>${escapeXml(feed.selfUrl)}</id>
+  <updated>${feed.updated.toISOString()}</updated>${entries.join("")}
+</feed>
+`;
+}
+
+function renderJsonFeed(feed: Feed) {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.pageUrl,
+    feed_url: feed.selfUrl,
+    language: "en",
+    items: feed.posts.map((post) => {
+      const entry = toEntry(post, feed.siteUrl);
+      return {
+        id: entry.id,
+        url: entry.url,
+        title: post.title,
+        summary: entry.summary,
+        content_html: entry.html,
+        ...(entry.image ? { image: entry.image } : {}),
+        date_published: entry.published.toISOString(),
+        date_modified: entry.updated.toISOString(),
+        authors: [{ name: post.author }],
+        tags: entry.categories,
+      };
+    }),
+  });
+}
+
+const renderers: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJsonFeed,
+};
+
+/**
+ * Answers a feed request. `?tag=<slug>` and `?author=<name>` narrow the feed
+ * to one tag or one author; readers that sent `If-Modified-Since` get a 304
+ * when no post in the feed has changed since.
+ */
+export async function feedResponse(request: Request, format: FeedFormat) {
+  const feed = await loadFeed(request, format);
+  // HTTP dates have no milliseconds; compare at the same precision.
+  const lastModified = feed.updated.toUTCString();
+  const headers = {
+    "Cache-Control": CACHE_CONTROL,
+    "Last-Modified": lastModified,
+  };
+
+  const since = Date.parse(request.headers.get("If-Modified-Since") ?? "");
+  if (feed.posts.length > 0 && since >= Date.parse(lastModified)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(renderers[format](feed), {
+    headers: {
+      ...headers,
+      "Content-Type": `${FEED_FORMATS[format].contentType}; charset=utf-8`,
+    },
+  });
+}
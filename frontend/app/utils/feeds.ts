@@ -0,0 +1,48 @@
+/** Feed formats and the paths they are served at. */
+export const FEED_FORMATS = {
+  rss: {
+    path: "/feed.xml",
+    contentType: "application/rss+xml",
+    label: "RSS",
+  },
+  atom: {
+    path: "/atom.xml",
+    contentType: "application/atom+xml",
+    label: "Atom",
+  },
+  json: {
+    path: "/feed.json",
+    contentType: "application/feed+json",
+    label: "JSON Feed",
+  },
+} as const;
+
+export type FeedFormat = keyof typeof FEED_FORMATS;
+
+/** Narrows the whole blog's feed to one tag (by slug) or one author. */
+export interface FeedFilters {
+  tag?: string;
+  author?: string;
+}
+
+export function feedPath(format: FeedFormat, filters: FeedFilters = {}) {
+  const query = new URLSearchParams();
+  if (filters.tag) query.set("tag", filters.tag);
+  if (filters.author) query.set("author", filters.author);
+  const search = query.toString();
+  return FEED_FORMATS[format].path + (search ? `?${search}` : "");
+}
+
+/**
+ * `<link rel="alternate">` meta descriptors that let browsers and feed
+ * readers discover a page's feeds.
+ */
+export function feedLinks(title: string, filters: FeedFilters = {}) {
+  return (Object.keys(FEED_FORMATS) as FeedFormat[]).map((format) => ({
+    tagName: "link",
+    rel: "alternate",
+    type: FEED_FORMATS[format].contentType,
+    title: `${title} (${FEED_FORMATS[format].label})`,
+    href: feedPath(format, filters),
+  }));
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { extractToc, markdownToPlainText, postSummary } from "./markdown";
+
+describe("extractToc", () => {
+  it("lists ATX and setext headings in order", () => {
+    const markdown = [
+      "Title",
+      "=====",
+      "",
+      "## Setup",
+      "",
+      "Usage",
+      "-----",
+    ].join("\n");
+    expect(extractToc(markdown)).toEqual([
+      { depth: 1, text: "Title", id: "title" },
+      { depth: 2, text: "Setup", id: "setup" },
+      { depth: 2, text: "Usage", id: "usage" },
+    ]);
+  });
+
+  it("uses the rendered text and rehype-slug's ids", () => {
+    expect(extractToc("## The *`main`* [loop](https://x.test) ##")).toEqual([
+      { depth: 2, text: "The main loop", id: "the-main-loop" },
+    ]);
+  });
+
+  it("numbers repeated headings like the rendered anchors", () => {
+    expect(extractToc("## Notes\n\n## Notes").map(({ id }) => id)).toEqual([
+      "notes",
+      "notes-1",
+    ]);
+  });
+
+  it("skips code blocks and headings deeper than maxDepth", () => {
+    const markdown = "```\n# not a heading\n```\n\n#### Deep\n\n### Kept";
+    expect(extractToc(markdown)).toEqual([
+      { depth: 3, text: "Kept", id: "kept" },
+    ]);
+    expect(extractToc(markdown, 4).map(({ text }) => text)).toEqual([
+      "Deep",
+      "Kept",
+    ]);
+  });
+});
+
+describe("markdownToPlainText", () => {
+  it("drops Markdown syntax", () => {
+    expect(
+      markdownToPlainText(
+        "# Title\n\n> A **bold** [link](/x)\n\n- `code`\n\n---"
+      )
+    ).toBe("Title A bold link code");
+  });
+});
+
+describe("postSummary", () => {
+  const content = "# Title\n\nThe quick brown fox jumps over the lazy dog.";
+
+  it("summarizes the content when there is no excerpt", () => {
+    expect(postSummary({ excerpt: null, content }, 100)).toBe(
+      "Title The quick brown fox jumps over the lazy dog."
+    );
+    expect(postSummary({ excerpt: null, content }, 20)).toBe(
+      "Title The quick…"
+    );
+  });
+
+  it("prefers the excerpt, cut the same way", () => {
+    const excerpt = "A hand-written summary of the post";
+    expect(postSummary({ excerpt, content }, 100)).toBe(excerpt);
+    expect(postSummary({ excerpt, content }, 20)).toBe("A hand-written…");
+  });
+
+  it("cuts mid-word rather than losing most of the text", () => {
+    expect(
+      postSummary({ excerpt: "Antidisestablishmentarianism", content }, 10)
+    ).toBe("Antidises…");
+  });
+});
@@ -0,0 +1,102 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkRehype from "remark-rehype";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeSlug from "rehype-slug";
+import rehypeHighlight from "rehype-highlight";
+import { headingRank } from "hast-util-heading-rank";
+import { toString } from "hast-util-to-string";
+import { visit } from "unist-util-visit";
+
+export interface TocEntry {
+  depth: number;
+  text: string;
+  id: string;
+}
+
+// How <Markdown> turns posts into HTML. Sanitize first so the ids and
+// highlight classes added afterwards survive. Raw HTML in posts is never
+// rendered: react-markdown skips it without rehype-raw, and the sanitizer
+// strips anything unsafe that remains.
+export const remarkPlugins = [remarkGfm];
+const headingPlugins = [rehypeSanitize, rehypeSlug];
+export const rehypePlugins = [...headingPlugins, rehypeHighlight];
+
+// The rendering pipeline up to the heading ids, as react-markdown sets it up.
+const tocProcessor = unified()
+  .use(remarkParse)
+  .use(remarkPlugins)
+  .use(remarkRehype, { allowDangerousHtml: true })
+  .use(headingPlugins)
+  .freeze();
+
+/** Drops inline Markdown syntax, keeping the text a reader would see. */
+function stripInline(text: string) {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/(\*\*|__|\*|_|~~)(.+?)\1/g, "$2")
+    .replace(/<[^>]+>/g, "");
+}
+
+/**
+ * Collects the headings of a Markdown document from the tree <Markdown>
+ * renders, so every kind of heading is found and the ids are the anchors
+ * rehype-slug gives them.
+ */
+export function extractToc(markdown: string, maxDepth = 3): TocEntry[] {
+  const tree = tocProcessor.runSync(tocProcessor.parse(markdown));
+  const entries: TocEntry[] = [];
+
+  visit(tree, "element", (node) => {
+    const depth = headingRank(node);
+    const id = node.properties.id;
+    if (depth && depth <= maxDepth && typeof id === "string") {
+      entries.push({ depth, text: toString(node), id });
+    }
+  });
+
+  return entries;
+}
+
+/** Plain-text rendition of Markdown for cards, excerpts and meta tags. */
+export function markdownToPlainText(markdown: string, maxLength?: number) {
+  const text = stripInline(
+    markdown
+      .replace(/^\s*(```|~~~).*$/gm, "")
+      .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+      .replace(/^\s*([-*_]\s*){3,}$/gm, "")
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return maxLength === undefined ? text : truncate(text, maxLength);
+}
+
+/**
+ * Shortens `text` to at most `maxLength` characters, ellipsis included,
+ * ending at a word boundary unless that would drop more than half of it.
+ */
+function truncate(text: string, maxLength: number) {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  const end = lastSpace > maxLength / 2 ? lastSpace : cut.length;
+  return `${cut.slice(0, end).trimEnd()}…`;
+}
+
+/**
+ * What listings, feeds and link previews say about a post: its excerpt when
+ * it has one, otherwise the start of its content, either way cut to
+ * `maxLength`.
+ */
+export function postSummary(
+  post: { excerpt: string | null; content: string },
+  maxLength: number
+) {
+  return post.excerpt === null
+    ? markdownToPlainText(post.content, maxLength)
+    : truncate(post.excerpt.trim(), maxLength);
+}
@@ -0,0 +1,17 @@
+/** Page size of the public blog listings. */
+export const PUBLIC_PER_PAGE = 10;
+
+/** A positive whole number from the URL, `fallback` when missing or malformed. */
+export function readPositiveInt(value: string | null, fallback: number) {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** The `?page=` of a listing URL, 1 when missing or malformed. */
+export function readPage(source: Request | URLSearchParams) {
+  const searchParams =
+    source instanceof URLSearchParams
+      ? source
+      : new URL(source.url).searchParams;
+  return readPositiveInt(searchParams.get("page"), 1);
+}
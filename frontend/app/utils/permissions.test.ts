@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { PostStatus, User, UserRole } from "../api/types";
+import {
+  canManageUsers,
+  canModerateComments,
+  canModifyPost,
+  canPublish,
+  canSetStatus,
+  canWritePosts,
+  isAllowedTransition,
+} from "./permissions";
+import { POST_STATUSES } from "./postSchema";
+
+const user = (role: UserRole, id = 1): User => ({
+  id,
+  username: role,
+  display_name: role,
+  role,
+  created_at: "2024-01-01T00:00:00Z",
+});
+
+describe("role checks", () => {
+  it("grant each role what the roles below it can do", () => {
+    const table = (["reader", "author", "editor", "admin"] as const).map(
+      (role) => [
+        canWritePosts(user(role)),
+        canPublish(user(role)),
+        canModerateComments(user(role)),
+        canManageUsers(user(role)),
+      ]
+    );
+    expect(table).toEqual([
+      [false, false, false, false],
+      [true, false, false, false],
+      [true, true, true, false],
+      [true, true, true, true],
+    ]);
+  });
+
+  it("deny signed-out visitors", () => {
+    expect(canWritePosts(null)).toBe(false);
+    expect(canModifyPost(null, { owner_id: null })).toBe(false);
+  });
+});
+
+describe("canModifyPost", () => {
+  it("lets authors change only their own posts", () => {
+    expect(canModifyPost(user("author", 1), { owner_id: 1 })).toBe(true);
+    expect(canModifyPost(user("author", 1), { owner_id: 2 })).toBe(false);
+  });
+
+  it("lets editors change any post", () => {
+    expect(canModifyPost(user("editor", 1), { owner_id: 2 })).toBe(true);
+  });
+
+  it("does not let readers change a post they once owned", () => {
+    expect(canModifyPost(user("reader", 1), { owner_id: 1 })).toBe(false);
+  });
+});
+
+// The same table as the tests of `is_allowed_transition` in
+// backend/src/workflow.rs.
+describe("isAllowedTransition", () => {
+  const allowedFrom = (from: PostStatus) =>
+    POST_STATUSES.filter((to) => isAllowedTransition(from, to));
+
+  it("lets drafts, posts in review and scheduled posts move anywhere", () => {
+    expect(allowedFrom("draft")).toEqual(POST_STATUSES);
+    expect(allowedFrom("in_review")).toEqual(POST_STATUSES);
+    expect(allowedFrom("scheduled")).toEqual(POST_STATUSES);
+  });
+
+  it("lets published posts only be archived or withdrawn", () => {
+    expect(allowedFrom("published")).toEqual([
+      "draft",
+      "published",
+      "archived",
+    ]);
+  });
+
+  it("lets archived posts only return to draft", () => {
+    expect(allowedFrom("archived")).toEqual(["draft", "archived"]);
+  });
+});
+
+describe("canSetStatus", () => {
+  it("keeps authors between draft and in review", () => {
+    const author = user("author");
+    expect(canSetStatus(author, undefined, "in_review")).toBe(true);
+    expect(canSetStatus(author, "in_review", "draft")).toBe(true);
+    expect(canSetStatus(author, "draft", "published")).toBe(false);
+    expect(canSetStatus(author, "published", "draft")).toBe(false);
+  });
+
+  it("lets an author keep a post's current status", () => {
+    expect(canSetStatus(user("author"), "published", "published")).toBe(true);
+  });
+
+  it("lets editors publish but not skip the workflow", () => {
+    const editor = user("editor");
+    expect(canSetStatus(editor, undefined, "published")).toBe(true);
+    expect(canSetStatus(editor, "published", "scheduled")).toBe(false);
+  });
+});
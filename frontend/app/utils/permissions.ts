@@ -0,0 +1,72 @@
+import type { Post, PostStatus, User, UserRole } from "../api/types";
+
+// Mirrors `Role` in backend/src/models.rs and the checks in
+// backend/src/handlers.rs. The backend has the final say; these decide which
+// routes and buttons to offer.
+
+/** From least to most privileged; each role can do what the ones before can. */
+export const ROLES = [
+  "reader",
+  "author",
+  "editor",
+  "admin",
+] as const satisfies readonly UserRole[];
+
+export const roleLabels: Record<UserRole, string> = {
+  reader: "Reader",
+  author: "Author",
+  editor: "Editor",
+  admin: "Admin",
+};
+
+const atLeast = (user: User | null, role: UserRole) =>
+  !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(role);
+
+export const canWritePosts = (user: User | null) => atLeast(user, "author");
+
+export const canPublish = (user: User | null) => atLeast(user, "editor");
+
+export const canModerateComments = (user: User | null) =>
+  atLeast(user, "editor");
+
+export const canManageUsers = (user: User | null) => atLeast(user, "admin");
+
+/** Authors may change their own posts, editors and admins any post. */
+export function canModifyPost(user: User | null, post: Pick<Post, "owner_id">) {
+  if (!user) return false;
+  const owns = canWritePosts(user) && post.owner_id === user.id;
+  return owns || atLeast(user, "editor");
+}
+
+/** Statuses authors may move their own posts between. */
+const AUTHOR_STATUSES: readonly PostStatus[] = ["draft", "in_review"];
+
+/** Mirrors `is_allowed_transition` in backend/src/workflow.rs. */
+export function isAllowedTransition(from: PostStatus, to: PostStatus) {
+  if (from === to || to === "draft" || from === "draft") return true;
+  switch (from) {
+    case "in_review":
+    case "scheduled":
+      return true;
+    case "published":
+      return to === "archived";
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether `user` may move a post from `from` (undefined for a new post) to
+ * `to`. Authors stay between draft and in review; scheduling, publishing and
+ * archiving are for editors and admins.
+ */
+export function canSetStatus(
+  user: User | null,
+  from: PostStatus | undefined,
+  to: PostStatus
+) {
+  if (from && !isAllowedTransition(from, to)) return false;
+  const staysWithAuthors =
+    AUTHOR_STATUSES.includes(to) && (!from || AUTHOR_STATUSES.includes(from));
+  return from === to || staysWithAuthors || canPublish(user);
+}
@@ -0,0 +1,42 @@
+import type { PaginationParams, PostFilters, PostSort } from "../api/types";
+import { readPage, readPositiveInt } from "./pagination";
+import { POST_STATUSES } from "./postSchema";
+
+export const POST_SORTS: { value: PostSort; label: string }[] = [
+  { value: "newest", label: "Newest first" },
+  { value: "oldest", label: "Oldest first" },
+  { value: "updated", label: "Recently updated" },
+  { value: "title", label: "Title (A–Z)" },
+];
+
+export const PER_PAGE_OPTIONS = [6, 12, 24, 48];
+const DEFAULT_PER_PAGE = 12;
+
+export type PostQuery = Required<PaginationParams> & PostFilters;
+
+function oneOf<T extends string>(value: string | null, allowed: readonly T[]) {
+  return allowed.includes(value as T) ? (value as T) : undefined;
+}
+
+/**
+ * Reads the posts index state out of the URL so every view of the list can be
+ * bookmarked. Unknown or malformed values are dropped rather than sent on to
+ * the API.
+ */
+export function parsePostQuery(searchParams: URLSearchParams): PostQuery {
+  return {
+    page: readPage(searchParams),
+    per_page: Math.min(
+      readPositiveInt(searchParams.get("per_page"), DEFAULT_PER_PAGE),
+      100
+    ),
+    status: oneOf(searchParams.get("status"), POST_STATUSES),
+    author: searchParams.get("author")?.trim() || undefined,
+    category: searchParams.get("category")?.trim() || undefined,
+    tag: searchParams.get("tag")?.trim() || undefined,
+    sort: oneOf(
+      searchParams.get("sort"),
+      POST_SORTS.map((sort) => sort.value)
+    ),
+  };
+}
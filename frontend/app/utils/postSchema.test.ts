@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkField,
+  postSchema,
+  splitTags,
+  trimValue,
+  validatePost,
+} from "./postSchema";
+
+const valid = {
+  title: "Hello world",
+  content: "Some content",
+  author: "Ada",
+  status: "draft",
+};
+
+describe("checkField", () => {
+  it("requires required fields", () => {
+    expect(checkField(postSchema.title, "")).toBe("Title is required");
+    expect(checkField(postSchema.slug, "")).toBeUndefined();
+  });
+
+  it("enforces length limits", () => {
+    expect(checkField(postSchema.title, "Hi")).toBe(
+      "Title must be at least 3 characters"
+    );
+    expect(checkField(postSchema.author, "a".repeat(101))).toBe(
+      "Author must be at most 100 characters"
+    );
+  });
+
+  it("counts characters, not UTF-16 units", () => {
+    expect(checkField(postSchema.title, "😀😀")).toBe(
+      "Title must be at least 3 characters"
+    );
+    expect(checkField(postSchema.author, "😀".repeat(100))).toBeUndefined();
+  });
+
+  it("checks allowed values", () => {
+    expect(checkField(postSchema.status, "deleted")).toBe(
+      "Status must be one of: draft, in_review, scheduled, published, archived"
+    );
+  });
+});
+
+describe("trimValue", () => {
+  it("trims as the rule says", () => {
+    expect(trimValue(postSchema.title, "  a  ")).toBe("a");
+    expect(trimValue(postSchema.content, "  a  ")).toBe("  a");
+  });
+});
+
+describe("splitTags", () => {
+  it("drops blanks and case-insensitive repeats", () => {
+    expect(splitTags(" rust, ,Rust,web ,")).toEqual(["rust", "web"]);
+  });
+});
+
+describe("validatePost", () => {
+  it("normalizes valid input", () => {
+    const result = validatePost({
+      ...valid,
+      title: "  Hello world ",
+      tags: "a, b, a",
+    });
+    expect(result.success).toBe(true);
+    expect(result.values.title).toBe("Hello world");
+    expect(result.values.tags).toBe("a,b");
+  });
+
+  it("reads form data", () => {
+    const form = new FormData();
+    for (const [field, value] of Object.entries(valid)) {
+      form.set(field, value);
+    }
+    expect(validatePost(form).success).toBe(true);
+  });
+
+  it("reports every invalid field", () => {
+    const result = validatePost({
+      ...valid,
+      title: "",
+      slug: "Not A Slug",
+      cover_image: "javascript:alert(1)",
+      tags: Array.from({ length: 11 }, (_, i) => `tag${i}`).join(","),
+    });
+    expect(result.success).toBe(false);
+    expect(!result.success && Object.keys(result.errors).sort()).toEqual([
+      "cover_image",
+      "slug",
+      "tags",
+      "title",
+    ]);
+  });
+
+  it("requires a future publish date for scheduled posts", () => {
+    const scheduled = { ...valid, status: "scheduled" };
+    expect(validatePost(scheduled)).toMatchObject({
+      errors: { publish_at: "Publish at is required for scheduled posts" },
+    });
+    expect(
+      validatePost({ ...scheduled, publish_at: "2000-01-01T00:00:00Z" })
+    ).toMatchObject({
+      errors: { publish_at: "Publish at must be in the future" },
+    });
+    expect(
+      validatePost({ ...scheduled, publish_at: "2999-01-01T00:00:00Z" }).success
+    ).toBe(true);
+  });
+});
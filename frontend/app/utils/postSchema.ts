@@ -0,0 +1,224 @@
+import { isApiError } from "../api/client";
+import type { CreatePost, PostStatus } from "../api/types";
+import { apiErrorMessage } from "./routeErrors";
+import { SLUG_PATTERN } from "./slug";
+
+// Single source of truth for what a valid post looks like. The post forms run
+// it in the browser for instant feedback, the route actions run it again
+// before calling the API, and backend/src/validation.rs enforces the same
+// rules with the same messages so API errors can be mapped back onto fields.
+
+/** In workflow order. */
+export const POST_STATUSES = [
+  "draft",
+  "in_review",
+  "scheduled",
+  "published",
+  "archived",
+] as const satisfies readonly PostStatus[];
+
+export interface PostValues {
+  title: string;
+  /** "" to have the server make one from the title. */
+  slug: string;
+  content: string;
+  author: string;
+  status: PostStatus;
+  /** ISO timestamp, or "" when the post is not scheduled. */
+  publish_at: string;
+  /** Category name, or "" for none. */
+  category: string;
+  /** Tag names joined with commas, which tag names may not contain. */
+  tags: string;
+  /** `/uploads/…` path or http(s) URL, or "" for none. */
+  cover_image: string;
+  /** "" to have listings and previews summarize the content. */
+  excerpt: string;
+}
+
+export type PostField = keyof PostValues;
+export type PostFieldErrors = Partial<Record<PostField, string>>;
+
+export interface FieldRule {
+  label: string;
+  /**
+   * "both" strips surrounding whitespace, "end" only trailing whitespace,
+   * "none" keeps the value as typed.
+   */
+  trim: "both" | "end" | "none";
+  required?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  oneOf?: readonly string[];
+}
+
+export const postSchema: Record<PostField, FieldRule> = {
+  title: {
+    label: "Title",
+    trim: "both",
+    required: true,
+    minLength: 3,
+    maxLength: 200,
+  },
+  slug: { label: "Slug", trim: "both", maxLength: 100 },
+  author: { label: "Author", trim: "both", required: true, maxLength: 100 },
+  content: {
+    label: "Content",
+    trim: "end",
+    required: true,
+    maxLength: 100_000,
+  },
+  status: {
+    label: "Status",
+    trim: "both",
+    required: true,
+    oneOf: POST_STATUSES,
+  },
+  publish_at: { label: "Publish at", trim: "both" },
+  category: { label: "Category", trim: "both", maxLength: 50 },
+  tags: { label: "Tags", trim: "both" },
+  cover_image: { label: "Cover image", trim: "both", maxLength: 500 },
+  excerpt: { label: "Excerpt", trim: "both", maxLength: 300 },
+};
+
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 40;
+
+/** Splits a `tags` value into trimmed names, dropping blanks and repeats. */
+export function splitTags(tags: string) {
+  const names: string[] = [];
+  for (const raw of tags.split(",")) {
+    const name = raw.trim();
+    const seen = names.some((n) => n.toLowerCase() === name.toLowerCase());
+    if (name && !seen) names.push(name);
+  }
+  return names;
+}
+
+const fields = Object.keys(postSchema) as PostField[];
+
+export function trimValue(rule: FieldRule, value: string) {
+  if (rule.trim === "both") return value.trim();
+  return rule.trim === "end" ? value.trimEnd() : value;
+}
+
+export function checkField(rule: FieldRule, value: string) {
+  if (!value) {
+    return rule.required ? `${rule.label} is required` : undefined;
+  }
+  // Counted in code points, as the backend does, not UTF-16 units: an emoji
+  // is one character.
+  const length = [...value].length;
+  if (rule.minLength && length < rule.minLength) {
+    return `${rule.label} must be at least ${rule.minLength} characters`;
+  }
+  if (rule.maxLength && length > rule.maxLength) {
+    return `${rule.label} must be at most ${rule.maxLength} characters`;
+  }
+  if (rule.oneOf && !rule.oneOf.includes(value)) {
+    return `${rule.label} must be one of: ${rule.oneOf.join(", ")}`;
+  }
+  return undefined;
+}
+
+export type PostValidationResult =
+  | { success: true; values: PostValues }
+  | { success: false; values: PostValues; errors: PostFieldErrors };
+
+/**
+ * Normalizes and validates raw post input. `values` is always returned so a
+ * rejected form can be re-rendered with what the user typed.
+ */
+export function validatePost(
+  input: FormData | Partial<Record<PostField, unknown>>
+): PostValidationResult {
+  const read = (field: PostField) =>
+    input instanceof FormData ? input.get(field) : input[field];
+
+  const values = {} as Record<PostField, string>;
+  const errors: PostFieldErrors = {};
+
+  for (const field of fields) {
+    const rule = postSchema[field];
+    const raw = read(field);
+    const value = typeof raw === "string" ? raw : "";
+    values[field] = trimValue(rule, value);
+
+    const error = checkField(rule, values[field]);
+    if (error) errors[field] = error;
+  }
+
+  if (!errors.slug && values.slug && !SLUG_PATTERN.test(values.slug)) {
+    errors.slug =
+      "Slug may only contain lowercase letters and numbers separated by single hyphens";
+  }
+
+  if (!errors.cover_image && !isCoverImage(values.cover_image)) {
+    errors.cover_image =
+      "Cover image must be an uploaded image or an http(s) URL";
+  }
+
+  const tags = splitTags(values.tags);
+  values.tags = tags.join(",");
+  if (tags.some((tag) => [...tag].length > MAX_TAG_LENGTH)) {
+    errors.tags = `Tags must be at most ${MAX_TAG_LENGTH} characters each`;
+  } else if (tags.length > MAX_TAGS) {
+    errors.tags = `Tags must be at most ${MAX_TAGS} per post`;
+  }
+
+  if (!errors.status && !errors.publish_at) {
+    const error = checkSchedule(values.status, values.publish_at);
+    if (error) errors.publish_at = error;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, values: values as PostValues, errors };
+  }
+  return { success: true, values: values as PostValues };
+}
+
+/** Mirrors `check_cover_image` in backend/src/validation.rs. */
+function isCoverImage(value: string) {
+  if (!value) return true;
+  return /^(\/uploads\/|https?:\/\/)\S*$/.test(value);
+}
+
+/** Mirrors `check_schedule` in backend/src/workflow.rs. */
+function checkSchedule(status: string, publishAt: string) {
+  if (status !== "scheduled") return undefined;
+  if (!publishAt) return "Publish at is required for scheduled posts";
+  const time = Date.parse(publishAt);
+  if (Number.isNaN(time)) return "Publish at must be a valid date";
+  if (time <= Date.now()) return "Publish at must be in the future";
+  return undefined;
+}
+
+/** The API payload for validated form values. */
+export function toPostInput({
+  publish_at,
+  tags,
+  ...values
+}: PostValues): CreatePost {
+  const input = { ...values, tags: splitTags(tags) };
+  return publish_at ? { ...input, publish_at } : input;
+}
+
+/**
+ * Maps a backend 400 ValidationError onto the field its message names.
+ * Anything that is not a field error comes back as `formError`.
+ */
+export function postErrorsFromApi(error: unknown): {
+  errors: PostFieldErrors;
+  formError?: string;
+} {
+  if (!isApiError(error)) {
+    return { errors: {}, formError: "Something went wrong. Please try again." };
+  }
+  if (error.isValidation) {
+    const field = fields.find((name) =>
+      error.message.startsWith(`${postSchema[name].label} `)
+    );
+    if (field) return { errors: { [field]: error.message } };
+  }
+  return { errors: {}, formError: apiErrorMessage(error) };
+}
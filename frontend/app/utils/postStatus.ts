@@ -0,0 +1,18 @@
+import type { ChipProps } from "@mui/material";
+import type { PostStatus } from "../api/types";
+
+export const statusLabels: Record<PostStatus, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  scheduled: "Scheduled",
+  published: "Published",
+  archived: "Archived",
+};
+
+export const statusColors: Record<PostStatus, ChipProps["color"]> = {
+  draft: "default",
+  in_review: "warning",
+  scheduled: "info",
+  published: "success",
+  archived: "secondary",
+};
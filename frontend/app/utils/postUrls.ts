@@ -0,0 +1,19 @@
+import type { Post, Term } from "../api/types";
+
+/** The public, reader-facing URL of a post. */
+export function blogPostPath(post: Pick<Post, "slug">) {
+  return `/blog/${post.slug}`;
+}
+
+export function tagPath(tag: Pick<Term, "slug">) {
+  return `/tags/${tag.slug}`;
+}
+
+export function categoryPath(category: Pick<Term, "slug">) {
+  return `/categories/${category.slug}`;
+}
+
+/** Authors are addressed by name; listings match it case-insensitively. */
+export function authorPath(author: string) {
+  return `/authors/${encodeURIComponent(author)}`;
+}
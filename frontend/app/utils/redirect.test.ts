@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { safeRedirect } from "./redirect";
+
+describe("safeRedirect", () => {
+  it("keeps paths on this site", () => {
+    expect(safeRedirect("/posts/1/edit?tab=a#top")).toBe(
+      "/posts/1/edit?tab=a#top"
+    );
+  });
+
+  it("rejects other origins however they are spelled", () => {
+    for (const to of [
+      "https://evil.com",
+      "//evil.com",
+      "/\\evil.com",
+      "/\\/evil.com",
+      "/\t/evil.com",
+      "evil.com",
+    ]) {
+      expect(safeRedirect(to, "/home")).toBe("/home");
+    }
+  });
+
+  it("falls back when there is no path", () => {
+    expect(safeRedirect(null)).toBe("/");
+    expect(safeRedirect(undefined, "/posts")).toBe("/posts");
+  });
+});
@@ -0,0 +1,23 @@
+// Any origin will do: only whether a path stays on it matters.
+const BASE = "http://localhost";
+
+/**
+ * Only follows redirects to paths on this site, so a crafted `redirectTo`
+ * cannot bounce users to another origin. The path is checked the way a
+ * browser reads it, which also takes `/\evil.com` for `//evil.com`, and
+ * returned in that normalized form.
+ */
+export function safeRedirect(
+  to: FormDataEntryValue | string | null | undefined,
+  fallback = "/"
+) {
+  if (typeof to !== "string" || !to.startsWith("/")) return fallback;
+  let url: URL;
+  try {
+    url = new URL(to, BASE);
+  } catch {
+    return fallback;
+  }
+  if (url.origin !== BASE) return fallback;
+  return `${url.pathname}${url.search}${url.hash}`;
+}
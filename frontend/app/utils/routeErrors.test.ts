@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { ApiError } from "../api/client";
+import {
+  apiErrorMessage,
+  describeRouteError,
+  rethrowApiError,
+} from "./routeErrors";
+
+/** What React Router hands an ErrorBoundary for a thrown `data()`. */
+const errorResponse = (status: number, data: unknown) => ({
+  status,
+  statusText: "",
+  internal: false,
+  data,
+});
+
+function thrownBy(error: unknown) {
+  try {
+    rethrowApiError(error);
+  } catch (thrown) {
+    return thrown as { data: unknown; init: ResponseInit | null };
+  }
+}
+
+describe("rethrowApiError", () => {
+  it("keeps the status and message of a 4xx", () => {
+    expect(thrownBy(new ApiError("Post not found", 404))).toMatchObject({
+      data: { error: "Post not found", status: 404 },
+      init: { status: 404 },
+    });
+  });
+
+  it("drops the message of a 5xx", () => {
+    expect(
+      thrownBy(new ApiError("Database error: disk I/O", 500))
+    ).toMatchObject({
+      data: { error: "", status: 500 },
+      init: { status: 500 },
+    });
+  });
+
+  it("turns an unreachable backend into a 503", () => {
+    expect(thrownBy(new ApiError("fetch failed", 0))).toMatchObject({
+      init: { status: 503 },
+    });
+  });
+
+  it("passes other errors through", () => {
+    const error = new TypeError("oops");
+    expect(thrownBy(error)).toBe(error);
+  });
+});
+
+describe("describeRouteError", () => {
+  it("shows the backend's message for a 4xx", () => {
+    expect(
+      describeRouteError(
+        errorResponse(403, { error: "Drafts are private", status: 403 })
+      )
+    ).toMatchObject({
+      kind: "forbidden",
+      status: 403,
+      message: "Drafts are private",
+    });
+  });
+
+  it("falls back to the default message", () => {
+    expect(describeRouteError(errorResponse(404, null))).toMatchObject({
+      kind: "not-found",
+      message: "The page may have moved, or it never existed.",
+    });
+  });
+
+  it("never shows the backend's message for a 5xx", () => {
+    expect(
+      describeRouteError(
+        errorResponse(500, { error: "Database error: disk I/O", status: 500 })
+      )
+    ).toMatchObject({
+      kind: "crash",
+      message: "An unexpected error occurred. Please try again.",
+    });
+    expect(
+      describeRouteError(
+        errorResponse(503, { error: "connection refused", status: 503 })
+      )
+    ).toMatchObject({
+      kind: "unavailable",
+      message: "We couldn't reach the server. Please try again in a moment.",
+    });
+  });
+});
+
+describe("apiErrorMessage", () => {
+  it("passes on the message of a 4xx", () => {
+    expect(apiErrorMessage(new ApiError("Slow down", 429))).toBe("Slow down");
+  });
+
+  it("replaces the message of a 5xx or a failed connection", () => {
+    expect(apiErrorMessage(new ApiError("Database error: locked", 500))).toBe(
+      "Something went wrong on our side. Please try again later."
+    );
+    expect(apiErrorMessage(new ApiError("fetch failed", 0))).toBe(
+      "We couldn't reach the server. Please try again later."
+    );
+  });
+});
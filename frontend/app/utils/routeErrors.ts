@@ -0,0 +1,120 @@
+import { data, isRouteErrorResponse } from "react-router";
+import { isApiError, type ApiError } from "../api/client";
+import type { ApiErrorBody } from "../api/types";
+
+const isClientError = (status: number) => status >= 400 && status < 500;
+
+/**
+ * Rethrows a failed API call as an error response carrying the backend's
+ * `{ error, status }` body, for the route's ErrorBoundary to explain. Thrown
+ * as is, React Router would hide it behind a bare 500 in production. A
+ * backend that could not be reached becomes a 503. Other errors pass through.
+ *
+ * Only a 4xx keeps the backend's message: a 5xx one describes the server's
+ * internals (a failed query, say), which the backend logs and the page
+ * should not show.
+ */
+export function rethrowApiError(error: unknown): never {
+  if (!isApiError(error)) throw error;
+  const status = error.status || 503;
+  const message = isClientError(status) ? error.message : "";
+  throw data<ApiErrorBody>({ error: message, status }, { status });
+}
+
+/**
+ * What a form may tell the user about a failed API call: the backend's
+ * message for a 4xx, which says what to change, and for anything else only
+ * that it failed, for the same reason as in rethrowApiError.
+ */
+export function apiErrorMessage(error: ApiError) {
+  if (isClientError(error.status)) return error.message;
+  return error.status === 0
+    ? "We couldn't reach the server. Please try again later."
+    : "Something went wrong on our side. Please try again later.";
+}
+
+export type RouteErrorKind =
+  | "not-found"
+  | "unauthorized"
+  | "forbidden"
+  | "invalid"
+  | "unavailable"
+  | "crash";
+
+export interface RouteErrorDescription {
+  kind: RouteErrorKind;
+  status: number;
+  title: string;
+  message: string;
+  /** Stack trace of an unexpected error, in development only. */
+  stack?: string;
+}
+
+const defaults: Record<RouteErrorKind, { title: string; message: string }> = {
+  "not-found": {
+    title: "Page not found",
+    message: "The page may have moved, or it never existed.",
+  },
+  unauthorized: {
+    title: "Sign in required",
+    message: "Sign in to see this page.",
+  },
+  forbidden: {
+    title: "Access denied",
+    message: "Your account is not allowed to see this page.",
+  },
+  invalid: {
+    title: "That didn't work",
+    message: "The request could not be handled as sent.",
+  },
+  unavailable: {
+    title: "The blog is unavailable",
+    message: "We couldn't reach the server. Please try again in a moment.",
+  },
+  crash: {
+    title: "Something went wrong",
+    message: "An unexpected error occurred. Please try again.",
+  },
+};
+
+function kindOf(status: number): RouteErrorKind {
+  if (status === 404) return "not-found";
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "forbidden";
+  if (isClientError(status)) return "invalid";
+  if (status === 502 || status === 503 || status === 504) return "unavailable";
+  return "crash";
+}
+
+/**
+ * The backend's message, when the error response carries its body. Only
+ * trusted for 4xx statuses; see rethrowApiError.
+ */
+function apiMessage(status: number, body: unknown) {
+  if (!isClientError(status)) return undefined;
+  const message = (body as Partial<ApiErrorBody> | null)?.error;
+  return typeof message === "string" && message ? message : undefined;
+}
+
+/** What an ErrorBoundary should tell the reader about `error`. */
+export function describeRouteError(error: unknown): RouteErrorDescription {
+  if (isRouteErrorResponse(error)) {
+    const kind = kindOf(error.status);
+    return {
+      kind,
+      status: error.status,
+      title: defaults[kind].title,
+      message: apiMessage(error.status, error.data) ?? defaults[kind].message,
+    };
+  }
+  const description: RouteErrorDescription = {
+    kind: "crash",
+    status: 500,
+    ...defaults.crash,
+  };
+  if (import.meta.env.DEV && error instanceof Error) {
+    description.message = error.message;
+    description.stack = error.stack;
+  }
+  return description;
+}
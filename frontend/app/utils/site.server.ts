@@ -0,0 +1,10 @@
+/**
+ * The public origin of the site, for canonical links, link previews and
+ * feeds. `SITE_URL` should be set in production, where the request may
+ * arrive through a proxy under an internal host name; without it the
+ * request's own origin is used.
+ */
+export function getSiteUrl(request: Request) {
+  const configured = process.env.SITE_URL?.replace(/\/+$/, "");
+  return configured || new URL(request.url).origin;
+}
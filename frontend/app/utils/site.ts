@@ -0,0 +1,10 @@
+/** Shown as the site's name in link previews and feeds. */
+export const SITE_NAME = "Blog";
+
+/**
+ * Turns a site-relative path (or an absolute URL, left as it is) into a full
+ * URL on `siteUrl`, as link previews and feeds require.
+ */
+export function absoluteUrl(pathOrUrl: string, siteUrl: string) {
+  return new URL(pathOrUrl, siteUrl).href;
+}
@@ -0,0 +1,154 @@
+import { getSitemapEntries } from "../api/taxonomy";
+import type { SitemapEntries, SitemapEntry } from "../api/types";
+import { authorPath, blogPostPath, categoryPath, tagPath } from "./postUrls";
+import { rethrowApiError } from "./routeErrors";
+import { absoluteUrl } from "./site";
+import { getSiteUrl } from "./site.server";
+import { escapeXml } from "./xml";
+
+/**
+ * Most URLs in one sitemap file. The protocol allows 50,000; past this many
+ * `/sitemap.xml` becomes an index of numbered `/sitemaps/:page` files.
+ */
+const URLS_PER_SITEMAP = 10_000;
+
+const CACHE_CONTROL = "public, max-age=3600";
+
+/** Signed-in areas and pages that only make sense to the person using them. */
+const DISALLOWED_PATHS = [
+  "/posts",
+  "/media",
+  "/admin",
+  "/search",
+  "/login",
+  "/register",
+  "/logout",
+];
+
+interface SitemapUrl {
+  path: string;
+  lastmod?: string;
+}
+
+/** Home first, then posts most recently changed first, then listings. */
+async function listUrls(): Promise<SitemapUrl[]> {
+  // Anonymous, like the public blog: only published posts are listed.
+  let entries: SitemapEntries;
+  try {
+    entries = await getSitemapEntries();
+  } catch (error) {
+    rethrowApiError(error);
+  }
+  const page =
+    (toPath: (key: string) => string) =>
+    ({ key, updated_at }: SitemapEntry): SitemapUrl => ({
+      path: toPath(key),
+      lastmod: updated_at,
+    });
+
+  return [
+    { path: "/", lastmod: entries.posts[0]?.updated_at },
+    ...entries.posts.map(page((slug) => blogPostPath({ slug }))),
+    ...entries.tags.map(page((slug) => tagPath({ slug }))),
+    ...entries.categories.map(page((slug) => categoryPath({ slug }))),
+    ...entries.authors.map(page(authorPath)),
+  ];
+}
+
+const toW3cDate = (date: string) => new Date(date).toISOString();
+
+function latest(urls: SitemapUrl[]) {
+  return urls.reduce<string | undefined>(
+    (newest, { lastmod }) =>
+      lastmod && (!newest || Date.parse(lastmod) > Date.parse(newest))
+        ? lastmod
+        : newest,
+    undefined
+  );
+}
+
+function renderUrlSet(urls: SitemapUrl[], siteUrl: string) {
+  const entries = urls.map(
+    ({ path, lastmod }) => `
+  <url>
+    <loc>${escapeXml(absoluteUrl(path, siteUrl))}</loc>${
+      lastmod ? `\n    <lastmod>${toW3cDate(lastmod)}</lastmod>` : ""
+    }
+  </url>`
+  );
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${entries.join("")}
+</urlset>
+`;
+}
+
+function renderIndex(chunks: SitemapUrl[][], siteUrl: string) {
+  const entries = chunks.map((chunk, index) => {
+    const lastmod = latest(chunk);
+    return `
+  <sitemap>
+    <loc>${escapeXml(absoluteUrl(`/sitemaps/${index + 1}`, siteUrl))}</loc>${
+      lastmod ? `\n    <lastmod>${toW3cDate(lastmod)}</lastmod>` : ""
+    }
+  </sitemap>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${entries.join("")}
+</sitemapindex>
+`;
+}
+
+function chunk<T>(items: T[], size: number) {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+}
+
+function xmlResponse(body: string) {
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/xml; charset=utf-8",
+      "Cache-Control": CACHE_CONTROL,
+    },
+  });
+}
+
+/**
+ * `/sitemap.xml`: every public page when they fit in one file, otherwise an
+ * index pointing at the numbered files that hold them.
+ */
+export async function sitemapResponse(request: Request) {
+  const siteUrl = getSiteUrl(request);
+  const urls = await listUrls();
+  if (urls.length <= URLS_PER_SITEMAP) {
+    return xmlResponse(renderUrlSet(urls, siteUrl));
+  }
+  return xmlResponse(renderIndex(chunk(urls, URLS_PER_SITEMAP), siteUrl));
+}
+
+/** `/sitemaps/:page`: one numbered file of a split sitemap. */
+export async function sitemapPageResponse(request: Request, page: string) {
+  const chunks = chunk(await listUrls(), URLS_PER_SITEMAP);
+  // A site small enough for one file has no numbered files.
+  const urls = chunks.length > 1 ? chunks[Number(page) - 1] : undefined;
+  if (!urls) throw new Response("Not Found", { status: 404 });
+  return xmlResponse(renderUrlSet(urls, getSiteUrl(request)));
+}
+
+export function robotsResponse(request: Request) {
+  const lines = [
+    "User-agent: *",
+    ...DISALLOWED_PATHS.map((path) => `Disallow: ${path}`),
+    "",
+    `Sitemap: ${absoluteUrl("/sitemap.xml", getSiteUrl(request))}`,
+    "",
+  ];
+  return new Response(lines.join("\n"), {
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Cache-Control": CACHE_CONTROL,
+    },
+  });
+}
@@ -0,0 +1,17 @@
+// Mirrors `slugify` in backend/src/slugs.rs so the post form can preview the
+// slug the server will make from a title.
+
+const MAX_GENERATED_LENGTH = 80;
+
+/** "Hello, World!" becomes `hello-world`; `post` when nothing is left. */
+export function slugify(title: string) {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+/, "")
+    .slice(0, MAX_GENERATED_LENGTH)
+    .replace(/-+$/, "");
+  return slug || "post";
+}
+
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
@@ -0,0 +1,67 @@
+import type { Media } from "../api/types";
+
+// Mirrors the checks in backend/src/media.rs so obviously unsuitable files
+// are turned away before they are sent. The backend has the final say.
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export const UPLOAD_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+];
+
+/** For the `accept` attribute of file inputs. */
+export const UPLOAD_ACCEPT = UPLOAD_TYPES.join(",");
+
+export type UploadResult = { media: Media } | { error: string };
+
+/** Why `file` cannot be uploaded, or null if it can. */
+export function checkUpload(file: File) {
+  if (!UPLOAD_TYPES.includes(file.type)) {
+    return `${file.name}: only JPEG, PNG, GIF and WebP images and PDF files can be uploaded`;
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return `${file.name}: files must be at most ${formatBytes(MAX_UPLOAD_BYTES)}`;
+  }
+  return null;
+}
+
+/**
+ * Uploads a file from the browser through the `/media/upload` resource route,
+ * which passes it on to the API as the signed-in user.
+ */
+export async function uploadFile(file: File): Promise<Media> {
+  const problem = checkUpload(file);
+  if (problem) throw new Error(problem);
+
+  const form = new FormData();
+  form.append("file", file);
+  const response = await fetch("/media/upload", { method: "POST", body: form });
+  let result: UploadResult;
+  try {
+    result = await response.json();
+  } catch {
+    throw new Error(`${file.name}: the upload failed`);
+  }
+  if ("error" in result) throw new Error(`${file.name}: ${result.error}`);
+  return result.media;
+}
+
+/** Markdown that embeds an image or links to any other file. */
+export function mediaMarkdown(media: Media) {
+  const name = media.original_name.replace(/[[\]]/g, "");
+  if (media.content_type.startsWith("image/")) {
+    const alt = name.replace(/\.[^.]+$/, "");
+    return `![${alt}](${media.url})`;
+  }
+  return `[${name}](${media.url})`;
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
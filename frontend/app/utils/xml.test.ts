@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { escapeXml } from "./xml";
+
+describe("escapeXml", () => {
+  it("escapes markup and quotes", () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;"
+    );
+  });
+
+  it("escapes existing entities again", () => {
+    expect(escapeXml("&amp;")).toBe("&amp;amp;");
+  });
+
+  it("leaves other text alone", () => {
+    expect(escapeXml("Café — 100%")).toBe("Café — 100%");
+  });
+});
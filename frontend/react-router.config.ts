@@ -0,0 +1,46 @@
+import type { Config } from "@react-router/dev/config";
+import type { SitemapEntries } from "./app/api/types";
+import { blogPostPath } from "./app/utils/postUrls";
+
+const API_URL = process.env.VITE_API_URL || "http://localhost:3001";
+
+/**
+ * Pages rendered to static HTML at build time, while the API is reachable:
+ * the home page and, with PRERENDER_POSTS=true (and SITE_URL, for the
+ * canonical links), every published post. A build without the API
+ * prerenders nothing, and every page is rendered per request as before.
+ *
+ * The files are served as built, so they go stale: new posts, edits and new
+ * comments show up only after the next build. They hold the page as an
+ * anonymous visitor in the default color mode sees it, so server.js only
+ * serves them to requests without cookies (see `clientFiles`); a signed-in
+ * reader, or one who picked a color mode, gets a page rendered for them.
+ * server.js answers posts at `/blog/:slug/`, redirecting there from the
+ * address without the slash; a web server in front must apply the same
+ * rules if it serves the files itself.
+ *
+ * The home page is the first page of its listing; server.js leaves requests
+ * for other pages (`?page=`) to the server. The tag, category and author
+ * listings are not prerendered.
+ */
+async function prerenderPaths() {
+  try {
+    const response = await fetch(new URL("/api/sitemap", API_URL));
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const { posts } = (await response.json()) as SitemapEntries;
+    const postPaths =
+      process.env.PRERENDER_POSTS === "true"
+        ? posts.map(({ key }) => blogPostPath({ slug: key }))
+        : [];
+    return ["/", ...postPaths];
+  } catch (error) {
+    console.warn(`Not prerendering: ${API_URL} failed with ${error}`);
+    return [];
+  }
+}
+
+export default {
+  appDirectory: "app",
+  ssr: true,
+  prerender: prerenderPaths,
+} satisfies Config;
@@ -0,0 +1,68 @@
+import compression from "compression";
+import express from "express";
+import { createRequestHandler } from "@react-router/express";
+
+// The production server: what react-router-serve sets up, plus the visitor's
+// address for loaders and actions (see app/loadContext.ts), which the API
+// needs to rate-limit anonymous writes per visitor.
+
+const build = await import("./build/server/index.js");
+const port = Number(process.env.PORT) || 3000;
+
+/**
+ * TRUST_PROXY names the reverse proxies in front of this server, as a hop
+ * count or a comma-separated list of addresses and subnets (Express's
+ * `trust proxy`). Only their `X-Forwarded-For` entries are believed; unset,
+ * the header is ignored and the connection's address is the visitor's.
+ */
+function trustProxy(value) {
+  if (!value) return false;
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+/**
+ * Serves build/client: the browser's files, and the pages prerendered at
+ * build time (see react-router.config.ts). Those were rendered for a visitor
+ * with no session and no color mode, so they only go to page requests
+ * without cookies. Data requests from client-side navigations, which would
+ * carry the same anonymous root loader data, are always answered by the
+ * server. A prerendered listing is its first page; other pages (`?page=`)
+ * are rendered per request too.
+ */
+function clientFiles() {
+  const files = express.static("build/client", {
+    index: false,
+    redirect: false,
+  });
+  const pages = express.static("build/client");
+  return (req, res, next) => {
+    if (/\.(data|html)$/.test(req.path)) return next();
+    const anonymousPage = !req.headers.cookie && req.query.page === undefined;
+    files(req, res, () => (anonymousPage ? pages(req, res, next) : next()));
+  };
+}
+
+const app = express();
+app.disable("x-powered-by");
+app.set("trust proxy", trustProxy(process.env.TRUST_PROXY));
+app.use(compression());
+app.use(
+  "/assets",
+  express.static("build/client/assets", { immutable: true, maxAge: "1y" })
+);
+app.use(clientFiles());
+app.all(
+  "*",
+  createRequestHandler({
+    build,
+    mode: process.env.NODE_ENV,
+    getLoadContext: (req) => ({ clientIp: req.ip }),
+  })
+);
+
+const server = app.listen(port, () => {
+  console.log(`Listening on http://localhost:${port}`);
+});
+["SIGTERM", "SIGINT"].forEach((signal) => {
+  process.once(signal, () => server.close(console.error));
+});
@@ -2,7 +2,13 @@ import { defineConfig } from "vite";
 import { reactRouter } from "@react-router/dev/vite";
 
 export default defineConfig({
-  plugins: [reactRouter()],
+  // The React Router plugin builds the app; unit tests import modules alone.
+  plugins: [!process.env.VITEST && reactRouter()],
+  // MUI's ES modules use directory imports that Node refuses to load, so the
+  // server build (and prerendering, which imports it) bundles MUI instead.
+  ssr: {
+    noExternal: [/^@mui\//],
+  },
   server: {
     host: "0.0.0.0",
     port: 3000,